@@ -1,13 +1,52 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import Waveform from './components/Waveform';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import Waveform, { type GainPreview } from './components/Waveform';
 import { MultiTrackTimeline } from './components/MultiTrackTimeline';
-import { decodeFileAsAudioBuffer, trimAudioBuffer, audioBufferToWavBlob, applyFadeIn, applyFadeOut, applyNormalize, applyNoiseReduction, applyStudioEffect, renderMix } from './utils/audio';
+import { MasterMeter } from './components/MasterMeter';
+import { DuckingPanel } from './components/DuckingPanel';
+import { LoudnessReadout, LoudnessTargetFields } from './components/LoudnessPanel';
+import { NoiseReductionPanel } from './components/NoiseReductionPanel';
+import { GatePanel } from './components/GatePanel';
+import { EqPanel } from './components/EqPanel';
+import { EffectPreviewBar } from './components/EffectPreview';
+import { StudioVoicePanel } from './components/StudioVoicePanel';
+import { TimePitchPanel, type TimePitch } from './components/TimePitchPanel';
+import { decodeFileAsAudioBuffer, trimAudioBuffer, exportAudio, renderMix, normalizeLoudness, measureLoudnessInWorker, prepareClipBuffers, clipBuffersReady, gateGainsInWorker } from './utils/audio';
+import { renderEdits, applyOperation, describeOperation, remapMarkers, type RenderedEdits } from './utils/editList';
+import { saveProject, loadProject, PROJECT_EXTENSION } from './utils/project';
+import { createClip, trackEnd, splitClip, isClipProcessed } from './utils/clips';
+import { scheduleTracks } from './utils/mixGraph';
+import { emptyAutomation } from './utils/automation';
+import { computeDuckingCurve, DEFAULT_DUCKING } from './utils/ducking';
+import { DEFAULT_LOUDNESS_TARGET, type LoudnessStats } from './utils/loudness';
+import { DEFAULT_NOISE_REDUCTION } from './utils/noiseReduction';
+import { DEFAULT_EXPORT, exportFilename, exportSampleRate } from './utils/exportFormats';
+import { EMPTY_METADATA, hasMetadata, readMetadata } from './utils/metadata';
+import { addMarker, adjacentMarkerTime, audacityLabels, markersInRange, DEFAULT_REGION_LENGTH } from './utils/markers';
+import { DEFAULT_BATCH_EXPORT, exportBatch, markerParts, planBatchParts, regionParts } from './utils/batchExport';
+import { runDspJob, progressRange, ProcessingCancelledError, type ProcessingOptions } from './utils/processing';
+import { DEFAULT_GATE } from './utils/gate';
+import { DEFAULT_EQ_BANDS } from './utils/eq';
+import { DEFAULT_STUDIO_VOICE, STUDIO_VOICE_PRESETS } from './utils/studioVoice';
+import { createPreviewSlot, setLivePreview, setRenderedPreview, updatePreviewBypass, isLivePreview, type PreviewEffect, type PreviewSlot } from './utils/effectPreview';
+import { loadUserPresets, saveUserPreset, deleteUserPreset } from './services/presetStore';
+import { createMasterBus, updateMasterBus, DEFAULT_MASTER_BUS, type MasterBus } from './utils/masterBus';
+import { createSpeedStage, updateSpeedStage, PLAYBACK_RATES, type SpeedStage } from './utils/playbackSpeed';
+import { newSessionId, listSessions, saveEditorSession, restoreEditorSession, saveStudioSession, restoreStudioSession, clearOldSessions, getStorageUsage, StorageQuotaError, type SessionRecord, type SessionTab } from './services/sessionStore';
 import { PlayIcon, PauseIcon, DownloadIcon, UploadIcon, LogoIcon, UndoIcon, RedoIcon, SparklesIcon, SoundWaveIcon, MicIcon, ScissorsIcon, LayersIcon, PlusIcon, KeyIcon, LockClosedIcon } from './components/icons';
 import { Spinner } from './components/Spinner';
-import type { SelectionRange, Track } from './types';
+import { ProcessingProgress } from './components/ProcessingProgress';
+import { ExportDialog } from './components/ExportDialog';
+import { MetadataFields } from './components/MetadataFields';
+import { MarkerList } from './components/MarkerList';
+import { BatchExportFields } from './components/BatchExportFields';
+import type { SelectionRange, Track, EditOperation, EditCommand, MasterBusSettings, DuckingSettings, LoudnessTarget, NoiseProfile, NoiseReductionSettings, GateSettings, EqBand, StudioVoiceSettings, StudioVoicePreset, ExportSettings, AudioMetadata, Marker, BatchExportSettings } from './types';
 
 const COLORS = ['#f59e0b', '#ef4444', '#3b82f6', '#10b981', '#8b5cf6', '#ec4899'];
+const AUTOSAVE_INTERVAL = 5000; // Minimum ms between two autosaves of the same tab
+const PREVIEW_RENDER_DELAY = 300; // ms after the last parameter change before a preview is rendered
+const CLIP_PROCESS_DELAY = 500; // ms after the last clip change before stretched clips are processed
+const MIX_SAMPLE_RATE = 44100; // Of the Studio mix, unless the export asks for another rate
 
 const App: React.FC = () => {
     const [activeTab, setActiveTab] = useState<'editor' | 'studio'>('editor');
@@ -23,30 +62,104 @@ const App: React.FC = () => {
     
     // --- EDITOR STATE ---
     const [audioFile, setAudioFile] = useState<File | null>(null);
-    const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+    const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null); // Decoded file, never mutated
+    const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null); // Source with history[0..historyIndex) applied
     const [selection, setSelection] = useState<SelectionRange>({ start: 0, end: 0 });
-    const [history, setHistory] = useState<AudioBuffer[]>([]);
-    const [historyIndex, setHistoryIndex] = useState<number>(-1);
+    const [history, setHistory] = useState<EditOperation[]>([]);
+    const [historyIndex, setHistoryIndex] = useState<number>(0); // Number of operations currently applied
+    const [clipboard, setClipboard] = useState<AudioBuffer | null>(null);
+    const [silenceDuration, setSilenceDuration] = useState<number>(1.0);
 
     // --- STUDIO STATE ---
     const [tracks, setTracks] = useState<Track[]>([]);
+    const [masterSettings, setMasterSettings] = useState<MasterBusSettings>(DEFAULT_MASTER_BUS);
+    const [masterBus, setMasterBus] = useState<MasterBus | null>(null);
+    const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+    const [embedProjectAudio, setEmbedProjectAudio] = useState<boolean>(true);
 
     // --- SHARED STATE ---
     const [isPlaying, setIsPlaying] = useState<boolean>(false);
     const [currentTime, setCurrentTime] = useState<number>(0);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
+    const [progress, setProgress] = useState<number | null>(null); // Of the running task, when it reports any
     const [error, setError] = useState<string | null>(null);
     const [volume, setVolume] = useState<number>(1);
+    const [playbackRate, setPlaybackRate] = useState<number>(1);
+    const [preservePitch, setPreservePitch] = useState<boolean>(true);
+    const [speedStage, setSpeedStage] = useState<SpeedStage | null>(null);
     const [fadeDuration, setFadeDuration] = useState<number>(1.0);
 
+    // --- LOUDNESS ---
+    const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTarget>(DEFAULT_LOUDNESS_TARGET);
+    const [selectionLoudness, setSelectionLoudness] = useState<LoudnessStats | null>(null);
+    const [normalizeExport, setNormalizeExport] = useState<boolean>(false);
+    const [exportLoudness, setExportLoudness] = useState<LoudnessStats | null>(null);
+
+    // --- EXPORT ---
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT);
+    const [exportTarget, setExportTarget] = useState<'selection' | 'mix' | 'batch' | null>(null); // Open export dialog
+    const [batchSettings, setBatchSettings] = useState<BatchExportSettings>(DEFAULT_BATCH_EXPORT);
+    const [editorMetadata, setEditorMetadata] = useState<AudioMetadata>(EMPTY_METADATA); // Tags of the Editor's file
+    const [mixMetadata, setMixMetadata] = useState<AudioMetadata>(EMPTY_METADATA);
+
+    // --- MARKERS ---
+    const [editorMarkers, setEditorMarkers] = useState<Marker[]>([]);
+    const [studioMarkers, setStudioMarkers] = useState<Marker[]>([]);
+
+    // --- NOISE REDUCTION ---
+    const [noiseSettings, setNoiseSettings] = useState<NoiseReductionSettings>(DEFAULT_NOISE_REDUCTION);
+    const [noiseSample, setNoiseSample] = useState<{ profile: NoiseProfile, range: SelectionRange } | null>(null);
+
+    // --- GATE ---
+    const [gateSettings, setGateSettings] = useState<GateSettings>(DEFAULT_GATE);
+    const [showGatePreview, setShowGatePreview] = useState<boolean>(false);
+    const [gatePreview, setGatePreview] = useState<GainPreview | null>(null);
+
+    // --- PARAMETRIC EQ ---
+    const [eqBands, setEqBands] = useState<EqBand[]>(DEFAULT_EQ_BANDS);
+
+    // --- TIME-STRETCH / PITCH ---
+    const [timePitch, setTimePitch] = useState<TimePitch>({ stretch: 1, pitch: 0 });
+
+    // --- STUDIO VOICE ---
+    const [studioVoice, setStudioVoice] = useState<StudioVoiceSettings>(DEFAULT_STUDIO_VOICE);
+    const [showStudioVoice, setShowStudioVoice] = useState<boolean>(false);
+    const [userPresets, setUserPresets] = useState<StudioVoicePreset[]>(loadUserPresets);
+
+    // --- EFFECT PREVIEW ---
+    const [previewEffect, setPreviewEffect] = useState<PreviewEffect | null>(null);
+    const [previewBypass, setPreviewBypass] = useState<boolean>(false);
+    const [previewRender, setPreviewRender] = useState<AudioBuffer | null>(null); // Rendered preview of a non-live effect
+    const [isRenderingPreview, setIsRenderingPreview] = useState<boolean>(false);
+
+    // --- AUTOSAVE STATE ---
+    const [restorableSessions, setRestorableSessions] = useState<SessionRecord[]>([]);
+    const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+    const [autosaveError, setAutosaveError] = useState<string | null>(null);
+    const [storageUsage, setStorageUsage] = useState<{ usage: number, quota: number } | null>(null);
+    const editorSessionIdRef = useRef<string>(newSessionId());
+    const studioSessionIdRef = useRef<string>(newSessionId());
+    const lastAutosaveRef = useRef<Record<SessionTab, number>>({ editor: 0, studio: 0 });
+
     const audioContextRef = useRef<AudioContext | null>(null);
     
     // Refs for Editor playback
     const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
     const gainNodeRef = useRef<GainNode | null>(null);
+    const playbackOutputRef = useRef<GainNode | null>(null); // Both tabs' output, feeds the speed stage
+    const previewSlotRef = useRef<PreviewSlot | null>(null); // Sources connect here, it feeds gainNodeRef
+    const previewSourceRef = useRef<AudioBufferSourceNode | null>(null); // Rendered effect preview, in sync with audioSourceRef
     const playbackStartTimeRef = useRef<number>(0);
     const playbackStartOffsetRef = useRef<number>(0);
+    const playbackRateRef = useRef<number>(1); // Rate the running playback was started with
+
+    // Last rendered state of the edit list, so redo/new edits don't replay from the source
+    const renderedEditsRef = useRef<RenderedEdits | null>(null);
+    // Cancels the running task
+    const taskControllerRef = useRef<AbortController | null>(null);
+
+    const waveformAreaRef = useRef<HTMLDivElement>(null); // Focused while the user works on the waveform
 
     // Refs for Studio playback
     const studioSourceNodesRef = useRef<AudioBufferSourceNode[]>([]);
@@ -55,19 +168,174 @@ const App: React.FC = () => {
         if (!audioContextRef.current) {
             const context = new (window.AudioContext || (window as any).webkitAudioContext)();
             audioContextRef.current = context;
-            gainNodeRef.current = context.createGain();
-            gainNodeRef.current.connect(context.destination);
+            const editorOutput = context.createGain();
+            gainNodeRef.current = editorOutput;
+            previewSlotRef.current = createPreviewSlot(context, editorOutput);
+            // Both tabs play through the speed stage once it is loaded, or straight to the
+            // speakers without it (AudioWorklet needs a secure origin). Studio tracks are first
+            // summed into a persistent master bus.
+            const playbackOutput = context.createGain();
+            playbackOutputRef.current = playbackOutput;
+            editorOutput.connect(playbackOutput);
+            createSpeedStage(context, context.destination)
+                .then(stage => {
+                    setSpeedStage(stage);
+                    playbackOutput.connect(stage.input);
+                })
+                .catch(err => {
+                    playbackOutput.connect(context.destination);
+                    setError(`Không thể tải bộ giữ cao độ, phát nhanh/chậm sẽ đổi cao độ: ${(err as Error).message}`);
+                });
+            createMasterBus(context, DEFAULT_MASTER_BUS, playbackOutput, true)
+                .then(setMasterBus)
+                .catch(err => setError(`Không thể tạo master bus, Studio sẽ phát không qua limiter: ${(err as Error).message}`));
         }
     }, []);
 
+    useEffect(() => {
+        if (masterBus) updateMasterBus(masterBus, masterSettings);
+    }, [masterBus, masterSettings]);
+
+    useEffect(() => {
+        if (speedStage) updateSpeedStage(speedStage, playbackRate, preservePitch);
+    }, [speedStage, playbackRate, preservePitch]);
+
+    // Timeline position of the running playback, which advances `rate` seconds per second
+    const playbackPosition = useCallback((ctx: BaseAudioContext) =>
+        playbackStartOffsetRef.current + (ctx.currentTime - playbackStartTimeRef.current) * playbackRateRef.current, []);
+
+    // Recomputed only when the key track or the mix length changes, not on every track edit.
+    // Covers the same length as renderMix (mix end + 0.5 s) so both use identical curves.
+    const duckingKeyTrack = tracks.find(t => t.id === ducking.keyTrackId);
+    const mixDuration = tracks.length > 0 ? Math.max(...tracks.map(trackEnd)) + 0.5 : 0;
+    const duckingCurve = useMemo(
+        () => computeDuckingCurve(duckingKeyTrack, ducking, mixDuration),
+        [duckingKeyTrack, ducking, mixDuration]
+    );
+
+    // --- AUTOSAVE / RECOVERY ---
+    const refreshStorageUsage = useCallback(() => {
+        getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+    }, []);
+
+    // Offer the most recent previous session of each tab
+    useEffect(() => {
+        listSessions().then(sessions => {
+            const latest = (['editor', 'studio'] as SessionTab[])
+                .map(tab => sessions.find(s => s.tab === tab))
+                .filter((s): s is SessionRecord => !!s);
+            setRestorableSessions(latest);
+        }).catch(err => setError(`Không thể đọc các phiên đã lưu: ${(err as Error).message}`));
+        refreshStorageUsage();
+    }, [refreshStorageUsage]);
+
+    // Throttled: saves at most once per AUTOSAVE_INTERVAL per tab, always with the latest state
+    const scheduleAutosave = useCallback((tab: SessionTab, save: () => Promise<void>) => {
+        const wait = Math.max(0, lastAutosaveRef.current[tab] + AUTOSAVE_INTERVAL - Date.now());
+        const timer = setTimeout(async () => {
+            lastAutosaveRef.current[tab] = Date.now();
+            try {
+                await save();
+                setLastAutosave(Date.now());
+            } catch (err) {
+                setAutosaveError(err instanceof StorageQuotaError
+                    ? "Bộ nhớ trình duyệt đã đầy, tự động lưu đã tắt."
+                    : `Tự động lưu thất bại: ${(err as Error).message}`);
+            }
+            refreshStorageUsage();
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [refreshStorageUsage]);
+
+    const handleRestoreSession = async (record: SessionRecord) => {
+        if (!audioContextRef.current) return;
+        const ctx = audioContextRef.current;
+        setRestorableSessions(prev => prev.filter(s => s.id !== record.id));
+        stopAllAudio();
+        setIsPlaying(false);
+        setIsLoading(true);
+        setError(null);
+        try {
+            if (record.tab === 'editor') {
+                const state = await restoreEditorSession(record, ctx);
+                const buffer = await renderEdits(state.source, state.history, state.historyIndex, ctx);
+                editorSessionIdRef.current = record.id;
+                renderedEditsRef.current = { count: state.historyIndex, buffer };
+                setAudioFile(state.file);
+                setEditorMetadata(readMetadata(new Uint8Array(await state.file.arrayBuffer())));
+                setSourceBuffer(state.source);
+                setHistory(state.history);
+                setHistoryIndex(state.historyIndex);
+                setAudioBuffer(buffer);
+                setSelection(state.selection);
+                setEditorMarkers(state.markers);
+                setCurrentTime(state.selection.start);
+            } else {
+                const { tracks: restoredTracks, master, ducking: restoredDucking, markers: restoredMarkers } = await restoreStudioSession(record, ctx);
+                studioSessionIdRef.current = record.id;
+                setTracks(restoredTracks);
+                setMasterSettings(master);
+                setDucking(restoredDucking);
+                setStudioMarkers(restoredMarkers);
+                setCurrentTime(0);
+            }
+            setActiveTab(record.tab);
+        } catch (err) {
+            setError("Không thể khôi phục phiên: " + (err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleClearOldSessions = async () => {
+        try {
+            await clearOldSessions([editorSessionIdRef.current, studioSessionIdRef.current]);
+            setRestorableSessions([]);
+            setAutosaveError(null);
+        } catch (err) {
+            setError("Không thể xóa phiên cũ: " + (err as Error).message);
+        }
+        refreshStorageUsage();
+    };
+
+    // Runs a processing task with the progress bar; a cancelled task leaves everything as it was
+    const runTask = useCallback(async (task: (options: ProcessingOptions) => Promise<void>, errorPrefix: string) => {
+        const controller = new AbortController();
+        taskControllerRef.current = controller;
+        setIsProcessing(true);
+        setProgress(null);
+        setError(null);
+        try {
+            await task({ signal: controller.signal, onProgress: setProgress, onWarning: setError });
+        } catch (err) {
+            if (!(err instanceof ProcessingCancelledError)) setError(`${errorPrefix}: ${(err as Error).message}`);
+        } finally {
+            taskControllerRef.current = null;
+            setIsProcessing(false);
+            setProgress(null);
+        }
+    }, []);
+
+    const handleCancelTask = () => taskControllerRef.current?.abort();
+
     // --- EDITOR LOGIC ---
-    const updateHistory = useCallback((newBuffer: AudioBuffer) => {
-        const newHistory = history.slice(0, historyIndex + 1);
-        newHistory.push(newBuffer);
-        setHistory(newHistory);
-        setHistoryIndex(newHistory.length - 1);
-        setAudioBuffer(newBuffer);
-    }, [history, historyIndex]);
+    const renderHistory = useCallback(async (operations: EditOperation[], count: number, options: ProcessingOptions = {}) => {
+        if (!sourceBuffer || !audioContextRef.current) return;
+        const buffer = await renderEdits(sourceBuffer, operations, count, audioContextRef.current, renderedEditsRef.current, options);
+        renderedEditsRef.current = { count, buffer };
+        // Markers follow the audio: forward through the operations now applied, back through undone ones
+        setEditorMarkers(current => count >= historyIndex
+            ? operations.slice(historyIndex, count).reduce((mapped, operation) => remapMarkers(mapped, operation), current)
+            : operations.slice(count, historyIndex).reduceRight((mapped, operation) => remapMarkers(mapped, operation, true), current));
+        setHistory(operations);
+        setHistoryIndex(count);
+        setAudioBuffer(buffer);
+    }, [sourceBuffer, historyIndex]);
+
+    const updateHistory = useCallback((operation: EditOperation, options: ProcessingOptions = {}) => {
+        const newHistory = [...history.slice(0, historyIndex), operation];
+        return renderHistory(newHistory, newHistory.length, options);
+    }, [history, historyIndex, renderHistory]);
 
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -86,16 +354,22 @@ const App: React.FC = () => {
         setIsLoading(true);
         setError(null);
         setAudioFile(file);
+        setSourceBuffer(null);
         setAudioBuffer(null);
         setCurrentTime(0);
         setSelection({ start: 0, end: 0 });
         setHistory([]);
-        setHistoryIndex(-1);
+        setHistoryIndex(0);
+        setEditorMarkers([]);
+        renderedEditsRef.current = null;
         try {
             if (!audioContextRef.current) throw new Error("AudioContext not initialized");
-            const buffer = await decodeFileAsAudioBuffer(file, audioContextRef.current);
+            const { buffer, metadata } = await decodeFileAsAudioBuffer(file, audioContextRef.current);
+            setEditorMetadata(metadata);
             setSelection({ start: 0, end: buffer.duration });
-            updateHistory(buffer);
+            renderedEditsRef.current = { count: 0, buffer };
+            setSourceBuffer(buffer);
+            setAudioBuffer(buffer);
         } catch (err) {
             setError('Không thể giải mã tệp âm thanh.');
             console.error(err);
@@ -109,14 +383,20 @@ const App: React.FC = () => {
         setError(null);
         try {
             if (!audioContextRef.current) throw new Error("Ctx missing");
-            const buffer = await decodeFileAsAudioBuffer(file, audioContextRef.current);
+            const { buffer, metadata } = await decodeFileAsAudioBuffer(file, audioContextRef.current);
+            // The mix starts out with the tags of the first tagged file, usually the main voice
+            setMixMetadata(prev => hasMetadata(prev) ? prev : metadata);
             const newTrack: Track = {
                 id: Math.random().toString(36).substr(2, 9),
                 file,
                 buffer,
-                startTime: 0,
+                clips: [createClip(buffer)],
                 volume: 1,
+                pan: 0,
                 isMuted: false,
+                isSolo: false,
+                inserts: [],
+                automation: emptyAutomation(),
                 color: COLORS[tracks.length % COLORS.length]
             };
             setTracks(prev => [...prev, newTrack]);
@@ -134,8 +414,7 @@ const App: React.FC = () => {
         let animationFrameId: number;
         const loop = () => {
             if (audioContextRef.current) {
-                const elapsedTime = audioContextRef.current.currentTime - playbackStartTimeRef.current;
-                const newCurrentTime = playbackStartOffsetRef.current + elapsedTime;
+                const newCurrentTime = playbackPosition(audioContextRef.current);
 
                 // Stop condition depends on mode
                 if (activeTab === 'editor') {
@@ -164,39 +443,56 @@ const App: React.FC = () => {
             try { audioSourceRef.current.stop(); } catch(e) {}
             audioSourceRef.current = null;
         }
+        if (previewSourceRef.current) {
+            try { previewSourceRef.current.stop(); } catch(e) {}
+            previewSourceRef.current = null;
+        }
         studioSourceNodesRef.current.forEach(node => {
             try { node.stop(); } catch (e) {}
         });
         studioSourceNodesRef.current = [];
     };
 
+    // Plays a rendered effect preview into the preview slot's wet path, in step with the
+    // Editor source started at the same moment with the same offset
+    const startPreviewSource = (ctx: AudioContext, rendered: AudioBuffer, offset: number, duration: number) => {
+        if (!previewSlotRef.current) return;
+        if (previewSourceRef.current) {
+            try { previewSourceRef.current.stop(); } catch(e) {}
+        }
+        const source = ctx.createBufferSource();
+        source.buffer = rendered;
+        source.playbackRate.value = playbackRateRef.current;
+        source.connect(previewSlotRef.current.wet);
+        source.start(0, offset, duration);
+        previewSourceRef.current = source;
+    };
+
     const startPlayback = useCallback((startOffset: number) => {
         if (!audioContextRef.current) return;
         const ctx = audioContextRef.current;
         stopAllAudio(); // Ensure clean slate
+        playbackRateRef.current = playbackRate;
 
         if (activeTab === 'editor') {
-            if (!audioBuffer || !gainNodeRef.current) return;
+            if (!audioBuffer || !gainNodeRef.current || !previewSlotRef.current) return;
             const source = ctx.createBufferSource();
             source.buffer = audioBuffer;
-            source.connect(gainNodeRef.current);
+            source.playbackRate.value = playbackRate;
+            source.connect(previewSlotRef.current.input);
             gainNodeRef.current.gain.value = volume;
             
-            const offset = startOffset >= selection.end ? selection.start : Math.max(selection.start, startOffset);
-            const duration = selection.end - offset;
-
-            if (duration <= 0) {
-                 // Reset to start if at end
-                 setCurrentTime(selection.start);
-                 playbackStartOffsetRef.current = selection.start;
-                 source.start(0, selection.start, selection.end - selection.start);
-            } else {
-                source.start(0, offset, duration);
-                playbackStartOffsetRef.current = offset;
-                setCurrentTime(offset);
-            }
+            let offset = startOffset >= selection.end ? selection.start : Math.max(selection.start, startOffset);
+            // Reset to start if at end
+            if (selection.end - offset <= 0) offset = selection.start;
+            source.start(0, offset, selection.end - offset);
+            playbackStartOffsetRef.current = offset;
+            setCurrentTime(offset);
 
             audioSourceRef.current = source;
+            if (previewRender && previewRender.length === audioBuffer.length) {
+                startPreviewSource(ctx, previewRender, offset, selection.end - offset);
+            }
             
         } else {
             // Studio Mode
@@ -204,39 +500,14 @@ const App: React.FC = () => {
             
             const studioStartOffset = startOffset;
             
-            tracks.forEach(track => {
-                if (track.isMuted) return;
-                
-                // Calculate if this track should be playing right now or in future
-                const trackEnd = track.startTime + track.buffer.duration;
-                
-                // If track is already finished at current time, skip
-                if (trackEnd <= studioStartOffset) return;
-
-                const source = ctx.createBufferSource();
-                source.buffer = track.buffer;
-                const trackGain = ctx.createGain();
-                trackGain.gain.value = track.volume;
-                source.connect(trackGain);
-                trackGain.connect(ctx.destination); // Connect to master
-                
-                if (track.startTime >= studioStartOffset) {
-                    // Track starts in the future relative to now
-                    const when = track.startTime - studioStartOffset;
-                    source.start(ctx.currentTime + when, 0);
-                } else {
-                    // Track is in the middle
-                    const offsetInTrack = studioStartOffset - track.startTime;
-                    source.start(0, offsetInTrack);
-                }
-                studioSourceNodesRef.current.push(source);
-            });
+            // Same graph as renderMix, entered at the current position
+            studioSourceNodesRef.current = scheduleTracks(ctx, tracks, masterBus?.input ?? playbackOutputRef.current ?? ctx.destination, studioStartOffset, ctx.currentTime, duckingCurve, playbackRate);
             playbackStartOffsetRef.current = studioStartOffset;
         }
         
         playbackStartTimeRef.current = ctx.currentTime;
         setIsPlaying(true);
-    }, [activeTab, audioBuffer, selection, tracks, volume]);
+    }, [activeTab, audioBuffer, selection, tracks, volume, masterBus, duckingCurve, previewRender, playbackRate]);
 
     const handlePlayPause = useCallback(() => {
         if (!audioContextRef.current) return;
@@ -248,17 +519,30 @@ const App: React.FC = () => {
             setIsPlaying(false);
             
             // Calculate the exact time we stopped
-            const elapsedTime = ctx.currentTime - playbackStartTimeRef.current;
-            const actualPauseTime = playbackStartOffsetRef.current + elapsedTime;
+            const actualPauseTime = playbackPosition(ctx);
             
             setCurrentTime(actualPauseTime);
             playbackStartOffsetRef.current = actualPauseTime;
             
+        } else if (activeTab === 'studio' && !clipBuffersReady(tracks)) {
+            // Stretched and pitch-shifted clips still being processed would be left out
+            runTask(async options => {
+                await prepareClipBuffers(tracks, options);
+                startPlayback(currentTime);
+            }, 'Lỗi xử lý clip');
         } else {
             // PLAY LOGIC
             startPlayback(currentTime);
         }
-    }, [isPlaying, startPlayback, currentTime]);
+    }, [isPlaying, startPlayback, currentTime, activeTab, tracks, runTask]);
+
+    // A new speed takes effect from the current position. Playback started at that speed has
+    // nothing to restart, so changes to the other dependencies return early.
+    useEffect(() => {
+        const ctx = audioContextRef.current;
+        if (!ctx || !isPlaying || playbackRateRef.current === playbackRate) return;
+        startPlayback(playbackPosition(ctx));
+    }, [playbackRate, isPlaying, startPlayback, playbackPosition]);
 
     const handleSeek = (time: number) => {
         const newTime = Math.max(0, time);
@@ -270,85 +554,358 @@ const App: React.FC = () => {
         }
     };
     
+    // Markers of the active tab: the Editor's are times in its buffer, the Studio's on the timeline
+    const markers = activeTab === 'editor' ? editorMarkers : studioMarkers;
+    const setMarkers = activeTab === 'editor' ? setEditorMarkers : setStudioMarkers;
+
+    // The Editor's selection once the user has narrowed it down from the whole file
+    const hasPartialSelection = selection.end > selection.start && !(selection.start === 0 && selection.end === audioBuffer?.duration);
+
+    // A point at the playhead; a region covers the Editor's selection, or runs on from the playhead
+    const handleAddMarker = (region: boolean) => {
+        if (activeTab === 'editor' && !audioBuffer) return;
+        if (!region) {
+            setMarkers(addMarker(markers, currentTime));
+            return;
+        }
+        if (activeTab === 'editor' && hasPartialSelection) {
+            setMarkers(addMarker(markers, selection.start, selection.end));
+            return;
+        }
+        const end = activeTab === 'editor' ? Math.min(audioBuffer!.duration, currentTime + DEFAULT_REGION_LENGTH) : currentTime + DEFAULT_REGION_LENGTH;
+        if (end > currentTime) setMarkers(addMarker(markers, currentTime, end));
+    };
+
+    const handleJumpToMarker = (direction: 1 | -1) => {
+        const time = adjacentMarkerTime(markers, currentTime, direction);
+        if (time !== null) handleSeek(time);
+    };
+
+    const handleExportLabels = () => {
+        const base = activeTab === 'editor' ? (audioFile?.name.replace(/\.[^.]+$/, '') || 'audio') : 'studio_mix';
+        downloadBlob(new Blob([audacityLabels(markers)], { type: 'text/plain' }), `${base}_labels.txt`);
+    };
+
     useEffect(() => {
         if (gainNodeRef.current && activeTab === 'editor') {
             gainNodeRef.current.gain.value = volume;
         }
     }, [volume, activeTab]);
     
-    // Spacebar
-    useEffect(() => {
-        const handleKeyDown = (event: KeyboardEvent) => {
-            if (!hasApiKey) return; // Disable shortcuts if locked
-            const activeElement = document.activeElement as HTMLElement;
-            if (activeElement && ['INPUT', 'BUTTON', 'SELECT', 'TEXTAREA'].includes(activeElement.tagName)) return;
-            if (event.code === 'Space') {
+    // Keyboard shortcuts. The listener is added once and calls the handler of the latest render.
+    const handleKeyDown = (event: KeyboardEvent) => {
+        if (!hasApiKey) return; // Disable shortcuts if locked
+        const activeElement = document.activeElement as HTMLElement;
+        if (activeElement && ['INPUT', 'BUTTON', 'SELECT', 'TEXTAREA'].includes(activeElement.tagName)) return;
+        if (event.code === 'Space') {
+            event.preventDefault();
+            handlePlayPause();
+            return;
+        }
+
+        // Markers: M adds one at the playhead, [ and ] jump to the previous / next one
+        if (!event.ctrlKey && !event.metaKey && !event.altKey) {
+            if (event.code === 'KeyM') {
                 event.preventDefault();
-                handlePlayPause();
+                handleAddMarker(false);
+                return;
             }
-        };
-        window.addEventListener('keydown', handleKeyDown);
-        return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [handlePlayPause, hasApiKey]);
+            if (event.code === 'BracketLeft' || event.code === 'BracketRight') {
+                event.preventDefault();
+                handleJumpToMarker(event.code === 'BracketLeft' ? -1 : 1);
+                return;
+            }
+        }
+
+        // Editing shortcuts (Editor only). They act on a selection made by the user, or paste
+        // at the playhead while the waveform has focus; otherwise the keys keep their usual
+        // meaning, as do copy and cut of selected page text.
+        if (activeTab !== 'editor' || isProcessing) return;
+        const waveformFocused = !!waveformAreaRef.current?.contains(activeElement);
+        if (!waveformFocused && !window.getSelection()?.isCollapsed) return;
+        const mod = event.ctrlKey || event.metaKey;
+        let command: EditCommand | null = null;
+        if (mod && event.code === 'KeyV') command = waveformFocused || hasPartialSelection ? 'paste' : null;
+        else if (!hasPartialSelection) return;
+        else if (mod && event.code === 'KeyX') command = 'cut';
+        else if (mod && event.code === 'KeyC') command = 'copy';
+        else if (event.code === 'Delete' || event.code === 'Backspace') command = 'delete';
+        if (command) {
+            event.preventDefault();
+            handleEditCommand(command);
+        }
+    };
+    const handleKeyDownRef = useRef(handleKeyDown);
+    handleKeyDownRef.current = handleKeyDown;
+
+    useEffect(() => {
+        const listener = (event: KeyboardEvent) => handleKeyDownRef.current(event);
+        window.addEventListener('keydown', listener);
+        return () => window.removeEventListener('keydown', listener);
+    }, []);
 
     // --- EDITOR ACTIONS ---
     const handleTrimAndDownload = () => {
         if (!audioBuffer || !audioContextRef.current) return;
-        try {
-            const trimmedBuffer = trimAudioBuffer(audioBuffer, selection.start, selection.end, audioContextRef.current);
-            downloadBuffer(trimmedBuffer, `cut_${audioFile?.name || 'audio'}`);
-        } catch (err) {
-            setError("Không thể cắt hoặc xuất âm thanh.");
-        }
+        const ctx = audioContextRef.current;
+        runTask(async options => {
+            const trimmedBuffer = trimAudioBuffer(audioBuffer, selection.start, selection.end, ctx);
+            const selectionMarkers = markersInRange(editorMarkers, selection.start, selection.end);
+            downloadBlob(await exportAudio(trimmedBuffer, exportSettings, editorMetadata, selectionMarkers, options), exportFilename(`cut_${audioFile?.name || 'audio'}`, exportSettings));
+        }, 'Không thể cắt hoặc xuất âm thanh');
     };
 
-    const downloadBuffer = (buffer: AudioBuffer, filenameBase: string) => {
-        const blob = audioBufferToWavBlob(buffer);
+    const downloadBlob = (blob: Blob, filename: string) => {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${filenameBase}_${Date.now()}.wav`;
+        a.download = filename;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
     }
 
-    const handleEffect = useCallback(async (effectFn: Function) => {
-        if (!audioBuffer || !audioContextRef.current) return;
-        setIsProcessing(true);
-        setError(null);
-        try {
-            await new Promise(resolve => setTimeout(resolve, 50));
-            const newBuffer = await effectFn(audioBuffer, selection.start, selection.end, audioContextRef.current);
-            updateHistory(newBuffer);
-        } catch (err) {
-            setError(`Lỗi hiệu ứng: ${(err as Error).message}`);
-        } finally {
-            setIsProcessing(false);
+    // Current parameters of a previewable effect as the operation applying it would commit
+    const effectOperation = useCallback((effect: PreviewEffect): EditOperation => {
+        const { start, end } = selection;
+        switch (effect) {
+            case 'eq':
+                return { type: 'eq', start, end, bands: eqBands };
+            case 'studio':
+                return { type: 'studio', start, end, settings: studioVoice };
+            case 'gate':
+                return { type: 'gate', start, end, settings: gateSettings };
+            case 'noiseReduction':
+                return { type: 'noiseReduction', start, end, settings: noiseSettings, profile: noiseSample?.profile };
+            case 'pitchShift':
+                return { type: 'pitchShift', start, end, semitones: timePitch.pitch };
+        }
+    }, [selection, eqBands, studioVoice, gateSettings, noiseSettings, noiseSample, timePitch.pitch]);
+
+    const handleEffect = useCallback((type: 'normalize' | PreviewEffect) => {
+        if (!audioBuffer) return;
+        const operation: EditOperation = type === 'normalize'
+            ? { type, start: selection.start, end: selection.end }
+            : effectOperation(type);
+        // Once applied, the effect is part of the audio and no longer previewed on top of it
+        if (type === previewEffect) setPreviewEffect(null);
+        runTask(options => updateHistory(operation, options), 'Lỗi hiệu ứng');
+    }, [audioBuffer, selection.start, selection.end, updateHistory, effectOperation, previewEffect]);
+
+    const togglePreview = (effect: PreviewEffect) => {
+        setPreviewBypass(false);
+        setPreviewEffect(current => current === effect ? null : effect);
+    };
+
+    const previewOperation = useMemo(
+        () => previewEffect ? effectOperation(previewEffect) : null,
+        [previewEffect, effectOperation]
+    );
+
+    // Live effects follow every parameter change on the playback graph; rendered ones feed
+    // the wet path once their render is ready
+    useEffect(() => {
+        const slot = previewSlotRef.current;
+        if (!slot) return;
+        if (previewEffect && isLivePreview(previewEffect)) {
+            setLivePreview(slot, previewOperation).catch(err => setError(`Lỗi nghe thử: ${(err as Error).message}`));
+        } else {
+            setRenderedPreview(slot, !!previewEffect && !!previewRender);
+        }
+    }, [previewEffect, previewOperation, previewRender]);
+
+    useEffect(() => {
+        if (previewSlotRef.current) updatePreviewBypass(previewSlotRef.current, previewBypass);
+    }, [previewBypass]);
+
+    // Other effects are rendered in the background shortly after the last change. The previous
+    // render keeps playing until the new one is ready.
+    useEffect(() => {
+        const ctx = audioContextRef.current;
+        if (!ctx || !audioBuffer || !previewEffect || isLivePreview(previewEffect) || !previewOperation) {
+            setPreviewRender(null);
+            return;
+        }
+        // A render that is out of date is stopped, which frees the worker for the next one
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            setIsRenderingPreview(true);
+            try {
+                const rendered = await applyOperation(audioBuffer, previewOperation, ctx, { signal: controller.signal });
+                if (!controller.signal.aborted) setPreviewRender(rendered);
+            } catch (err) {
+                if (!controller.signal.aborted) setError(`Lỗi nghe thử: ${(err as Error).message}`);
+            } finally {
+                if (!controller.signal.aborted) setIsRenderingPreview(false);
+            }
+        }, PREVIEW_RENDER_DELAY);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+            setIsRenderingPreview(false);
+        };
+    }, [audioBuffer, previewEffect, previewOperation]);
+
+    // A render that arrives during playback joins in at the current position. Only a new render
+    // does this, through the latest playback state; starting playback starts the render itself.
+    const joinPreviewRender = (rendered: AudioBuffer | null) => {
+        const ctx = audioContextRef.current;
+        if (previewSourceRef.current) {
+            try { previewSourceRef.current.stop(); } catch(e) {}
+            previewSourceRef.current = null;
+        }
+        if (!ctx || !isPlaying || activeTab !== 'editor' || !audioBuffer || !rendered || rendered.length !== audioBuffer.length) return;
+        const position = playbackPosition(ctx);
+        if (position < selection.end) startPreviewSource(ctx, rendered, position, selection.end - position);
+    };
+    const joinPreviewRenderRef = useRef(joinPreviewRender);
+    joinPreviewRenderRef.current = joinPreviewRender;
+
+    useEffect(() => {
+        joinPreviewRenderRef.current(previewRender);
+    }, [previewRender]);
+
+    // A measurement only describes the selection it was taken on
+    useEffect(() => {
+        setSelectionLoudness(null);
+    }, [audioBuffer, selection.start, selection.end]);
+
+    const handleMeasureLoudness = () => {
+        if (!audioBuffer) return;
+        runTask(async options => {
+            setSelectionLoudness(await measureLoudnessInWorker(audioBuffer, selection.start, selection.end, options));
+        }, 'Lỗi đo độ ồn');
+    };
+
+    // A profile only describes the recording it was learned from
+    useEffect(() => {
+        setNoiseSample(null);
+    }, [sourceBuffer]);
+
+    const handleLearnNoise = () => {
+        if (!audioBuffer) return;
+        runTask(async options => {
+            const startSample = Math.max(0, Math.floor(selection.start * audioBuffer.sampleRate));
+            const endSample = Math.min(audioBuffer.length, Math.floor(selection.end * audioBuffer.sampleRate));
+            const channels: Float32Array[] = [];
+            for (let i = 0; i < audioBuffer.numberOfChannels; i++) {
+                channels.push(audioBuffer.getChannelData(i).slice(startSample, endSample));
+            }
+            const profile = await runDspJob({ kind: 'learnNoise', channels, sampleRate: audioBuffer.sampleRate }, options);
+            setNoiseSample({ profile, range: { ...selection } });
+        }, 'Lỗi lấy mẫu nhiễu');
+    };
+
+    // Gain the gate would apply to the selection, drawn over the waveform. Computed on the DSP
+    // worker shortly after the last change; the previous curve stays until the new one is ready.
+    useEffect(() => {
+        if (!showGatePreview || !audioBuffer || selection.end <= selection.start) {
+            setGatePreview(null);
+            return;
         }
-    }, [audioBuffer, selection.start, selection.end, updateHistory]);
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            gateGainsInWorker(audioBuffer, selection.start, selection.end, gateSettings, { signal: controller.signal })
+                .then(setGatePreview)
+                .catch(err => {
+                    if (!controller.signal.aborted) setError(`Lỗi xem trước gate: ${(err as Error).message}`);
+                });
+        }, PREVIEW_RENDER_DELAY);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [showGatePreview, audioBuffer, selection.start, selection.end, gateSettings]);
+
+    const handleLoudnessNormalize = () => {
+        if (!audioBuffer) return;
+        runTask(options => updateHistory({
+            type: 'loudness',
+            start: selection.start,
+            end: selection.end,
+            target: loudnessTarget
+        }, options), 'Lỗi hiệu ứng');
+    };
 
     const handleApplyFade = (effect: 'in' | 'out') => {
         const actualDuration = Math.min(fadeDuration, selection.end - selection.start);
         if (actualDuration < 0.1) return setError("Vùng chọn quá ngắn.");
-        const fn = effect === 'in' ? applyFadeIn : applyFadeOut;
-        handleEffect((b: AudioBuffer, s: number, e: number, c: AudioContext) => fn(b, s, e, c, actualDuration));
+        runTask(options => updateHistory({
+            type: effect === 'in' ? 'fadeIn' : 'fadeOut',
+            start: selection.start,
+            end: selection.end,
+            duration: actualDuration
+        }, options), 'Lỗi hiệu ứng');
+    };
+
+    const handleTimeStretch = () => {
+        if (!audioBuffer) return;
+        const { start, end } = selection;
+        const { stretch } = timePitch;
+        // The playing source still references the old buffer
+        if (isPlaying) {
+            stopAllAudio();
+            setIsPlaying(false);
+        }
+        runTask(async options => {
+            await updateHistory({ type: 'timeStretch', start, end, stretch }, options);
+            setSelection({ start, end: start + (end - start) * stretch });
+        }, 'Lỗi co giãn thời gian');
+    };
+
+    const handleEditCommand = (command: EditCommand, at: number = currentTime) => {
+        if (!audioBuffer || !audioContextRef.current) return;
+        const { start, end } = selection;
+
+        if (command === 'copy' || command === 'cut') {
+            if (end - start <= 0) return setError("Chưa chọn vùng âm thanh.");
+            try {
+                setClipboard(trimAudioBuffer(audioBuffer, start, end, audioContextRef.current));
+            } catch (err) {
+                return setError(`Lỗi sao chép: ${(err as Error).message}`);
+            }
+            if (command === 'copy') return;
+        }
+
+        // The playing source still references the old buffer
+        if (isPlaying) {
+            stopAllAudio();
+            setIsPlaying(false);
+        }
+
+        if (command === 'cut' || command === 'delete') {
+            const newDuration = audioBuffer.duration - (end - start);
+            runTask(async options => {
+                await updateHistory({ type: 'delete', start, end }, options);
+                setSelection({ start: 0, end: newDuration });
+                setCurrentTime(start);
+                playbackStartOffsetRef.current = start;
+            }, 'Lỗi xóa');
+        } else if (command === 'paste') {
+            if (!clipboard) return setError("Bộ nhớ tạm trống.");
+            runTask(async options => {
+                await updateHistory({ type: 'paste', at, clip: clipboard }, options);
+                setSelection({ start: at, end: at + clipboard.duration });
+            }, 'Lỗi dán');
+        } else if (command === 'silence') {
+            if (!(silenceDuration > 0)) return setError("Thời lượng im lặng không hợp lệ.");
+            runTask(async options => {
+                await updateHistory({ type: 'silence', at, duration: silenceDuration }, options);
+                setSelection({ start: at, end: at + silenceDuration });
+            }, 'Lỗi chèn im lặng');
+        }
     };
 
     const handleUndo = () => {
         if (historyIndex > 0) {
-            const newIndex = historyIndex - 1;
-            setHistoryIndex(newIndex);
-            setAudioBuffer(history[newIndex]);
+            runTask(options => renderHistory(history, historyIndex - 1, options), 'Lỗi hoàn tác');
         }
     };
 
     const handleRedo = () => {
-        if (historyIndex < history.length - 1) {
-            const newIndex = historyIndex + 1;
-            setHistoryIndex(newIndex);
-            setAudioBuffer(history[newIndex]);
+        if (historyIndex < history.length) {
+            runTask(options => renderHistory(history, historyIndex + 1, options), 'Lỗi làm lại');
         }
     };
 
@@ -359,23 +916,148 @@ const App: React.FC = () => {
 
     const removeTrack = (id: string) => {
         setTracks(prev => prev.filter(t => t.id !== id));
+        setDucking(prev => ({
+            ...prev,
+            keyTrackId: prev.keyTrackId === id ? null : prev.keyTrackId,
+            duckedTrackIds: prev.duckedTrackIds.filter(t => t !== id),
+        }));
+    };
+
+    // Splits every clip that the playhead crosses
+    const handleSplitAtPlayhead = () => {
+        setTracks(prev => prev.map(track => {
+            const clip = track.clips.find(c => c.startTime < currentTime && c.startTime + c.duration > currentTime);
+            return clip ? { ...track, clips: splitClip(track, clip.id, currentTime) } : track;
+        }));
     };
 
-    const handleExportMix = async () => {
+    const handleSaveProject = async () => {
         if (tracks.length === 0) return;
         setIsProcessing(true);
+        setError(null);
         try {
-            // Give UI time to render spinner
-            await new Promise(resolve => setTimeout(resolve, 50));
-            const mixedBuffer = await renderMix(tracks);
-            downloadBuffer(mixedBuffer, 'studio_mix');
+            const blob = await saveProject(tracks, masterSettings, ducking, studioMarkers, embedProjectAudio);
+            downloadBlob(blob, `studio_project_${Date.now()}${PROJECT_EXTENSION}`);
         } catch (e) {
-            setError("Lỗi khi xuất file: " + (e as Error).message);
+            setError("Lỗi khi lưu dự án: " + (e as Error).message);
         } finally {
             setIsProcessing(false);
         }
     };
 
+    // The picker accepts the project file plus any referenced audio files it needs
+    const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+        event.target.value = '';
+        const projectFile = files.find(f => f.name.endsWith(PROJECT_EXTENSION));
+        if (!projectFile || !audioContextRef.current) {
+            if (files.length > 0) setError(`Chưa chọn tệp dự án (${PROJECT_EXTENSION}).`);
+            return;
+        }
+
+        stopAllAudio();
+        setIsPlaying(false);
+        setIsLoading(true);
+        setError(null);
+        try {
+            const audioFiles = files.filter(f => f !== projectFile);
+            const { tracks: loadedTracks, master, ducking: loadedDucking, markers: loadedMarkers, missingAssets } = await loadProject(projectFile, audioFiles, audioContextRef.current);
+            setTracks(loadedTracks);
+            setMasterSettings(master);
+            setDucking(loadedDucking);
+            setStudioMarkers(loadedMarkers);
+            setCurrentTime(0);
+            playbackStartOffsetRef.current = 0;
+            if (missingAssets.length > 0) {
+                setError(`Thiếu tệp âm thanh: ${missingAssets.join(', ')}. Hãy mở lại dự án cùng các tệp này.`);
+            }
+        } catch (e) {
+            setError("Không thể mở dự án: " + (e as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleExportMix = () => {
+        if (tracks.length === 0) return;
+        runTask(async options => {
+            // Rendering takes most of the time; normalizing renders the mix a second time. The
+            // mix is rendered at the export rate, so it needs no conversion when encoded.
+            const renderEnd = normalizeExport ? 0.4 : 0.6;
+            const sampleRate = exportSampleRate(exportSettings, MIX_SAMPLE_RATE);
+            let mixedBuffer = await renderMix(tracks, masterSettings, ducking, progressRange(options, 0, renderEnd), sampleRate);
+            if (normalizeExport) {
+                mixedBuffer = await normalizeLoudness(mixedBuffer, loudnessTarget, progressRange(options, renderEnd, 0.6));
+            }
+            setExportLoudness(await measureLoudnessInWorker(mixedBuffer, 0, mixedBuffer.duration, progressRange(options, 0.6, 0.7)));
+            downloadBlob(await exportAudio(mixedBuffer, exportSettings, mixMetadata, markersInRange(studioMarkers, 0, mixedBuffer.duration), progressRange(options, 0.7, 1)), exportFilename('studio_mix', exportSettings));
+        }, 'Lỗi khi xuất file');
+    };
+
+    // One file per region, marker or pause of the active tab's audio (the Studio's is the mix), zipped
+    const handleBatchExport = () => {
+        const ctx = audioContextRef.current;
+        if (!ctx) return;
+        const fromEditor = activeTab === 'editor';
+        if (fromEditor ? !audioBuffer : tracks.length === 0) return;
+        runTask(async options => {
+            const renderEnd = fromEditor ? 0 : 0.3;
+            const buffer = fromEditor
+                ? audioBuffer!
+                : await renderMix(tracks, masterSettings, ducking, progressRange(options, 0, renderEnd), exportSampleRate(exportSettings, MIX_SAMPLE_RATE));
+            const parts = await planBatchParts(buffer, markers, batchSettings, progressRange(options, renderEnd, renderEnd + 0.1));
+            const zip = await exportBatch(
+                buffer, parts, batchSettings, exportSettings,
+                fromEditor ? editorMetadata : mixMetadata, loudnessTarget, ctx,
+                progressRange(options, renderEnd + 0.1, 1)
+            );
+            const base = fromEditor ? (audioFile?.name.replace(/\.[^.]+$/, '') || 'audio') : 'studio_mix';
+            downloadBlob(zip, `${base}_${Date.now()}.zip`);
+        }, 'Lỗi khi xuất hàng loạt');
+    };
+
+    const handleConfirmExport = () => {
+        const target = exportTarget;
+        setExportTarget(null);
+        if (target === 'selection') handleTrimAndDownload();
+        else if (target === 'mix') handleExportMix();
+        else if (target === 'batch') handleBatchExport();
+    };
+
+
+    useEffect(() => {
+        if (!sourceBuffer || !audioFile || autosaveError) return;
+        return scheduleAutosave('editor', () => saveEditorSession(editorSessionIdRef.current, {
+            file: audioFile,
+            source: sourceBuffer,
+            history,
+            historyIndex,
+            selection,
+            markers: editorMarkers
+        }));
+    }, [sourceBuffer, audioFile, history, historyIndex, selection, editorMarkers, autosaveError, scheduleAutosave]);
+
+    // Stretched and pitch-shifted clips are processed on the DSP worker shortly after they
+    // change, so that starting playback does not have to wait for them
+    useEffect(() => {
+        if (!tracks.some(track => track.clips.some(isClipProcessed))) return;
+        const controller = new AbortController();
+        const timer = setTimeout(() => {
+            prepareClipBuffers(tracks, { signal: controller.signal }).catch(err => {
+                if (!controller.signal.aborted) setError(`Lỗi xử lý clip: ${(err as Error).message}`);
+            });
+        }, CLIP_PROCESS_DELAY);
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [tracks]);
+
+    useEffect(() => {
+        if (tracks.length === 0 || autosaveError) return;
+        return scheduleAutosave('studio', () => saveStudioSession(studioSessionIdRef.current, { tracks, master: masterSettings, ducking, markers: studioMarkers }));
+    }, [tracks, masterSettings, ducking, studioMarkers, autosaveError, scheduleAutosave]);
+
 
     return (
         <div className="min-h-screen bg-transparent flex flex-col text-gray-200 p-4 sm:p-6 lg:p-8 relative">
@@ -407,6 +1089,31 @@ const App: React.FC = () => {
                 </div>
             )}
 
+            {exportTarget && (
+                <ExportDialog
+                    title={exportTarget === 'selection' ? 'Lưu vùng chọn' : exportTarget === 'mix' ? 'Xuất bản Mix' : 'Xuất hàng loạt (ZIP)'}
+                    settings={exportSettings}
+                    sourceRate={activeTab === 'editor' ? audioBuffer?.sampleRate ?? MIX_SAMPLE_RATE : MIX_SAMPLE_RATE}
+                    onChange={setExportSettings}
+                    onConfirm={handleConfirmExport}
+                    onCancel={() => setExportTarget(null)}
+                >
+                    {exportTarget === 'batch' && (
+                        <BatchExportFields
+                            settings={batchSettings}
+                            onChange={setBatchSettings}
+                            regionCount={regionParts(markers).length}
+                            markerPartCount={markerParts(markers, activeTab === 'editor' ? audioBuffer?.duration ?? 0 : Math.max(0, ...tracks.map(trackEnd))).length}
+                            loudnessTarget={loudnessTarget}
+                        />
+                    )}
+                    <MetadataFields
+                        metadata={activeTab === 'editor' ? editorMetadata : mixMetadata}
+                        onChange={activeTab === 'editor' ? setEditorMetadata : setMixMetadata}
+                    />
+                </ExportDialog>
+            )}
+
             <header className="w-full max-w-7xl mx-auto mb-6">
                 <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
                     <div className="flex items-center space-x-3">
@@ -450,6 +1157,22 @@ const App: React.FC = () => {
                 </div>
             </header>
 
+            {restorableSessions.length > 0 && (
+                <div className="w-full max-w-7xl mx-auto mb-4 space-y-2">
+                    {restorableSessions.map(session => (
+                        <div key={session.id} className="flex flex-wrap items-center justify-between gap-3 bg-indigo-900/30 border border-indigo-700/50 rounded-lg px-4 py-3 text-sm">
+                            <span className="text-indigo-200">
+                                Tìm thấy phiên {session.tab === 'editor' ? 'Editor' : 'Phòng thu'} chưa lưu: <strong>{session.label}</strong> ({new Date(session.savedAt).toLocaleString()})
+                            </span>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleRestoreSession(session)} disabled={isLoading} className="bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold px-3 py-1.5 rounded">Khôi phục</button>
+                                <button onClick={() => setRestorableSessions(prev => prev.filter(s => s.id !== session.id))} className="bg-slate-700 hover:bg-slate-600 text-xs px-3 py-1.5 rounded">Bỏ qua</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             <main className={`flex-grow w-full max-w-7xl mx-auto flex flex-col lg:flex-row gap-8 ${!hasApiKey ? 'blur-sm pointer-events-none select-none opacity-50' : ''}`}>
                 {/* Controls Sidebar */}
                 <div className="lg:w-1/3 bg-gray-900/70 backdrop-blur-sm border border-gray-700/50 rounded-xl shadow-lg p-6 flex flex-col space-y-6 h-fit">
@@ -475,6 +1198,22 @@ const App: React.FC = () => {
                        <div className="text-center font-mono text-2xl text-amber-300 tabular-nums">
                            {currentTime.toFixed(2)}s
                        </div>
+                       <div className="flex items-center justify-center gap-3 text-xs text-slate-400">
+                           <label className="flex items-center gap-2">
+                               Tốc độ
+                               <select
+                                   value={playbackRate}
+                                   onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
+                                   className="bg-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+                               >
+                                   {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                               </select>
+                           </label>
+                           <label className="flex items-center gap-1" title="Giữ nguyên cao độ khi phát nhanh hoặc chậm">
+                               <input type="checkbox" checked={preservePitch} onChange={(e) => setPreservePitch(e.target.checked)} className="accent-amber-500" />
+                               Giữ cao độ
+                           </label>
+                       </div>
                     </div>
                     
                     {/* Editor Specific Controls */}
@@ -484,9 +1223,19 @@ const App: React.FC = () => {
                                  <h2 className="text-lg font-semibold text-white">Lịch sử</h2>
                                  <div className="flex space-x-2">
                                      <button onClick={handleUndo} disabled={historyIndex <= 0 || isProcessing} className="p-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50"><UndoIcon className="w-4 h-4"/></button>
-                                     <button onClick={handleRedo} disabled={historyIndex >= history.length - 1 || isProcessing} className="p-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50"><RedoIcon className="w-4 h-4"/></button>
+                                     <button onClick={handleRedo} disabled={historyIndex >= history.length || isProcessing} className="p-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50"><RedoIcon className="w-4 h-4"/></button>
                                  </div>
                             </div>
+
+                            {history.length > 0 && (
+                                <ol className="max-h-32 overflow-y-auto space-y-1 text-xs font-mono">
+                                    {history.map((operation, index) => (
+                                        <li key={index} className={`px-2 py-1 rounded truncate ${index < historyIndex ? 'bg-slate-800 text-slate-300' : 'text-slate-600 line-through'}`}>
+                                            {index + 1}. {describeOperation(operation)}
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
                             
                             <div className="space-y-2">
                                 <label className="text-sm text-slate-400">Master Volume</label>
@@ -502,15 +1251,128 @@ const App: React.FC = () => {
                                 </div>
                             </div>
 
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300">Chỉnh sửa</label>
+                                <div className="grid grid-cols-4 gap-2">
+                                    <button onClick={() => handleEditCommand('cut')} disabled={isProcessing} title="Ctrl+X" className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Cắt</button>
+                                    <button onClick={() => handleEditCommand('copy')} disabled={isProcessing} title="Ctrl+C" className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Sao chép</button>
+                                    <button onClick={() => handleEditCommand('paste')} disabled={isProcessing || !clipboard} title="Ctrl+V" className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">Dán</button>
+                                    <button onClick={() => handleEditCommand('delete')} disabled={isProcessing} title="Delete" className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Xóa</button>
+                                </div>
+                                <div className="flex gap-2">
+                                    <input type="number" min="0.1" step="0.1" value={silenceDuration} onChange={(e) => setSilenceDuration(parseFloat(e.target.value))} className="w-20 bg-slate-700 rounded px-2 text-sm" />
+                                    <button onClick={() => handleEditCommand('silence')} disabled={isProcessing} className="flex-1 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Chèn im lặng tại đầu phát</button>
+                                </div>
+                            </div>
+
+                            {previewEffect && (
+                                <div className="sticky top-0 z-10 pt-2">
+                                    <EffectPreviewBar
+                                        effect={previewEffect}
+                                        rendering={isRenderingPreview}
+                                        bypass={previewBypass}
+                                        onBypassChange={setPreviewBypass}
+                                        disabled={isProcessing}
+                                        onApply={() => handleEffect(previewEffect)}
+                                        onCancel={() => setPreviewEffect(null)}
+                                    />
+                                </div>
+                            )}
+
                             <div className="grid grid-cols-2 gap-2 pt-2">
-                                <button onClick={() => handleEffect(applyNormalize)} disabled={isProcessing} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Normalize</button>
-                                <button onClick={() => handleEffect(applyNoiseReduction)} disabled={isProcessing} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded flex justify-center items-center gap-1"><SoundWaveIcon className="w-3 h-3"/> Khử nhiễu</button>
-                                <button onClick={() => handleEffect(applyStudioEffect)} disabled={isProcessing} className="col-span-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white text-xs py-2 rounded flex justify-center items-center gap-1"><SparklesIcon className="w-3 h-3"/> Giọng Studio AI</button>
+                                <button onClick={() => handleEffect('normalize')} disabled={isProcessing} className="col-span-2 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Normalize</button>
+                                <button onClick={() => setShowStudioVoice(v => !v)} className={`col-span-2 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white text-xs py-2 rounded flex justify-center items-center gap-1 ${showStudioVoice ? 'ring-2 ring-indigo-300' : ''}`}><SparklesIcon className="w-3 h-3"/> Giọng Studio AI</button>
+                            </div>
+
+                            {showStudioVoice && (
+                                <StudioVoicePanel
+                                    settings={studioVoice}
+                                    onChange={setStudioVoice}
+                                    sampleRate={audioBuffer.sampleRate}
+                                    presets={[...STUDIO_VOICE_PRESETS, ...userPresets]}
+                                    onSavePreset={(name) => setUserPresets(saveUserPreset(name, studioVoice))}
+                                    onDeletePreset={(id) => setUserPresets(deleteUserPreset(id))}
+                                    previewing={previewEffect === 'studio'}
+                                    onPreviewToggle={() => togglePreview('studio')}
+                                    disabled={isProcessing}
+                                    onApply={() => handleEffect('studio')}
+                                />
+                            )}
+
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300 flex items-center gap-1"><SoundWaveIcon className="w-4 h-4"/> Khử nhiễu</label>
+                                <NoiseReductionPanel
+                                    settings={noiseSettings}
+                                    onChange={setNoiseSettings}
+                                    sampleRange={noiseSample?.range ?? null}
+                                    disabled={isProcessing}
+                                    onLearn={handleLearnNoise}
+                                    onClearProfile={() => setNoiseSample(null)}
+                                    onApply={() => handleEffect('noiseReduction')}
+                                    previewing={previewEffect === 'noiseReduction'}
+                                    onPreviewToggle={() => togglePreview('noiseReduction')}
+                                />
+                            </div>
+
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300">EQ tham số</label>
+                                <EqPanel
+                                    bands={eqBands}
+                                    onChange={setEqBands}
+                                    sampleRate={audioBuffer.sampleRate}
+                                    previewing={previewEffect === 'eq'}
+                                    onPreviewToggle={() => togglePreview('eq')}
+                                    disabled={isProcessing}
+                                    onApply={() => handleEffect('eq')}
+                                    onReset={() => setEqBands(DEFAULT_EQ_BANDS)}
+                                />
+                            </div>
+
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300">Gate / Expander</label>
+                                <GatePanel
+                                    settings={gateSettings}
+                                    onChange={(updates) => setGateSettings(s => ({ ...s, ...updates }))}
+                                    preview={showGatePreview}
+                                    onPreviewChange={setShowGatePreview}
+                                    previewing={previewEffect === 'gate'}
+                                    onPreviewToggle={() => togglePreview('gate')}
+                                    disabled={isProcessing}
+                                    onApply={() => handleEffect('gate')}
+                                />
+                            </div>
+
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300">Tempo / Cao độ</label>
+                                <TimePitchPanel
+                                    settings={timePitch}
+                                    onChange={(updates) => setTimePitch(s => ({ ...s, ...updates }))}
+                                    previewing={previewEffect === 'pitchShift'}
+                                    onPreviewToggle={() => togglePreview('pitchShift')}
+                                    disabled={isProcessing}
+                                    onApplyStretch={handleTimeStretch}
+                                    onApplyPitch={() => handleEffect('pitchShift')}
+                                />
+                            </div>
+
+                            <div className="space-y-2 pt-2">
+                                <label className="text-sm font-medium text-slate-300">Độ ồn (LUFS)</label>
+                                <LoudnessTargetFields target={loudnessTarget} onChange={setLoudnessTarget} />
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={handleMeasureLoudness} disabled={isProcessing} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Đo vùng chọn</button>
+                                    <button onClick={handleLoudnessNormalize} disabled={isProcessing} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Chuẩn hoá LUFS</button>
+                                </div>
+                                {selectionLoudness && <LoudnessReadout stats={selectionLoudness} target={loudnessTarget} />}
                             </div>
 
-                            <button onClick={handleTrimAndDownload} className="w-full flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-700 text-white font-semibold py-3 px-4 rounded-md transition-colors mt-4" disabled={isProcessing}>
+                            <MarkerList markers={editorMarkers} onChange={setEditorMarkers} onSeek={handleSeek} onAdd={handleAddMarker} onExportLabels={handleExportLabels} />
+
+                            <button onClick={() => setExportTarget('selection')} className="w-full flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-700 text-white font-semibold py-3 px-4 rounded-md transition-colors mt-4" disabled={isProcessing}>
                                 <DownloadIcon className="w-5 h-5"/>
-                                Lưu vùng chọn (.wav)
+                                Lưu vùng chọn...
+                            </button>
+                            <button onClick={() => setExportTarget('batch')} disabled={isProcessing} className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">
+                                <LayersIcon className="w-4 h-4"/> Xuất hàng loạt (ZIP)...
                             </button>
                         </div>
                     )}
@@ -522,39 +1384,147 @@ const App: React.FC = () => {
                                 <p className="mb-2 font-semibold text-amber-400">Hướng dẫn:</p>
                                 <ul className="list-disc pl-4 space-y-1 text-xs">
                                     <li>Thêm nhiều file âm thanh để mix.</li>
-                                    <li>Kéo thả thanh màu trên timeline để di chuyển.</li>
+                                    <li>Kéo thả clip trên timeline để di chuyển, kéo mép clip để cắt gọn.</li>
                                     <li><strong>Click vào timeline để chọn điểm phát.</strong></li>
-                                    <li>Phải chuột vào track để <strong>Xóa</strong>.</li>
+                                    <li>Phải chuột vào clip để <strong>Tách</strong>, <strong>Nhân bản</strong> hoặc <strong>Xóa</strong>.</li>
                                     <li>Lăn chuột trên timeline để <strong>Zoom</strong>.</li>
+                                    <li>Nút <strong>AUTO</strong> trên track mở lớp automation: nhấp đúp để thêm/xóa điểm, kéo để di chuyển.</li>
                                 </ul>
                              </div>
                              
-                             <button onClick={handleExportMix} disabled={isProcessing || tracks.length === 0} className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-lg shadow-indigo-900/20">
+                             <button onClick={handleSplitAtPlayhead} disabled={isProcessing || tracks.length === 0} className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">
+                                <ScissorsIcon className="w-3 h-3"/> Tách clip tại đầu phát
+                             </button>
+
+                             <div className="space-y-2">
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={handleSaveProject} disabled={isProcessing || tracks.length === 0} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">Lưu dự án</button>
+                                    <label htmlFor="project-open" className={`bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded text-center cursor-pointer ${isProcessing || isLoading ? 'opacity-50 pointer-events-none' : ''}`}>Mở dự án</label>
+                                    <input id="project-open" type="file" accept={`${PROJECT_EXTENSION},audio/*`} multiple className="hidden" onChange={handleOpenProject} />
+                                </div>
+                                <label className="flex items-center gap-2 text-xs text-slate-400">
+                                    <input type="checkbox" checked={embedProjectAudio} onChange={(e) => setEmbedProjectAudio(e.target.checked)} className="accent-amber-500" />
+                                    Nhúng âm thanh vào tệp dự án
+                                </label>
+                             </div>
+
+                             <MarkerList markers={studioMarkers} onChange={setStudioMarkers} onSeek={handleSeek} onAdd={handleAddMarker} onExportLabels={handleExportLabels} />
+
+                             <DuckingPanel tracks={tracks} settings={ducking} onChange={(updates) => setDucking(prev => ({ ...prev, ...updates }))} />
+
+                             <div className="bg-slate-800/50 p-3 rounded space-y-2">
+                                <p className="text-sm font-semibold text-amber-400">Master</p>
+                                <div>
+                                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                                        <span>Gain</span>
+                                        <span className="text-slate-300">{(20 * Math.log10(masterSettings.gain)).toFixed(1)} dB</span>
+                                    </div>
+                                    <input
+                                        type="range" min="-24" max="12" step="0.5"
+                                        value={20 * Math.log10(masterSettings.gain)}
+                                        onChange={(e) => setMasterSettings(prev => ({ ...prev, gain: Math.pow(10, parseFloat(e.target.value) / 20) }))}
+                                        onDoubleClick={() => setMasterSettings(prev => ({ ...prev, gain: 1 }))}
+                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                                    />
+                                </div>
+                                <label className="flex items-center gap-2 text-xs text-slate-400">
+                                    <input type="checkbox" checked={masterSettings.limiterEnabled} onChange={(e) => setMasterSettings(prev => ({ ...prev, limiterEnabled: e.target.checked }))} className="accent-amber-500" />
+                                    Limiter true-peak
+                                </label>
+                                <div className={masterSettings.limiterEnabled ? '' : 'opacity-50'}>
+                                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                                        <span>Ngưỡng trần</span>
+                                        <span className="text-slate-300">{masterSettings.ceiling.toFixed(1)} dBTP</span>
+                                    </div>
+                                    <input
+                                        type="range" min="-12" max="0" step="0.1"
+                                        value={masterSettings.ceiling}
+                                        disabled={!masterSettings.limiterEnabled}
+                                        onChange={(e) => setMasterSettings(prev => ({ ...prev, ceiling: parseFloat(e.target.value) }))}
+                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                                    />
+                                    <div className="flex items-center justify-between text-[10px] text-slate-500 mt-1">
+                                        <span>Release</span>
+                                        <span className="text-slate-300">{Math.round(masterSettings.release * 1000)} ms</span>
+                                    </div>
+                                    <input
+                                        type="range" min="0.01" max="1" step="0.01"
+                                        value={masterSettings.release}
+                                        disabled={!masterSettings.limiterEnabled}
+                                        onChange={(e) => setMasterSettings(prev => ({ ...prev, release: parseFloat(e.target.value) }))}
+                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                                    />
+                                </div>
+                                {masterBus && (
+                                    <MasterMeter meters={masterBus.meters} active={isPlaying} ceiling={masterSettings.ceiling} />
+                                )}
+                             </div>
+
+                             <div className="space-y-2">
+                                <label className="flex items-center gap-2 text-xs text-slate-400">
+                                    <input type="checkbox" checked={normalizeExport} onChange={(e) => setNormalizeExport(e.target.checked)} className="accent-amber-500" />
+                                    Chuẩn hoá độ ồn khi xuất
+                                </label>
+                                {normalizeExport && <LoudnessTargetFields target={loudnessTarget} onChange={setLoudnessTarget} />}
+                                {exportLoudness && (
+                                    <div className="bg-slate-800/50 p-2 rounded">
+                                        <p className="text-[10px] uppercase text-slate-500 mb-1">Mix đã xuất</p>
+                                        <LoudnessReadout stats={exportLoudness} target={normalizeExport ? loudnessTarget : undefined} />
+                                    </div>
+                                )}
+                             </div>
+
+                             <button onClick={() => setExportTarget('mix')} disabled={isProcessing || tracks.length === 0} className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-4 rounded-md transition-colors shadow-lg shadow-indigo-900/20">
                                 {isProcessing ? <Spinner /> : <DownloadIcon className="w-5 h-5"/>}
-                                Xuất bản Mix (Merge)
+                                Xuất bản Mix...
+                            </button>
+                            <button onClick={() => setExportTarget('batch')} disabled={isProcessing || tracks.length === 0} className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">
+                                <LayersIcon className="w-4 h-4"/> Xuất hàng loạt (ZIP)...
                             </button>
                         </div>
                     )}
+
+                    {/* Autosave status (Shared) */}
+                    <div className="border-t border-slate-700 pt-4 space-y-2 text-xs text-slate-500">
+                        {autosaveError ? (
+                            <p className="text-red-400">{autosaveError}</p>
+                        ) : (
+                            <p>Tự động lưu: {lastAutosave ? new Date(lastAutosave).toLocaleTimeString() : 'chưa có'}</p>
+                        )}
+                        <div className="flex items-center justify-between">
+                            <span>
+                                {storageUsage ? `Đã dùng ${(storageUsage.usage / 1048576).toFixed(0)} / ${(storageUsage.quota / 1048576).toFixed(0)} MB` : ''}
+                            </span>
+                            <button onClick={handleClearOldSessions} className="text-slate-400 hover:text-red-400 underline">Xóa phiên cũ</button>
+                        </div>
+                    </div>
                 </div>
 
                 {/* Main Visualization Area */}
                 <div className="lg:w-2/3 bg-gray-900/70 backdrop-blur-sm border border-gray-700/50 rounded-xl shadow-lg p-4 flex flex-col min-h-[500px] relative overflow-hidden">
                      {isProcessing && (
-                        <div className="absolute inset-0 bg-gray-900/80 flex flex-col items-center justify-center z-50 rounded-xl">
-                            <Spinner />
-                            <p className="mt-4 text-white animate-pulse">Đang xử lý...</p>
-                        </div>
+                        <ProcessingProgress progress={progress} onCancel={taskControllerRef.current ? handleCancelTask : undefined} />
                     )}
                     
                     {activeTab === 'editor' ? (
                         audioBuffer ? (
                             <>
-                                <div className="flex-grow w-full h-full relative">
+                                <div
+                                    ref={waveformAreaRef}
+                                    tabIndex={-1}
+                                    onMouseDownCapture={(e) => e.currentTarget.focus({ preventScroll: true })}
+                                    className="flex-grow w-full h-full relative outline-none"
+                                >
                                     <Waveform 
                                         audioBuffer={audioBuffer} 
                                         selection={selection}
                                         onSelectionChange={setSelection}
                                         currentTime={currentTime}
+                                        canPaste={!!clipboard}
+                                        onEditCommand={handleEditCommand}
+                                        gainPreview={gatePreview}
+                                        markers={editorMarkers}
+                                        onMarkersChange={setEditorMarkers}
                                     />
                                 </div>
                                 <div className="h-8 w-full pt-2 flex justify-between text-xs text-slate-400 font-mono">
@@ -577,7 +1547,10 @@ const App: React.FC = () => {
                                 onUpdateTrack={updateTrack}
                                 onRemoveTrack={removeTrack}
                                 onSeek={handleSeek}
-                                duration={tracks.length > 0 ? Math.max(...tracks.map(t => t.startTime + t.buffer.duration)) : 60}
+                                duration={tracks.length > 0 ? Math.max(...tracks.map(trackEnd)) : 60}
+                                ducking={duckingCurve}
+                                markers={studioMarkers}
+                                onMarkersChange={setStudioMarkers}
                              />
                         </div>
                     )}
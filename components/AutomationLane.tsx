@@ -0,0 +1,168 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AutomationCurve, AutomationParam, AutomationPoint } from '../types';
+import { AUTOMATION_CURVES, AUTOMATION_RANGES, clampAutomationValue, interpolate, newPointId, sortPoints } from '../utils/automation';
+
+interface AutomationLaneProps {
+    param: AutomationParam;
+    points: AutomationPoint[]; // Sorted by time
+    staticValue: number; // Track value used while the lane has no points
+    pixelsPerSecond: number;
+    width: number;
+    height: number;
+    color: string;
+    onChange: (points: AutomationPoint[]) => void;
+}
+
+const PADDING = 6; // Keeps points at the range limits fully visible
+const POINT_RADIUS = 4;
+const SMOOTH_SEGMENT_STEPS = 16;
+
+// Breakpoint editor drawn over a track lane: double-click adds a point, dragging moves it,
+// double-click on a point removes it and right-click picks the curve of the segment after it.
+export const AutomationLane: React.FC<AutomationLaneProps> = ({ param, points, staticValue, pixelsPerSecond, width, height, color, onChange }) => {
+    const [drag, setDrag] = useState<{ id: string, startX: number, startY: number, initial: AutomationPoint } | null>(null);
+    const [menu, setMenu] = useState<{ x: number, y: number, id: string } | null>(null);
+
+    const { min, max } = AUTOMATION_RANGES[param];
+    const usable = height - PADDING * 2;
+    const toY = (value: number) => PADDING + (1 - (value - min) / (max - min)) * usable;
+    const toValue = (y: number) => clampAutomationValue(param, min + (1 - (y - PADDING) / usable) * (max - min));
+
+    const handleMouseMove = useCallback((e: MouseEvent) => {
+        if (!drag) return;
+        const time = Math.max(0, drag.initial.time + (e.clientX - drag.startX) / pixelsPerSecond);
+        const value = clampAutomationValue(param, drag.initial.value - (e.clientY - drag.startY) / usable * (max - min));
+        onChange(sortPoints(points.map(p => p.id === drag.id ? { ...p, time, value } : p)));
+    }, [drag, pixelsPerSecond, param, usable, max, min, points, onChange]);
+
+    useEffect(() => {
+        if (!drag) return;
+        const handleMouseUp = () => setDrag(null);
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [drag, handleMouseMove]);
+
+    useEffect(() => {
+        if (!menu) return;
+        const close = () => setMenu(null);
+        window.addEventListener('click', close);
+        return () => window.removeEventListener('click', close);
+    }, [menu]);
+
+    const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const point: AutomationPoint = {
+            id: newPointId(),
+            time: Math.max(0, (e.clientX - rect.left) / pixelsPerSecond),
+            value: toValue(e.clientY - rect.top),
+            curve: 'linear',
+        };
+        onChange(sortPoints([...points, point]));
+    };
+
+    const setCurve = (id: string, curve: AutomationCurve) => {
+        onChange(points.map(p => p.id === id ? { ...p, curve } : p));
+        setMenu(null);
+    };
+
+    const removePoint = (id: string) => {
+        onChange(points.filter(p => p.id !== id));
+        setMenu(null);
+    };
+
+    let path: string;
+    if (points.length === 0) {
+        path = `M0,${toY(staticValue)} H${width}`;
+    } else {
+        const commands = [`M0,${toY(points[0].value)}`];
+        points.forEach((point, i) => {
+            commands.push(`L${point.time * pixelsPerSecond},${toY(point.value)}`);
+            const next = points[i + 1];
+            if (!next) return;
+            if (point.curve === 'step') {
+                commands.push(`H${next.time * pixelsPerSecond}`);
+            } else if (point.curve === 'smooth') {
+                for (let s = 1; s < SMOOTH_SEGMENT_STEPS; s++) {
+                    const p = s / SMOOTH_SEGMENT_STEPS;
+                    const x = (point.time + (next.time - point.time) * p) * pixelsPerSecond;
+                    commands.push(`L${x},${toY(interpolate(point, next, p))}`);
+                }
+            }
+        });
+        commands.push(`H${width}`);
+        path = commands.join(' ');
+    }
+
+    const menuPoint = menu ? points.find(p => p.id === menu.id) : undefined;
+
+    return (
+        <>
+            <svg
+                className="absolute inset-0 z-[5] cursor-crosshair"
+                width={width}
+                height={height}
+                onDoubleClick={handleDoubleClick}
+            >
+                <rect width={width} height={height} fill="#0f172a" fillOpacity={0.35} />
+                <path d={path} fill="none" stroke={color} strokeWidth={2} strokeDasharray={points.length === 0 ? '4 4' : undefined} />
+                {points.map(point => (
+                    <circle
+                        key={point.id}
+                        cx={point.time * pixelsPerSecond}
+                        cy={toY(point.value)}
+                        r={POINT_RADIUS}
+                        fill={drag?.id === point.id ? '#ffffff' : color}
+                        stroke="#0f172a"
+                        strokeWidth={1.5}
+                        className="cursor-move"
+                        onMouseDown={(e) => {
+                            if (e.button !== 0) return;
+                            e.stopPropagation();
+                            setDrag({ id: point.id, startX: e.clientX, startY: e.clientY, initial: point });
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        onDoubleClick={(e) => { e.stopPropagation(); removePoint(point.id); }}
+                        onContextMenu={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setMenu({ x: e.clientX, y: e.clientY, id: point.id });
+                        }}
+                    >
+                        <title>{param === 'volume' ? `${Math.round(point.value * 100)}%` : point.value.toFixed(2)} @ {point.time.toFixed(2)}s</title>
+                    </circle>
+                ))}
+            </svg>
+
+            {menu && menuPoint && (
+                <div
+                    className="fixed z-50 bg-slate-800 border border-slate-600 shadow-xl rounded-md py-1 min-w-[140px]"
+                    style={{ top: menu.y, left: menu.x }}
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <div className="px-4 py-1 text-[10px] uppercase text-slate-500">Đường cong</div>
+                    {AUTOMATION_CURVES.map(curve => (
+                        <button
+                            key={curve.value}
+                            className={`w-full text-left px-4 py-1.5 text-sm hover:bg-slate-700 ${menuPoint.curve === curve.value ? 'text-amber-400' : 'text-slate-200'}`}
+                            onClick={() => setCurve(menuPoint.id, curve.value)}
+                        >
+                            {curve.label}
+                        </button>
+                    ))}
+                    <button
+                        className="w-full text-left px-4 py-2 text-sm text-red-400 hover:bg-slate-700 border-t border-slate-700"
+                        onClick={() => removePoint(menuPoint.id)}
+                    >
+                        Xóa điểm
+                    </button>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,64 @@
+
+import React from 'react';
+import type { BatchExportSettings, BatchSplit, LoudnessTarget, SilenceSettings } from '../types';
+
+interface BatchExportFieldsProps {
+    settings: BatchExportSettings;
+    onChange: (settings: BatchExportSettings) => void;
+    regionCount: number;
+    markerPartCount: number; // Files of a split at every marker
+    loudnessTarget: LoudnessTarget;
+}
+
+const inputClass = 'w-full bg-slate-700 rounded px-2 py-1 text-xs text-slate-200';
+
+const NumberField: React.FC<{ label: string, value: number, onChange: (value: number) => void, min: number, max: number, step: number }> = ({ label, value, onChange, min, max, step }) => (
+    <label className="block space-y-1">
+        <span className="text-[11px] uppercase text-slate-500">{label}</span>
+        <input
+            type="number" min={min} max={max} step={step} value={value}
+            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange(v); }}
+            className={inputClass}
+        />
+    </label>
+);
+
+// How "Xuất hàng loạt" splits the audio and processes each file, shown in the export dialog
+export const BatchExportFields: React.FC<BatchExportFieldsProps> = ({ settings, onChange, regionCount, markerPartCount, loudnessTarget }) => {
+    const update = (patch: Partial<BatchExportSettings>) => onChange({ ...settings, ...patch });
+    const updateSilence = (patch: Partial<SilenceSettings>) => update({ silence: { ...settings.silence, ...patch } });
+
+    return (
+        <div className="border-t border-gray-800 pt-3 space-y-3">
+            <label className="block space-y-1">
+                <span className="text-[11px] uppercase text-slate-500">Tách thành các tệp theo</span>
+                <select value={settings.split} onChange={(e) => update({ split: e.target.value as BatchSplit })} className={inputClass}>
+                    <option value="regions">Vùng đánh dấu ({regionCount} tệp)</option>
+                    <option value="markers">Mỗi điểm đánh dấu ({markerPartCount} tệp)</option>
+                    <option value="silence">Khoảng lặng (tự phát hiện)</option>
+                </select>
+            </label>
+            {settings.split === 'regions' && regionCount === 0 && (
+                <p className="text-[11px] text-amber-400/80">Chưa có vùng đánh dấu nào.</p>
+            )}
+
+            {settings.split === 'silence' && (
+                <div className="grid grid-cols-3 gap-2">
+                    <NumberField label="Ngưỡng (dB)" value={settings.silence.threshold} onChange={threshold => updateSilence({ threshold })} min={-80} max={-10} step={1} />
+                    <NumberField label="Lặng tối thiểu (s)" value={settings.silence.minDuration} onChange={minDuration => updateSilence({ minDuration })} min={0.1} max={10} step={0.1} />
+                    <NumberField label="Giữ lại (s)" value={settings.silence.padding} onChange={padding => updateSilence({ padding })} min={0} max={2} step={0.05} />
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Fade in (s)" value={settings.fadeIn} onChange={fadeIn => update({ fadeIn })} min={0} max={10} step={0.1} />
+                <NumberField label="Fade out (s)" value={settings.fadeOut} onChange={fadeOut => update({ fadeOut })} min={0} max={10} step={0.1} />
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input type="checkbox" checked={settings.normalize} onChange={(e) => update({ normalize: e.target.checked })} className="accent-amber-500" />
+                Chuẩn hoá từng tệp về {loudnessTarget.lufs} LUFS / {loudnessTarget.ceiling} dBTP
+            </label>
+            <p className="text-[11px] text-slate-500">Các tệp được đánh số theo thứ tự và đặt tên theo đoạn, gói trong một tệp ZIP. Tiêu đề (tag) của mỗi tệp là tên đoạn.</p>
+        </div>
+    );
+};
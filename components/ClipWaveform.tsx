@@ -0,0 +1,64 @@
+
+import React, { useRef, useEffect } from 'react';
+import { getPeaks } from '../utils/peaks';
+
+interface ClipWaveformProps {
+    buffer: AudioBuffer;
+    offset: number; // Start of the drawn region inside the buffer, in seconds
+    duration: number; // Length of the drawn region, in seconds
+    width: number; // On-screen width in CSS pixels (duration * pixelsPerSecond)
+    height: number;
+    color: string;
+}
+
+// Canvases wider than this are stretched instead of drawn at full size, which keeps
+// memory and redraw cost bounded when zooming far into long clips.
+const MAX_CANVAS_WIDTH = 8192;
+
+// Memoized so that dragging clips (which only changes their position) never redraws the peaks
+export const ClipWaveform: React.FC<ClipWaveformProps> = React.memo(({ buffer, offset, duration, width, height, color }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dpr = window.devicePixelRatio || 1;
+    const canvasWidth = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.round(width * dpr)));
+    const canvasHeight = Math.max(1, Math.round(height * dpr));
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+        const startSample = Math.floor(offset * buffer.sampleRate);
+        const endSample = Math.min(buffer.length, Math.ceil((offset + duration) * buffer.sampleRate));
+
+        // Combine channels into one envelope: lowest min and highest max per column
+        const min = new Float32Array(canvasWidth).fill(1);
+        const max = new Float32Array(canvasWidth).fill(-1);
+        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+            const peaks = getPeaks(buffer, ch, startSample, endSample, canvasWidth);
+            for (let x = 0; x < canvasWidth; x++) {
+                if (peaks.min[x] < min[x]) min[x] = peaks.min[x];
+                if (peaks.max[x] > max[x]) max[x] = peaks.max[x];
+            }
+        }
+
+        const mid = canvasHeight / 2;
+        ctx.fillStyle = color;
+        for (let x = 0; x < canvasWidth; x++) {
+            const top = mid - max[x] * mid;
+            const bottom = mid - min[x] * mid;
+            ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+        }
+    }, [buffer, offset, duration, canvasWidth, canvasHeight, color]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={canvasWidth}
+            height={canvasHeight}
+            style={{ width, height }}
+            className="block"
+        />
+    );
+});
@@ -0,0 +1,80 @@
+
+import React from 'react';
+import type { DuckingSettings, Track } from '../types';
+
+interface DuckingPanelProps {
+    tracks: Track[];
+    settings: DuckingSettings;
+    onChange: (updates: Partial<DuckingSettings>) => void;
+}
+
+const SLIDERS: { key: 'amount' | 'threshold' | 'attack' | 'release', label: string, min: number, max: number, step: number, format: (v: number) => string }[] = [
+    { key: 'amount', label: 'Mức giảm', min: 0, max: 30, step: 0.5, format: v => `-${v} dB` },
+    { key: 'threshold', label: 'Ngưỡng', min: -60, max: 0, step: 1, format: v => `${v} dB` },
+    { key: 'attack', label: 'Attack', min: 0.01, max: 0.5, step: 0.01, format: v => `${Math.round(v * 1000)} ms` },
+    { key: 'release', label: 'Release', min: 0.05, max: 3, step: 0.05, format: v => `${Math.round(v * 1000)} ms` },
+];
+
+// Sidebar controls for sidechain ducking: key track, ducked tracks and detector settings
+export const DuckingPanel: React.FC<DuckingPanelProps> = ({ tracks, settings, onChange }) => {
+    const toggleDucked = (id: string, ducked: boolean) => {
+        onChange({
+            duckedTrackIds: ducked
+                ? [...settings.duckedTrackIds, id]
+                : settings.duckedTrackIds.filter(t => t !== id),
+        });
+    };
+
+    return (
+        <div className="bg-slate-800/50 p-3 rounded space-y-2">
+            <label className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-amber-400">Ducking (Sidechain)</span>
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} className="accent-amber-500" />
+            </label>
+
+            <div className={`space-y-2 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+                <div>
+                    <span className="text-[10px] text-slate-500">Track điều khiển (giọng nói)</span>
+                    <select
+                        value={settings.keyTrackId ?? ''}
+                        onChange={(e) => onChange({ keyTrackId: e.target.value || null })}
+                        className="w-full bg-slate-900 border border-slate-600 rounded text-xs text-slate-200 px-1 py-1"
+                    >
+                        <option value="">— Chọn track —</option>
+                        {tracks.map(track => <option key={track.id} value={track.id}>{track.file.name}</option>)}
+                    </select>
+                </div>
+
+                <div>
+                    <span className="text-[10px] text-slate-500">Track bị giảm (nhạc nền)</span>
+                    {tracks.filter(t => t.id !== settings.keyTrackId).map(track => (
+                        <label key={track.id} className="flex items-center gap-2 text-xs text-slate-300">
+                            <input
+                                type="checkbox"
+                                checked={settings.duckedTrackIds.includes(track.id)}
+                                onChange={(e) => toggleDucked(track.id, e.target.checked)}
+                                className="accent-amber-500"
+                            />
+                            <span className="truncate" title={track.file.name}>{track.file.name}</span>
+                        </label>
+                    ))}
+                </div>
+
+                {SLIDERS.map(slider => (
+                    <div key={slider.key}>
+                        <div className="flex items-center justify-between text-[10px] text-slate-500">
+                            <span>{slider.label}</span>
+                            <span className="text-slate-300">{slider.format(settings[slider.key])}</span>
+                        </div>
+                        <input
+                            type="range" min={slider.min} max={slider.max} step={slider.step}
+                            value={settings[slider.key]}
+                            onChange={(e) => onChange({ [slider.key]: parseFloat(e.target.value) })}
+                            className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
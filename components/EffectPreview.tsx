@@ -0,0 +1,41 @@
+
+import React from 'react';
+import { PREVIEW_LABELS, type PreviewEffect } from '../utils/effectPreview';
+
+// "Nghe thử" toggle shown in each previewable effect's panel
+export const PreviewButton: React.FC<{ active: boolean, onToggle: () => void }> = ({ active, onToggle }) => (
+    <button
+        onClick={onToggle}
+        title="Nghe thử hiệu ứng khi phát, chưa ghi vào lịch sử"
+        className={`flex-1 text-xs py-2 rounded ${active ? 'bg-emerald-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+    >{active ? 'Đang nghe thử' : 'Nghe thử'}</button>
+);
+
+interface EffectPreviewBarProps {
+    effect: PreviewEffect;
+    rendering: boolean;
+    bypass: boolean;
+    onBypassChange: (bypass: boolean) => void;
+    disabled: boolean;
+    onApply: () => void;
+    onCancel: () => void;
+}
+
+// Shown while an effect is previewed: A/B bypass, apply to history, or leave the preview
+export const EffectPreviewBar: React.FC<EffectPreviewBarProps> = ({ effect, rendering, bypass, onBypassChange, disabled, onApply, onCancel }) => (
+    <div className="bg-emerald-900/40 border border-emerald-700 rounded p-2 space-y-2">
+        <div className="flex items-center justify-between text-xs">
+            <span className="text-emerald-300 font-semibold">Nghe thử: {PREVIEW_LABELS[effect]}</span>
+            {rendering && <span className="text-[10px] text-slate-400 animate-pulse">Đang tính...</span>}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+            <button
+                onClick={() => onBypassChange(!bypass)}
+                title="A = có hiệu ứng, B = gốc"
+                className={`text-xs py-1.5 rounded font-mono ${bypass ? 'bg-slate-600 text-slate-200' : 'bg-emerald-600 text-white'}`}
+            >{bypass ? 'B · Gốc' : 'A · Hiệu ứng'}</button>
+            <button onClick={onApply} disabled={disabled} className="bg-amber-600 hover:bg-amber-700 text-white text-xs py-1.5 rounded">Áp dụng</button>
+            <button onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-xs py-1.5 rounded">Hủy</button>
+        </div>
+    </div>
+);
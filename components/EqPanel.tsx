@@ -0,0 +1,125 @@
+
+import React, { useMemo, useState } from 'react';
+import type { EqBand } from '../types';
+import { EQ_FREQUENCY_RANGE, EQ_GAIN_RANGE, eqResponse, eqTypeUsesGain, eqTypeUsesQ, responseFrequencies } from '../utils/eq';
+import { ParamSlider, type ParamSpec } from './ParamSlider';
+import { PreviewButton } from './EffectPreview';
+
+interface EqPanelProps {
+    bands: EqBand[];
+    onChange: (bands: EqBand[]) => void;
+    sampleRate: number;
+    previewing: boolean;
+    onPreviewToggle: () => void;
+    disabled: boolean;
+    onApply: () => void;
+    onReset: () => void;
+}
+
+const EQ_TYPES: { value: BiquadFilterType, label: string }[] = [
+    { value: 'peaking', label: 'Peak' },
+    { value: 'lowshelf', label: 'Low shelf' },
+    { value: 'highshelf', label: 'High shelf' },
+    { value: 'lowpass', label: 'Low pass' },
+    { value: 'highpass', label: 'High pass' },
+    { value: 'notch', label: 'Notch' },
+];
+
+const formatFrequency = (v: number) => v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${Math.round(v)} Hz`;
+
+const FREQUENCY_PARAM: ParamSpec<EqBand> = { key: 'frequency', label: 'Tần số', min: EQ_FREQUENCY_RANGE[0], max: EQ_FREQUENCY_RANGE[1], step: 1, format: formatFrequency, log: true };
+const GAIN_PARAM: ParamSpec<EqBand> = { key: 'gain', label: 'Gain', min: -EQ_GAIN_RANGE, max: EQ_GAIN_RANGE, step: 0.5, format: v => `${v} dB` };
+const Q_PARAM: ParamSpec<EqBand> = { key: 'q', label: 'Q', min: 0.1, max: 18, step: 0.01, format: v => v.toFixed(2), log: true };
+
+const WIDTH = 280;
+const HEIGHT = 110;
+const POINTS = 200;
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GRID_GAINS = [-12, 0, 12];
+
+const [MIN_F, MAX_F] = EQ_FREQUENCY_RANGE;
+const xOf = (frequency: number) => Math.log(frequency / MIN_F) / Math.log(MAX_F / MIN_F) * WIDTH;
+const yOf = (db: number) => HEIGHT / 2 - Math.max(-EQ_GAIN_RANGE, Math.min(EQ_GAIN_RANGE, db)) / EQ_GAIN_RANGE * (HEIGHT / 2);
+
+// Parametric EQ editor: combined frequency response on top, settings of the selected band below
+export const EqEditor: React.FC<{ bands: EqBand[], onChange: (bands: EqBand[]) => void, sampleRate: number }> = ({ bands, onChange, sampleRate }) => {
+    const [selectedId, setSelectedId] = useState<string>(bands[0]?.id);
+    const selected = bands.find(b => b.id === selectedId) ?? bands[0];
+
+    const frequencies = useMemo(() => responseFrequencies(POINTS), []);
+    const curve = useMemo(() => {
+        const response = eqResponse(bands, frequencies, sampleRate);
+        return Array.from(response, (db, i) => `${i === 0 ? 'M' : 'L'}${xOf(frequencies[i]).toFixed(1)},${yOf(db).toFixed(1)}`).join(' ');
+    }, [bands, frequencies, sampleRate]);
+
+    const updateBand = (id: string, updates: Partial<EqBand>) => {
+        onChange(bands.map(b => b.id === id ? { ...b, ...updates } : b));
+    };
+
+    return (
+        <div className="space-y-2">
+            <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="bg-slate-900 rounded">
+                {GRID_FREQUENCIES.map(f => (
+                    <line key={f} x1={xOf(f)} x2={xOf(f)} y1={0} y2={HEIGHT} stroke="#1e293b" />
+                ))}
+                {GRID_GAINS.map(g => (
+                    <line key={g} x1={0} x2={WIDTH} y1={yOf(g)} y2={yOf(g)} stroke={g === 0 ? '#334155' : '#1e293b'} />
+                ))}
+                <path d={curve} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+                {bands.map((b, i) => (
+                    <g key={b.id} onClick={() => setSelectedId(b.id)} className="cursor-pointer">
+                        <circle
+                            cx={xOf(b.frequency)}
+                            cy={yOf(eqTypeUsesGain(b.type) ? b.gain : 0)}
+                            r={b.id === selected?.id ? 6 : 5}
+                            fill={b.enabled ? (b.id === selected?.id ? '#f59e0b' : '#475569') : '#1e293b'}
+                            stroke="#f59e0b"
+                            strokeWidth={b.id === selected?.id ? 1.5 : 0.5}
+                        />
+                        <text x={xOf(b.frequency)} y={yOf(eqTypeUsesGain(b.type) ? b.gain : 0) + 3} textAnchor="middle" fontSize="7" fill="#e2e8f0" pointerEvents="none">{i + 1}</text>
+                    </g>
+                ))}
+            </svg>
+
+            <div className="flex gap-1">
+                {bands.map((b, i) => (
+                    <button
+                        key={b.id}
+                        onClick={() => setSelectedId(b.id)}
+                        className={`flex-1 text-[10px] py-1 rounded ${b.id === selected?.id ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-300'} ${b.enabled ? '' : 'opacity-50'}`}
+                    >{i + 1}</button>
+                ))}
+            </div>
+
+            {selected && (
+                <div className="bg-slate-800/50 p-2 rounded space-y-1">
+                    <div className="flex items-center gap-2">
+                        <input type="checkbox" checked={selected.enabled} onChange={(e) => updateBand(selected.id, { enabled: e.target.checked })} className="accent-amber-500" title="Bật/tắt băng" />
+                        <select
+                            value={selected.type}
+                            onChange={(e) => updateBand(selected.id, { type: e.target.value as BiquadFilterType })}
+                            className="flex-grow bg-slate-900 border border-slate-600 rounded text-[10px] text-slate-200 px-1"
+                        >
+                            {EQ_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                        </select>
+                    </div>
+                    <ParamSlider spec={FREQUENCY_PARAM} settings={selected} onChange={updates => updateBand(selected.id, updates)} />
+                    {eqTypeUsesGain(selected.type) && <ParamSlider spec={GAIN_PARAM} settings={selected} onChange={updates => updateBand(selected.id, updates)} />}
+                    {eqTypeUsesQ(selected.type) && <ParamSlider spec={Q_PARAM} settings={selected} onChange={updates => updateBand(selected.id, updates)} />}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// The Editor's EQ effect: editor plus preview and apply
+export const EqPanel: React.FC<EqPanelProps> = ({ bands, onChange, sampleRate, previewing, onPreviewToggle, disabled, onApply, onReset }) => (
+    <div className="space-y-2">
+        <EqEditor bands={bands} onChange={onChange} sampleRate={sampleRate} />
+        <div className="flex items-center gap-2">
+            <PreviewButton active={previewing} onToggle={onPreviewToggle} />
+            <button onClick={onReset} disabled={disabled} className="text-[11px] text-slate-400 hover:text-white">Đặt lại</button>
+            <button onClick={onApply} disabled={disabled} className="flex-1 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Áp dụng EQ</button>
+        </div>
+    </div>
+);
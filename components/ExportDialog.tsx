@@ -0,0 +1,133 @@
+
+import React from 'react';
+import type { ExportFormat, ExportSettings } from '../types';
+import {
+    EXPORT_FORMATS, EXPORT_SAMPLE_RATES, MP3_BITRATES, OPUS_BITRATES,
+    describeExport, exportBitDepth, exportSampleRate,
+} from '../utils/exportFormats';
+import { DownloadIcon } from './icons';
+
+interface ExportDialogProps {
+    title: string;
+    settings: ExportSettings;
+    sourceRate: number; // Rate of the audio being exported, kept by "Giữ nguyên"
+    onChange: (settings: ExportSettings) => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+    children?: React.ReactNode; // Extra fields below the format options (the tags)
+}
+
+const selectClass = 'w-full bg-slate-700 rounded px-2 py-1 text-xs text-slate-200';
+
+const Field: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+    <label className="block space-y-1">
+        <span className="text-[11px] uppercase text-slate-500">{label}</span>
+        {children}
+    </label>
+);
+
+const formatRate = (rate: number) => `${(rate / 1000).toLocaleString('vi-VN')} kHz`;
+
+// Format, quality and sample rate of a file to download; used by "Lưu vùng chọn" and "Xuất bản Mix"
+export const ExportDialog: React.FC<ExportDialogProps> = ({ title, settings, sourceRate, onChange, onConfirm, onCancel, children }) => {
+    const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+    const depth = exportBitDepth(settings);
+    const outputRate = exportSampleRate(settings, sourceRate);
+    const requestedRate = settings.sampleRate ?? sourceRate;
+
+    return (
+        <div className="fixed inset-0 z-50 bg-gray-950/80 backdrop-blur-md flex items-center justify-center p-4" onClick={onCancel}>
+            <div className="bg-gray-900 border border-gray-700 rounded-xl p-6 max-w-md w-full max-h-full overflow-y-auto shadow-2xl space-y-4" onClick={(e) => e.stopPropagation()}>
+                <h2 className="text-lg font-bold text-white">{title}</h2>
+
+                <Field label="Định dạng">
+                    <select value={settings.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} className={selectClass}>
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                            <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                        ))}
+                    </select>
+                </Field>
+
+                {(settings.format === 'wav' || settings.format === 'flac') && (
+                    <Field label="Độ sâu bit">
+                        <select value={depth === 'float' ? 32 : depth!} onChange={(e) => update({ bitDepth: parseInt(e.target.value) as ExportSettings['bitDepth'] })} className={selectClass}>
+                            <option value={16}>16-bit</option>
+                            <option value={24}>24-bit</option>
+                            {settings.format === 'wav' && <option value={32}>32-bit float</option>}
+                        </select>
+                    </Field>
+                )}
+
+                {settings.format === 'mp3' && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <Field label="Chế độ">
+                            <select value={settings.mp3Mode} onChange={(e) => update({ mp3Mode: e.target.value as ExportSettings['mp3Mode'] })} className={selectClass}>
+                                <option value="cbr">CBR (bitrate cố định)</option>
+                                <option value="vbr">VBR (bitrate thay đổi)</option>
+                            </select>
+                        </Field>
+                        {settings.mp3Mode === 'cbr' ? (
+                            <Field label="Bitrate">
+                                <select value={settings.mp3Bitrate} onChange={(e) => update({ mp3Bitrate: parseInt(e.target.value) })} className={selectClass}>
+                                    {MP3_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+                                </select>
+                            </Field>
+                        ) : (
+                            <Field label="Chất lượng">
+                                <select value={settings.mp3Quality} onChange={(e) => update({ mp3Quality: parseInt(e.target.value) })} className={selectClass}>
+                                    {Array.from({ length: 10 }, (_, q) => (
+                                        <option key={q} value={q}>V{q}{q === 0 ? ' (tốt nhất)' : q === 9 ? ' (nhỏ nhất)' : ''}</option>
+                                    ))}
+                                </select>
+                            </Field>
+                        )}
+                    </div>
+                )}
+
+                {settings.format === 'opus' && (
+                    <Field label="Bitrate">
+                        <select value={settings.opusBitrate} onChange={(e) => update({ opusBitrate: parseInt(e.target.value) })} className={selectClass}>
+                            {OPUS_BITRATES.map(rate => <option key={rate} value={rate}>{rate} kbps</option>)}
+                        </select>
+                    </Field>
+                )}
+
+                <Field label="Tần số lấy mẫu">
+                    <select
+                        value={settings.sampleRate ?? ''}
+                        onChange={(e) => update({ sampleRate: e.target.value ? parseInt(e.target.value) : null })}
+                        disabled={settings.format === 'opus'}
+                        className={`${selectClass} disabled:opacity-50`}
+                    >
+                        <option value="">Giữ nguyên ({formatRate(sourceRate)})</option>
+                        {EXPORT_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{formatRate(rate)}</option>)}
+                    </select>
+                    {outputRate !== requestedRate && (
+                        <p className="text-[11px] text-amber-400/80">
+                            {settings.format === 'opus' ? 'Opus luôn dùng' : 'MP3 không hỗ trợ tần số này, sẽ dùng'} {formatRate(outputRate)}.
+                        </p>
+                    )}
+                </Field>
+
+                {(depth === 16 || depth === 24) && (
+                    <label className="flex items-center gap-2 text-xs text-slate-300" title="Thêm nhiễu TPDF rất nhỏ khi giảm độ sâu bit để tránh méo ở đoạn nhỏ tiếng">
+                        <input type="checkbox" checked={settings.dither} onChange={(e) => update({ dither: e.target.checked })} className="accent-amber-500" />
+                        Dither (TPDF)
+                    </label>
+                )}
+
+                {children}
+
+                <div className="flex items-center justify-between gap-2 pt-2 border-t border-gray-800">
+                    <span className="text-[11px] font-mono text-slate-500">{describeExport(settings, sourceRate)}</span>
+                    <div className="flex gap-2">
+                        <button onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-xs px-4 py-2 rounded">Hủy</button>
+                        <button onClick={onConfirm} className="flex items-center gap-1 bg-amber-600 hover:bg-amber-700 text-white text-xs font-semibold px-4 py-2 rounded">
+                            <DownloadIcon className="w-4 h-4" /> Xuất
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
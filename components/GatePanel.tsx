@@ -0,0 +1,50 @@
+
+import React from 'react';
+import type { GateSettings } from '../types';
+import { GATE_RATIO } from '../utils/gate';
+import { ParamSlider, type ParamSpec } from './ParamSlider';
+import { PreviewButton } from './EffectPreview';
+
+interface GatePanelProps {
+    settings: GateSettings;
+    onChange: (updates: Partial<GateSettings>) => void;
+    preview: boolean;
+    onPreviewChange: (preview: boolean) => void;
+    previewing: boolean; // Heard during playback
+    onPreviewToggle: () => void;
+    disabled: boolean;
+    onApply: () => void;
+}
+
+const ms = (v: number) => `${Math.round(v * 1000)} ms`;
+
+const GATE_PARAMS: ParamSpec<GateSettings>[] = [
+    { key: 'threshold', label: 'Ngưỡng', min: -80, max: 0, step: 1, format: v => `${v} dB` },
+    { key: 'hysteresis', label: 'Hysteresis', min: 0, max: 20, step: 0.5, format: v => `${v} dB` },
+    { key: 'ratio', label: 'Ratio', min: 1, max: GATE_RATIO, step: 0.5, format: v => v >= GATE_RATIO ? 'Gate' : `1:${v}` },
+    { key: 'attack', label: 'Attack', min: 0, max: 0.1, step: 0.001, format: ms },
+    { key: 'hold', label: 'Hold', min: 0, max: 1, step: 0.01, format: ms },
+    { key: 'release', label: 'Release', min: 0.01, max: 2, step: 0.01, format: ms },
+    { key: 'lookahead', label: 'Lookahead', min: 0, max: 0.02, step: 0.001, format: ms },
+];
+
+// Sidebar controls of the gate / expander effect
+export const GatePanel: React.FC<GatePanelProps> = ({ settings, onChange, preview, onPreviewChange, previewing, onPreviewToggle, disabled, onApply }) => (
+    <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {GATE_PARAMS.map(spec => (
+                <div key={spec.key}>
+                    <ParamSlider spec={spec} settings={settings} onChange={onChange} />
+                </div>
+            ))}
+        </div>
+        <label className="flex items-center gap-2 text-[11px] text-slate-400">
+            <input type="checkbox" checked={preview} onChange={(e) => onPreviewChange(e.target.checked)} className="accent-amber-500" />
+            Xem mức giảm trên sóng
+        </label>
+        <div className="flex items-center gap-2">
+            <PreviewButton active={previewing} onToggle={onPreviewToggle} />
+            <button onClick={onApply} disabled={disabled} className="flex-1 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Áp dụng Gate</button>
+        </div>
+    </div>
+);
@@ -0,0 +1,49 @@
+
+import React from 'react';
+import type { LoudnessTarget } from '../types';
+import { LOUDNESS_TARGETS, type LoudnessStats } from '../utils/loudness';
+
+const format = (value: number, unit: string) => isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+// Measured values as a compact two-column table
+export const LoudnessReadout: React.FC<{ stats: LoudnessStats, target?: LoudnessTarget }> = ({ stats, target }) => {
+    const rows: [string, string, boolean][] = [
+        ['Integrated', format(stats.integrated, 'LUFS'), false],
+        ['Short-term max', format(stats.shortTermMax, 'LUFS'), false],
+        ['Momentary max', format(stats.momentaryMax, 'LUFS'), false],
+        ['Loudness range', format(stats.range, 'LU'), false],
+        ['True peak', format(stats.truePeak, 'dBTP'), !!target && stats.truePeak > target.ceiling],
+    ];
+    return (
+        <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-[11px] font-mono">
+            {rows.map(([label, value, warn]) => (
+                <React.Fragment key={label}>
+                    <dt className="text-slate-500">{label}</dt>
+                    <dd className={`text-right ${warn ? 'text-red-400' : 'text-slate-200'}`}>{value}</dd>
+                </React.Fragment>
+            ))}
+        </dl>
+    );
+};
+
+// Target loudness preset and true-peak ceiling
+export const LoudnessTargetFields: React.FC<{ target: LoudnessTarget, onChange: (target: LoudnessTarget) => void }> = ({ target, onChange }) => (
+    <div className="flex gap-2">
+        <select
+            value={target.lufs}
+            onChange={(e) => onChange({ ...target, lufs: parseFloat(e.target.value) })}
+            className="flex-grow bg-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+        >
+            {LOUDNESS_TARGETS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-[11px] text-slate-400" title="Ngưỡng true peak (dBTP)">
+            TP
+            <input
+                type="number" min="-9" max="0" step="0.5"
+                value={target.ceiling}
+                onChange={(e) => onChange({ ...target, ceiling: Math.min(0, parseFloat(e.target.value) || 0) })}
+                className="w-14 bg-slate-700 rounded px-1 py-1 text-xs"
+            />
+        </label>
+    </div>
+);
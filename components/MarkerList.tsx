@@ -0,0 +1,60 @@
+
+import React from 'react';
+import type { Marker } from '../types';
+import { TrashIcon } from './icons';
+import { formatMarkerTime, removeMarker, updateMarker } from '../utils/markers';
+
+interface MarkerListProps {
+    markers: Marker[];
+    onChange: (markers: Marker[]) => void;
+    onSeek: (time: number) => void;
+    onAdd: (region: boolean) => void; // Point at the playhead, or a region
+    onExportLabels: () => void;
+}
+
+// Sidebar list of the timeline's markers and regions: seek, rename, delete, export as labels
+export const MarkerList: React.FC<MarkerListProps> = ({ markers, onChange, onSeek, onAdd, onExportLabels }) => (
+    <div className="bg-slate-800/50 p-3 rounded space-y-2">
+        <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold text-amber-400">Điểm đánh dấu</span>
+            <div className="flex gap-1">
+                <button onClick={() => onAdd(false)} className="bg-slate-700 hover:bg-slate-600 text-[11px] px-2 py-0.5 rounded" title="Thêm điểm tại đầu phát (M)">+ Điểm</button>
+                <button onClick={() => onAdd(true)} className="bg-slate-700 hover:bg-slate-600 text-[11px] px-2 py-0.5 rounded" title="Thêm vùng từ vùng chọn, hoặc từ đầu phát">+ Vùng</button>
+            </div>
+        </div>
+
+        {markers.length > 0 ? (
+            <ul className="max-h-48 overflow-y-auto space-y-1">
+                {markers.map(marker => (
+                    <li key={marker.id} className="flex items-center gap-1 text-xs">
+                        <span className={`w-2 h-2 flex-shrink-0 ${marker.end === null ? 'rounded-full bg-emerald-400' : 'rounded-sm bg-emerald-500/60 border border-emerald-400'}`} />
+                        <button
+                            onClick={() => onSeek(marker.start)}
+                            className="font-mono text-[10px] text-slate-400 hover:text-amber-400 flex-shrink-0"
+                            title={marker.end === null ? 'Đến điểm này' : `Đến vùng này (dài ${(marker.end - marker.start).toFixed(2)}s)`}
+                        >
+                            {formatMarkerTime(marker.start)}
+                        </button>
+                        <input
+                            type="text"
+                            value={marker.label}
+                            onChange={(e) => onChange(updateMarker(markers, marker.id, { label: e.target.value }))}
+                            className="flex-grow min-w-0 bg-transparent hover:bg-slate-900 focus:bg-slate-900 rounded px-1 py-0.5 text-slate-200"
+                        />
+                        <button onClick={() => onChange(removeMarker(markers, marker.id))} className="text-slate-500 hover:text-red-400 flex-shrink-0" title="Xóa">
+                            <TrashIcon className="w-3 h-3" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        ) : (
+            <p className="text-[11px] text-slate-500">Chưa có điểm nào.</p>
+        )}
+
+        <div className="flex items-center justify-between text-[10px] text-slate-500">
+            <span>M: thêm điểm · [ / ]: điểm trước / sau</span>
+            <button onClick={onExportLabels} disabled={markers.length === 0} className="text-slate-400 hover:text-amber-400 underline disabled:opacity-40 disabled:no-underline">Xuất nhãn Audacity</button>
+        </div>
+        <p className="text-[10px] text-slate-500">Được ghi thành chương (MP3) hoặc cue point (WAV) khi xuất.</p>
+    </div>
+);
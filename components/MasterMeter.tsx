@@ -0,0 +1,92 @@
+
+import React, { useRef, useEffect } from 'react';
+import { readMeter } from '../utils/masterBus';
+
+interface MasterMeterProps {
+    meters: AnalyserNode[];
+    active: boolean; // Meters only update while the Studio is playing
+    ceiling: number; // dBTP, drawn as a marker
+}
+
+const MIN_DB = -60;
+const MAX_DB = 3;
+const PEAK_HOLD_MS = 1500;
+const METER_HEIGHT = 10;
+const METER_GAP = 4;
+
+const toDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+const dbToX = (db: number, width: number) => Math.max(0, Math.min(1, (db - MIN_DB) / (MAX_DB - MIN_DB))) * width;
+
+// Horizontal post-limiter peak/RMS meters, one bar per channel, with peak hold
+export const MasterMeter: React.FC<MasterMeterProps> = ({ meters, active, ceiling }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const labelRef = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        const width = canvas.clientWidth;
+        const height = meters.length * METER_HEIGHT + Math.max(0, meters.length - 1) * METER_GAP;
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        const scratch = new Float32Array(meters[0]?.fftSize ?? 0);
+        const holds = meters.map(() => ({ db: -Infinity, at: 0 }));
+        let frameId = 0;
+
+        const draw = () => {
+            const now = performance.now();
+            ctx.clearRect(0, 0, width, height);
+            let maxHold = -Infinity;
+
+            meters.forEach((analyser, ch) => {
+                const { peak, rms } = active ? readMeter(analyser, scratch) : { peak: 0, rms: 0 };
+                const peakDb = toDb(peak);
+                const hold = holds[ch];
+                if (peakDb >= hold.db || now - hold.at > PEAK_HOLD_MS) {
+                    hold.db = peakDb;
+                    hold.at = now;
+                }
+                maxHold = Math.max(maxHold, hold.db);
+
+                const y = ch * (METER_HEIGHT + METER_GAP);
+                ctx.fillStyle = '#1e293b';
+                ctx.fillRect(0, y, width, METER_HEIGHT);
+                ctx.fillStyle = '#475569';
+                ctx.fillRect(0, y, dbToX(peakDb, width), METER_HEIGHT);
+                ctx.fillStyle = peakDb > ceiling ? '#ef4444' : '#22c55e';
+                ctx.fillRect(0, y, dbToX(toDb(rms), width), METER_HEIGHT);
+                if (hold.db > MIN_DB) {
+                    ctx.fillStyle = hold.db > ceiling ? '#ef4444' : '#fbbf24';
+                    ctx.fillRect(dbToX(hold.db, width) - 1, y, 2, METER_HEIGHT);
+                }
+            });
+
+            // Ceiling marker across all channels
+            ctx.fillStyle = '#f8fafc80';
+            ctx.fillRect(dbToX(ceiling, width), 0, 1, height);
+
+            if (labelRef.current) {
+                labelRef.current.textContent = maxHold > MIN_DB ? `${maxHold.toFixed(1)} dB` : '-∞';
+            }
+            if (active) frameId = requestAnimationFrame(draw);
+        };
+
+        draw();
+        return () => cancelAnimationFrame(frameId);
+    }, [meters, active, ceiling]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between text-[10px] text-slate-500 mb-1">
+                <span>Peak / RMS (L, R)</span>
+                <span ref={labelRef} className="text-slate-300 font-mono">-∞</span>
+            </div>
+            <canvas ref={canvasRef} className="w-full block" style={{ height: meters.length * METER_HEIGHT + Math.max(0, meters.length - 1) * METER_GAP }} />
+        </div>
+    );
+};
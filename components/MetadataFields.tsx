@@ -0,0 +1,66 @@
+
+import React, { useEffect, useMemo } from 'react';
+import type { AudioMetadata } from '../types';
+
+interface MetadataFieldsProps {
+    metadata: AudioMetadata;
+    onChange: (metadata: AudioMetadata) => void;
+}
+
+const inputClass = 'w-full bg-slate-700 rounded px-2 py-1 text-xs text-slate-200 placeholder-slate-500';
+
+const TextInput: React.FC<{ label: string, value: string, onChange: (value: string) => void, placeholder?: string }> = ({ label, value, onChange, placeholder }) => (
+    <label className="block space-y-1">
+        <span className="text-[11px] uppercase text-slate-500">{label}</span>
+        <input type="text" value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className={inputClass} />
+    </label>
+);
+
+// Tags of the exported file; the export writes them in the format's own tag type
+export const MetadataFields: React.FC<MetadataFieldsProps> = ({ metadata, onChange }) => {
+    const update = (patch: Partial<AudioMetadata>) => onChange({ ...metadata, ...patch });
+
+    const coverUrl = useMemo(
+        () => metadata.cover ? URL.createObjectURL(new Blob([metadata.cover.data], { type: metadata.cover.mimeType })) : null,
+        [metadata.cover]
+    );
+    useEffect(() => () => { if (coverUrl) URL.revokeObjectURL(coverUrl); }, [coverUrl]);
+
+    const handleCoverChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        update({ cover: { mimeType: file.type === 'image/png' ? 'image/png' : 'image/jpeg', data: new Uint8Array(await file.arrayBuffer()) } });
+    };
+
+    return (
+        <details className="border-t border-gray-800 pt-3" open>
+            <summary className="text-xs font-semibold text-slate-300 cursor-pointer select-none">Thông tin (tag)</summary>
+            <div className="mt-3 flex gap-3">
+                <div className="flex-grow space-y-2">
+                    <TextInput label="Tiêu đề" value={metadata.title} onChange={title => update({ title })} />
+                    <TextInput label="Nghệ sĩ" value={metadata.artist} onChange={artist => update({ artist })} />
+                    <TextInput label="Album / Podcast" value={metadata.album} onChange={album => update({ album })} />
+                    <div className="grid grid-cols-2 gap-2">
+                        <TextInput label="Số tập" value={metadata.episode} onChange={episode => update({ episode })} placeholder="12" />
+                        <TextInput label="Năm" value={metadata.year} onChange={year => update({ year })} placeholder={String(new Date().getFullYear())} />
+                    </div>
+                </div>
+                <div className="w-24 flex-shrink-0 space-y-1">
+                    <span className="text-[11px] uppercase text-slate-500">Ảnh bìa</span>
+                    <label className="block w-24 h-24 rounded border border-dashed border-slate-600 hover:border-amber-500 cursor-pointer overflow-hidden flex items-center justify-center text-[10px] text-slate-500 text-center">
+                        {coverUrl ? <img src={coverUrl} alt="" className="w-full h-full object-cover" /> : 'Chọn ảnh JPEG / PNG'}
+                        <input type="file" accept="image/jpeg,image/png" onChange={handleCoverChange} className="hidden" />
+                    </label>
+                    {metadata.cover && (
+                        <button onClick={() => update({ cover: null })} className="w-full text-[11px] text-slate-400 hover:text-red-400 underline">Bỏ ảnh</button>
+                    )}
+                </div>
+            </div>
+            <label className="block space-y-1 mt-2">
+                <span className="text-[11px] uppercase text-slate-500">Ghi chú</span>
+                <textarea value={metadata.comment} onChange={(e) => update({ comment: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+            </label>
+        </details>
+    );
+};
@@ -1,8 +1,19 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { Track } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { AutomationParam, Clip, FadeCurve, Marker, Track } from '../types';
 import * as d3 from 'd3';
 import { TrashIcon } from './icons';
+import { ClipWaveform } from './ClipWaveform';
+import { TrackInserts } from './TrackInserts';
+import { AutomationLane } from './AutomationLane';
+import { ClipTimePitch, type TimePitch } from './TimePitchPanel';
+import { clipEnd, trackEnd, splitClip, duplicateClip, removeClip, trimClipStart, trimClipEnd, isClipProcessed, setClipStretch } from '../utils/clips';
+import { getClipFades, clipGainAt, FADE_CURVES, type ClipFades } from '../utils/fades';
+import { isTrackAudible } from '../utils/tracks';
+import { trackParamAt } from '../utils/automation';
+import type { DuckingCurve } from '../utils/ducking';
+import { formatPitch } from '../utils/timeStretch';
+import { dragMarker, updateMarker, type MarkerDragMode } from '../utils/markers';
 
 interface MultiTrackTimelineProps {
     tracks: Track[];
@@ -11,11 +22,54 @@ interface MultiTrackTimelineProps {
     onRemoveTrack: (id: string) => void;
     onSeek: (time: number) => void;
     duration: number; // Total visible duration or max duration
+    ducking: DuckingCurve | null;
+    markers: Marker[];
+    onMarkersChange: (markers: Marker[]) => void;
 }
 
-const TRACK_HEIGHT = 100;
+const TRACK_HEIGHT = 128;
 const RULER_HEIGHT = 30;
 const HEADER_WIDTH = 160;
+const CLIP_HEIGHT = TRACK_HEIGHT - 16; // Lane minus the clip's top-2 / bottom-2 inset
+
+type DragMode = 'move' | 'trimStart' | 'trimEnd' | 'fadeIn' | 'fadeOut';
+
+// Lane shown over a track's clips; clicking the header toggle cycles through them
+const AUTOMATION_VIEWS: (AutomationParam | null)[] = [null, 'volume', 'pan'];
+const AUTOMATION_COLORS: Record<AutomationParam, string> = { volume: '#fbbf24', pan: '#38bdf8' };
+
+const FADE_OVERLAY_POINTS = 24;
+
+// Ducking gain as an outline from the top of the lane: the deeper the line, the more the
+// track is lowered. One point per DUCKING_STEP pixels, keeping the lowest gain in each.
+const DUCKING_STEP = 2;
+const duckingPath = (ducking: DuckingCurve, pixelsPerSecond: number, height: number): string => {
+    const { gains, hop } = ducking;
+    const framesPerPoint = Math.max(1, Math.floor(DUCKING_STEP / (hop * pixelsPerSecond)));
+    const points: string[] = [];
+    for (let f = 0; f < gains.length; f += framesPerPoint) {
+        let gain = 1;
+        for (let i = f; i < Math.min(gains.length, f + framesPerPoint); i++) gain = Math.min(gain, gains[i]);
+        points.push(`${f * hop * pixelsPerSecond},${(1 - gain) * height}`);
+    }
+    return `M0,0 L${points.join(' L')} L${gains.length * hop * pixelsPerSecond},0 Z`;
+};
+
+// Shades the part of the clip attenuated by its fades, in a 0..100 box stretched over the clip
+const fadeOverlayPath = (fades: ClipFades, duration: number): string => {
+    const segments: [number, number][] = [];
+    if (fades.fadeIn > 0) segments.push([0, fades.fadeIn]);
+    if (fades.fadeOut > 0) segments.push([duration - fades.fadeOut, duration]);
+
+    return segments.map(([from, to]) => {
+        const points: string[] = [];
+        for (let i = 0; i <= FADE_OVERLAY_POINTS; i++) {
+            const t = from + (to - from) * i / FADE_OVERLAY_POINTS;
+            points.push(`${(t / duration) * 100},${(1 - clipGainAt(fades, duration, t)) * 100}`);
+        }
+        return `M${(from / duration) * 100},0 L${points.join(' L')} L${(to / duration) * 100},0 Z`;
+    }).join(' ');
+};
 
 export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({ 
     tracks, 
@@ -23,16 +77,30 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
     onUpdateTrack, 
     onRemoveTrack,
     onSeek,
-    duration 
+    duration,
+    ducking,
+    markers,
+    onMarkersChange
 }) => {
     const rulerRef = useRef<HTMLDivElement>(null);
     const tracksAreaRef = useRef<HTMLDivElement>(null);
     const [pixelsPerSecond, setPixelsPerSecond] = useState(50);
-    const [dragState, setDragState] = useState<{ trackId: string, startX: number, initialStartTime: number } | null>(null);
-    const [contextMenu, setContextMenu] = useState<{ x: number, y: number, trackId: string } | null>(null);
+    const [dragState, setDragState] = useState<{ trackId: string, clipId: string, mode: DragMode, startX: number, initialClip: Clip } | null>(null);
+    const [contextMenu, setContextMenu] = useState<{ x: number, y: number, trackId: string, clipId: string } | null>(null);
+    const [insertsPanel, setInsertsPanel] = useState<{ x: number, y: number, trackId: string } | null>(null);
+    const [timePitchPanel, setTimePitchPanel] = useState<{ x: number, y: number, trackId: string, clipId: string } | null>(null);
+    const [automationViews, setAutomationViews] = useState<Record<string, AutomationParam | null>>({});
+    const [markerDrag, setMarkerDrag] = useState<{ startX: number, mode: MarkerDragMode, initial: Marker } | null>(null);
+    const markerMovedRef = useRef(false);
+
+    // Same curve for every ducked track; rebuilt only on zoom or new settings, not on playback ticks
+    const duckingOverlay = useMemo(
+        () => ducking ? duckingPath(ducking, pixelsPerSecond, TRACK_HEIGHT - 1) : '',
+        [ducking, pixelsPerSecond]
+    );
 
     // Ensure we have enough width for the longest track
-    const maxDuration = Math.max(duration, ...tracks.map(t => t.startTime + t.buffer.duration), 10); // Min 10s
+    const maxDuration = Math.max(duration, ...tracks.map(trackEnd), 10); // Min 10s
     const timelineWidth = maxDuration * pixelsPerSecond;
 
     // Sync scroll between ruler and tracks
@@ -71,38 +139,81 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
         return () => window.removeEventListener('click', handleClick);
     }, []);
 
-    // Drag Logic
-    const handleMouseDown = (e: React.MouseEvent, track: Track) => {
+    // Drag Logic: the clip body moves it, its edges trim it
+    const handleMouseDown = (e: React.MouseEvent, track: Track, clip: Clip, mode: DragMode) => {
         if (e.button !== 0) return; // Only left click drags
         e.stopPropagation(); // Prevent triggering timeline seek
         setDragState({
             trackId: track.id,
+            clipId: clip.id,
+            mode,
             startX: e.clientX,
-            initialStartTime: track.startTime
+            initialClip: clip
         });
     };
 
-    const handleContextMenu = (e: React.MouseEvent, trackId: string) => {
+    const handleContextMenu = (e: React.MouseEvent, trackId: string, clipId: string) => {
         e.preventDefault();
         e.stopPropagation();
         setContextMenu({
             x: e.clientX,
             y: e.clientY,
-            trackId: trackId
+            trackId,
+            clipId
         });
     };
 
     const handleMouseMove = useCallback((e: MouseEvent) => {
         if (!dragState) return;
+        const track = tracks.find(t => t.id === dragState.trackId);
+        if (!track) return;
 
         const deltaPixels = e.clientX - dragState.startX;
         const deltaTime = deltaPixels / pixelsPerSecond;
-        
-        let newStartTime = dragState.initialStartTime + deltaTime;
-        newStartTime = Math.max(0, newStartTime); // Cannot go before 0
+        const initial = dragState.initialClip;
+
+        let updated: Clip;
+        if (dragState.mode === 'fadeIn') {
+            updated = { ...initial, fadeIn: Math.max(0, Math.min(initial.duration - initial.fadeOut, initial.fadeIn + deltaTime)) };
+        } else if (dragState.mode === 'fadeOut') {
+            updated = { ...initial, fadeOut: Math.max(0, Math.min(initial.duration - initial.fadeIn, initial.fadeOut - deltaTime)) };
+        } else if (dragState.mode === 'trimStart') {
+            updated = trimClipStart(initial, initial.startTime + deltaTime);
+        } else if (dragState.mode === 'trimEnd') {
+            updated = trimClipEnd(track, initial, clipEnd(initial) + deltaTime);
+        } else {
+            updated = { ...initial, startTime: Math.max(0, initial.startTime + deltaTime) }; // Cannot go before 0
+        }
+
+        onUpdateTrack(track.id, { clips: track.clips.map(c => c.id === updated.id ? updated : c) });
+    }, [dragState, tracks, pixelsPerSecond, onUpdateTrack]);
+
+    const applyClipAction = (action: (track: Track, clipId: string) => Clip[]) => {
+        if (!contextMenu) return;
+        const track = tracks.find(t => t.id === contextMenu.trackId);
+        if (track) {
+            onUpdateTrack(track.id, { clips: action(track, contextMenu.clipId) });
+        }
+        setContextMenu(null);
+    };
+
+    const setFadeCurve = (field: 'fadeInCurve' | 'fadeOutCurve', curve: FadeCurve) => {
+        applyClipAction((track, clipId) => track.clips.map(c => c.id === clipId ? { ...c, [field]: curve } : c));
+    };
 
-        onUpdateTrack(dragState.trackId, { startTime: newStartTime });
-    }, [dragState, pixelsPerSecond, onUpdateTrack]);
+    const updateTimePitch = (trackId: string, clipId: string, updates: Partial<TimePitch>) => {
+        const track = tracks.find(t => t.id === trackId);
+        if (!track) return;
+        onUpdateTrack(trackId, {
+            clips: track.clips.map(c => {
+                if (c.id !== clipId) return c;
+                const stretched = updates.stretch !== undefined ? setClipStretch(c, updates.stretch) : c;
+                return updates.pitch !== undefined ? { ...stretched, pitch: updates.pitch } : stretched;
+            }),
+        });
+    };
+
+    const menuClip = contextMenu ? tracks.find(t => t.id === contextMenu.trackId)?.clips.find(c => c.id === contextMenu.clipId) : undefined;
 
     const handleMouseUp = useCallback(() => {
         setDragState(null);
@@ -119,6 +230,36 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
         };
     }, [dragState, handleMouseMove, handleMouseUp]);
 
+    // Marker dragging in the ruler: the flag moves it, a region's bar edges resize it
+    useEffect(() => {
+        if (!markerDrag) return;
+        const handleMarkerMove = (e: MouseEvent) => {
+            const delta = (e.clientX - markerDrag.startX) / pixelsPerSecond;
+            if (delta !== 0) markerMovedRef.current = true;
+            const { start, end } = dragMarker(markerDrag.initial, markerDrag.mode, delta, maxDuration);
+            onMarkersChange(updateMarker(markers, markerDrag.initial.id, { start, end }));
+        };
+        const handleMarkerUp = () => setMarkerDrag(null);
+        window.addEventListener('mousemove', handleMarkerMove);
+        window.addEventListener('mouseup', handleMarkerUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMarkerMove);
+            window.removeEventListener('mouseup', handleMarkerUp);
+        };
+    }, [markerDrag, markers, onMarkersChange, pixelsPerSecond, maxDuration]);
+
+    const handleMarkerMouseDown = (e: React.MouseEvent, marker: Marker, mode: MarkerDragMode) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        markerMovedRef.current = false;
+        setMarkerDrag({ startX: e.clientX, mode, initial: marker });
+    };
+
+    // A click on a flag without dragging seeks to the marker
+    const handleMarkerClick = (e: React.MouseEvent, marker: Marker) => {
+        e.stopPropagation();
+        if (!markerMovedRef.current) onSeek(marker.start);
+    };
 
     // Handle Click on Timeline to Seek
     const handleTimelineClick = (e: React.MouseEvent) => {
@@ -186,6 +327,28 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
                 >
                     <div className="absolute top-0 left-0 h-full pointer-events-none" style={{ width: timelineWidth }}>
                         {renderRuler()}
+                        {markers.map(marker => (
+                            <React.Fragment key={marker.id}>
+                                {marker.end !== null && (
+                                    <div
+                                        className="absolute bottom-0 h-1.5 bg-emerald-500/60 rounded-sm"
+                                        style={{ left: marker.start * pixelsPerSecond, width: (marker.end - marker.start) * pixelsPerSecond }}
+                                    >
+                                        <div className="absolute -left-1 -top-1 bottom-0 w-2 cursor-col-resize pointer-events-auto" onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'start')} onClick={(e) => e.stopPropagation()} />
+                                        <div className="absolute -right-1 -top-1 bottom-0 w-2 cursor-col-resize pointer-events-auto" onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'end')} onClick={(e) => e.stopPropagation()} />
+                                    </div>
+                                )}
+                                <div
+                                    className="absolute top-3 max-w-[120px] truncate px-1 text-[10px] leading-[14px] bg-emerald-600/90 text-white rounded-r cursor-grab pointer-events-auto z-20"
+                                    style={{ left: marker.start * pixelsPerSecond }}
+                                    title={marker.label}
+                                    onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'move')}
+                                    onClick={(e) => handleMarkerClick(e, marker)}
+                                >
+                                    {marker.label}
+                                </div>
+                            </React.Fragment>
+                        ))}
                     </div>
                     {/* Playhead Indicator in Ruler */}
                     <div 
@@ -208,36 +371,112 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
                         className="absolute top-0 bottom-0 w-[2px] bg-amber-500/80 z-20 pointer-events-none"
                         style={{ left: currentTime * pixelsPerSecond + HEADER_WIDTH }}
                     />
+                    {/* Marker lines and region bands across all tracks */}
+                    {markers.map(marker => marker.end === null ? (
+                        <div
+                            key={marker.id}
+                            className="absolute top-0 bottom-0 border-l border-emerald-400/60 z-[15] pointer-events-none"
+                            style={{ left: marker.start * pixelsPerSecond + HEADER_WIDTH }}
+                        />
+                    ) : (
+                        <div
+                            key={marker.id}
+                            className="absolute top-0 bottom-0 bg-emerald-500/5 border-x border-emerald-400/40 z-[15] pointer-events-none"
+                            style={{ left: marker.start * pixelsPerSecond + HEADER_WIDTH, width: (marker.end - marker.start) * pixelsPerSecond }}
+                        />
+                    ))}
 
-                    {tracks.map((track) => (
-                        <div key={track.id} className="flex h-[100px] border-b border-slate-700/50 relative group hover:bg-slate-800/30 transition-colors">
+                    {tracks.map((track) => {
+                        const fades = getClipFades(track);
+                        const automationView = automationViews[track.id] ?? null;
+                        const volumeAutomated = track.automation.volume.length > 0;
+                        const panAutomated = track.automation.pan.length > 0;
+                        const displayPan = trackParamAt(track, 'pan', currentTime);
+                        return (
+                        <div key={track.id} className="flex h-[128px] border-b border-slate-700/50 relative group hover:bg-slate-800/30 transition-colors">
                             {/* Track Header (Controls) - Sticky */}
                             <div className="sticky left-0 w-[160px] flex-shrink-0 bg-slate-900 border-r border-slate-700 p-2 flex flex-col justify-between z-10 shadow-[2px_0_5px_rgba(0,0,0,0.3)]">
-                                <div className="text-xs font-semibold text-slate-300 truncate" title={track.file.name}>
-                                    {track.file.name}
+                                <div className="flex items-center gap-1">
+                                    <div className="text-xs font-semibold text-slate-300 truncate flex-grow" title={track.file.name}>
+                                        {track.file.name}
+                                    </div>
+                                    {ducking?.keyTrackId === track.id && (
+                                        <span className="text-[9px] px-1 rounded bg-fuchsia-500/20 text-fuchsia-300 flex-shrink-0" title="Track điều khiển ducking">KEY</span>
+                                    )}
+                                    {ducking?.trackIds.includes(track.id) && (
+                                        <span className="text-[9px] px-1 rounded bg-fuchsia-500/20 text-fuchsia-300 flex-shrink-0" title="Bị giảm âm lượng theo track điều khiển">DUCK</span>
+                                    )}
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            const next = AUTOMATION_VIEWS[(AUTOMATION_VIEWS.indexOf(automationView) + 1) % AUTOMATION_VIEWS.length];
+                                            setAutomationViews(prev => ({ ...prev, [track.id]: next }));
+                                        }}
+                                        className={`text-[9px] px-1.5 py-0.5 rounded border flex-shrink-0 ${automationView ? 'border-current' : 'bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`}
+                                        style={automationView ? { color: AUTOMATION_COLORS[automationView] } : undefined}
+                                        title="Automation: tắt / âm lượng / pan"
+                                    >
+                                        {automationView === 'volume' ? 'A: VOL' : automationView === 'pan' ? 'A: PAN' : 'AUTO'}
+                                    </button>
                                 </div>
                                 <div className="space-y-1">
                                     <div className="flex items-center justify-between">
                                         <span className="text-[10px] text-slate-500">Vol</span>
-                                        <span className="text-[10px] text-slate-300">{Math.round(track.volume * 100)}%</span>
+                                        <span className="text-[10px] text-slate-300">{Math.round(trackParamAt(track, 'volume', currentTime) * 100)}%{volumeAutomated ? ' (auto)' : ''}</span>
                                     </div>
                                     <input 
                                         type="range" 
                                         min="0" max="1.5" step="0.1"
                                         value={track.volume}
+                                        disabled={volumeAutomated}
                                         onChange={(e) => onUpdateTrack(track.id, { volume: parseFloat(e.target.value) })}
-                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                                        onMouseDown={(e) => e.stopPropagation()} 
+                                        onClick={(e) => e.stopPropagation()}
+                                    />
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] text-slate-500">Pan</span>
+                                        <span className="text-[10px] text-slate-300">{Math.abs(displayPan) < 0.005 ? 'C' : `${Math.round(Math.abs(displayPan) * 100)}${displayPan < 0 ? 'L' : 'R'}`}{panAutomated ? ' (auto)' : ''}</span>
+                                    </div>
+                                    <input 
+                                        type="range" 
+                                        min="-1" max="1" step="0.05"
+                                        value={track.pan}
+                                        disabled={panAutomated}
+                                        onChange={(e) => onUpdateTrack(track.id, { pan: parseFloat(e.target.value) })}
+                                        onDoubleClick={() => onUpdateTrack(track.id, { pan: 0 })}
+                                        className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500 disabled:opacity-40 disabled:cursor-not-allowed"
                                         onMouseDown={(e) => e.stopPropagation()} 
                                         onClick={(e) => e.stopPropagation()}
+                                        title="Nhấp đúp để về giữa"
                                     />
                                 </div>
                                 <div className="flex items-center justify-between mt-1">
-                                    <button 
-                                        onClick={(e) => { e.stopPropagation(); onUpdateTrack(track.id, { isMuted: !track.isMuted }); }}
-                                        className={`text-[10px] px-2 py-0.5 rounded border ${track.isMuted ? 'bg-red-500/20 border-red-500 text-red-400' : 'bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`}
-                                    >
-                                        {track.isMuted ? 'MUTED' : 'MUTE'}
-                                    </button>
+                                    <div className="flex gap-1">
+                                        <button 
+                                            onClick={(e) => { e.stopPropagation(); onUpdateTrack(track.id, { isMuted: !track.isMuted }); }}
+                                            className={`text-[10px] px-2 py-0.5 rounded border ${track.isMuted ? 'bg-red-500/20 border-red-500 text-red-400' : 'bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`}
+                                        >
+                                            {track.isMuted ? 'MUTED' : 'MUTE'}
+                                        </button>
+                                        <button 
+                                            onClick={(e) => { e.stopPropagation(); onUpdateTrack(track.id, { isSolo: !track.isSolo }); }}
+                                            className={`text-[10px] px-2 py-0.5 rounded border ${track.isSolo ? 'bg-yellow-500/20 border-yellow-500 text-yellow-400' : 'bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`}
+                                        >
+                                            SOLO
+                                        </button>
+                                        <button 
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                const rect = e.currentTarget.getBoundingClientRect();
+                                                setInsertsPanel(insertsPanel?.trackId === track.id ? null : { x: rect.left, y: rect.bottom + 4, trackId: track.id });
+                                            }}
+                                            className={`text-[10px] px-2 py-0.5 rounded border ${track.inserts.some(i => i.enabled) ? 'bg-sky-500/20 border-sky-500 text-sky-400' : 'bg-slate-700 border-slate-600 text-slate-400 hover:text-white'}`}
+                                            title="Hiệu ứng insert (EQ, Compressor)"
+                                        >
+                                            FX{track.inserts.length > 0 ? ` ${track.inserts.length}` : ''}
+                                        </button>
+                                    </div>
                                     <button onClick={(e) => { e.stopPropagation(); onRemoveTrack(track.id); }} className="text-slate-500 hover:text-red-400">
                                         <TrashIcon className="w-4 h-4" />
                                     </button>
@@ -246,30 +485,93 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
 
                             {/* Track Timeline Lane */}
                             <div className="flex-grow relative">
-                                <div 
-                                    className={`absolute top-2 bottom-2 rounded-md overflow-hidden cursor-grab active:cursor-grabbing border border-opacity-50 hover:border-opacity-100 transition-colors shadow-sm ${track.isMuted ? 'opacity-50 grayscale' : ''}`}
-                                    style={{
-                                        left: track.startTime * pixelsPerSecond,
-                                        width: track.buffer.duration * pixelsPerSecond,
-                                        backgroundColor: track.color + '40', // 40 hex = 25% opacity
-                                        borderColor: track.color
-                                    }}
-                                    onMouseDown={(e) => handleMouseDown(e, track)}
-                                    onContextMenu={(e) => handleContextMenu(e, track.id)}
-                                >
-                                    {/* Waveform placeholder */}
-                                    <div className="w-full h-full opacity-50 flex items-center justify-center overflow-hidden pointer-events-none">
-                                        <svg className="w-full h-full" preserveAspectRatio="none">
-                                            <path d="M0,50 L1000,50" stroke={track.color} strokeWidth="100" strokeDasharray="4 4" />
-                                        </svg>
-                                    </div>
-                                    <div className="absolute top-1 left-2 text-[10px] font-mono text-white/90 truncate max-w-full pointer-events-none select-none drop-shadow-md font-bold">
-                                        {track.file.name}
+                                {ducking?.trackIds.includes(track.id) && (
+                                    <svg className="absolute top-0 left-0 z-[4] pointer-events-none" width={timelineWidth} height={TRACK_HEIGHT - 1}>
+                                        <path d={duckingOverlay} fill="#d946ef" fillOpacity={0.2} stroke="#e879f9" strokeWidth={1} />
+                                    </svg>
+                                )}
+                                {automationView && (
+                                    <AutomationLane
+                                        param={automationView}
+                                        points={track.automation[automationView]}
+                                        staticValue={track[automationView]}
+                                        pixelsPerSecond={pixelsPerSecond}
+                                        width={timelineWidth}
+                                        height={TRACK_HEIGHT - 1}
+                                        color={AUTOMATION_COLORS[automationView]}
+                                        onChange={(points) => onUpdateTrack(track.id, { automation: { ...track.automation, [automationView]: points } })}
+                                    />
+                                )}
+                                {track.clips.map(clip => {
+                                    const clipFades = fades.get(clip.id)!;
+                                    return (
+                                    <div 
+                                        key={clip.id}
+                                        className={`absolute top-2 bottom-2 rounded-md overflow-hidden cursor-grab active:cursor-grabbing border border-opacity-50 hover:border-opacity-100 transition-colors shadow-sm group/clip ${isTrackAudible(track, tracks) ? '' : 'opacity-50 grayscale'}`}
+                                        style={{
+                                            left: clip.startTime * pixelsPerSecond,
+                                            width: clip.duration * pixelsPerSecond,
+                                            backgroundColor: track.color + '40', // 40 hex = 25% opacity
+                                            borderColor: track.color
+                                        }}
+                                        onMouseDown={(e) => handleMouseDown(e, track, clip, 'move')}
+                                        onContextMenu={(e) => handleContextMenu(e, track.id, clip.id)}
+                                    >
+                                        <div className="w-full h-full opacity-70 overflow-hidden pointer-events-none">
+                                            <ClipWaveform
+                                                buffer={track.buffer}
+                                                offset={clip.offset}
+                                                duration={clip.duration / clip.stretch}
+                                                width={clip.duration * pixelsPerSecond}
+                                                height={CLIP_HEIGHT}
+                                                color={track.color}
+                                            />
+                                        </div>
+                                        {/* Fade shapes (including automatic crossfades) */}
+                                        {(clipFades.fadeIn > 0 || clipFades.fadeOut > 0) && (
+                                            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                                <path d={fadeOverlayPath(clipFades, clip.duration)} fill="rgba(15, 23, 42, 0.55)" stroke="white" strokeOpacity={0.6} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                                            </svg>
+                                        )}
+                                        <div className="absolute top-1 left-2 text-[10px] font-mono text-white/90 truncate max-w-full pointer-events-none select-none drop-shadow-md font-bold">
+                                            {track.file.name}
+                                        </div>
+                                        {isClipProcessed(clip) && (
+                                            <div className="absolute bottom-1 left-2 text-[9px] font-mono px-1 rounded bg-slate-900/70 text-emerald-300 pointer-events-none select-none">
+                                                {clip.stretch !== 1 && `${Math.round(clip.stretch * 100)}%`}
+                                                {clip.stretch !== 1 && clip.pitch !== 0 && ' · '}
+                                                {clip.pitch !== 0 && formatPitch(clip.pitch)}
+                                            </div>
+                                        )}
+                                        {/* Fade handles */}
+                                        <div
+                                            className="absolute top-0 w-2.5 h-2.5 bg-white border border-slate-900 rounded-sm cursor-col-resize z-10 opacity-0 group-hover/clip:opacity-100"
+                                            style={{ left: clip.fadeIn * pixelsPerSecond - 5 }}
+                                            title="Fade in"
+                                            onMouseDown={(e) => handleMouseDown(e, track, clip, 'fadeIn')}
+                                        />
+                                        <div
+                                            className="absolute top-0 w-2.5 h-2.5 bg-white border border-slate-900 rounded-sm cursor-col-resize z-10 opacity-0 group-hover/clip:opacity-100"
+                                            style={{ right: clip.fadeOut * pixelsPerSecond - 5 }}
+                                            title="Fade out"
+                                            onMouseDown={(e) => handleMouseDown(e, track, clip, 'fadeOut')}
+                                        />
+                                        {/* Trim handles */}
+                                        <div
+                                            className="absolute top-0 bottom-0 left-0 w-2 cursor-ew-resize opacity-0 group-hover/clip:opacity-100 bg-white/30"
+                                            onMouseDown={(e) => handleMouseDown(e, track, clip, 'trimStart')}
+                                        />
+                                        <div
+                                            className="absolute top-0 bottom-0 right-0 w-2 cursor-ew-resize opacity-0 group-hover/clip:opacity-100 bg-white/30"
+                                            onMouseDown={(e) => handleMouseDown(e, track, clip, 'trimEnd')}
+                                        />
                                     </div>
-                                </div>
+                                    );
+                                })}
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                     
                     {/* Drop zone placeholder / Empty state */}
                     {tracks.length === 0 && (
@@ -286,6 +588,49 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
                     className="fixed z-50 bg-slate-800 border border-slate-600 shadow-xl rounded-md py-1 min-w-[120px]"
                     style={{ top: contextMenu.y, left: contextMenu.x }}
                 >
+                    <button
+                        className="w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700"
+                        onClick={() => applyClipAction((track, clipId) => splitClip(track, clipId, currentTime))}
+                    >
+                        Tách tại đầu phát
+                    </button>
+                    <button
+                        className="w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700"
+                        onClick={() => applyClipAction(duplicateClip)}
+                    >
+                        Nhân bản clip
+                    </button>
+                    <button
+                        className="w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700"
+                        onClick={() => {
+                            setTimePitchPanel({ x: contextMenu.x, y: contextMenu.y, trackId: contextMenu.trackId, clipId: contextMenu.clipId });
+                            setContextMenu(null);
+                        }}
+                    >
+                        Tempo / cao độ...
+                    </button>
+                    <button
+                        className="w-full text-left px-4 py-2 text-sm text-slate-200 hover:bg-slate-700"
+                        onClick={() => applyClipAction(removeClip)}
+                    >
+                        Xóa clip
+                    </button>
+                    {menuClip && (['fadeInCurve', 'fadeOutCurve'] as const).map(field => (
+                        <div key={field} className="px-4 py-1 border-t border-slate-700">
+                            <div className="text-[10px] uppercase text-slate-500 mb-1">{field === 'fadeInCurve' ? 'Fade in' : 'Fade out'}</div>
+                            <div className="flex gap-1">
+                                {FADE_CURVES.map(curve => (
+                                    <button
+                                        key={curve.value}
+                                        className={`text-[10px] px-2 py-0.5 rounded border ${menuClip[field] === curve.value ? 'bg-amber-600 border-amber-500 text-white' : 'bg-slate-700 border-slate-600 text-slate-300 hover:text-white'}`}
+                                        onClick={() => setFadeCurve(field, curve.value)}
+                                    >
+                                        {curve.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
                     <button 
                         className="w-full text-left px-4 py-2 text-sm text-red-400 hover:bg-slate-700 flex items-center gap-2"
                         onClick={() => {
@@ -294,11 +639,41 @@ export const MultiTrackTimeline: React.FC<MultiTrackTimelineProps> = ({
                         }}
                     >
                         <TrashIcon className="w-4 h-4" />
-                        Xóa File
+                        Xóa track
                     </button>
                 </div>
             )}
             
+            {/* Insert effects */}
+            {insertsPanel && (() => {
+                const track = tracks.find(t => t.id === insertsPanel.trackId);
+                return track && (
+                    <TrackInserts
+                        track={track}
+                        x={insertsPanel.x}
+                        y={insertsPanel.y}
+                        onChange={(inserts) => onUpdateTrack(track.id, { inserts })}
+                        onClose={() => setInsertsPanel(null)}
+                    />
+                );
+            })()}
+            
+            {/* Clip time-stretch and pitch */}
+            {timePitchPanel && (() => {
+                const track = tracks.find(t => t.id === timePitchPanel.trackId);
+                const clip = track?.clips.find(c => c.id === timePitchPanel.clipId);
+                return track && clip && (
+                    <ClipTimePitch
+                        clip={clip}
+                        title={track.file.name}
+                        x={timePitchPanel.x}
+                        y={timePitchPanel.y}
+                        onChange={(updates) => updateTimePitch(track.id, clip.id, updates)}
+                        onClose={() => setTimePitchPanel(null)}
+                    />
+                );
+            })()}
+
             {/* Styles for custom scrollbar */}
             <style>{`
                 .custom-scrollbar::-webkit-scrollbar {
@@ -0,0 +1,57 @@
+
+import React from 'react';
+import type { NoiseReductionSettings, SelectionRange } from '../types';
+import { PreviewButton } from './EffectPreview';
+
+interface NoiseReductionPanelProps {
+    settings: NoiseReductionSettings;
+    onChange: (settings: NoiseReductionSettings) => void;
+    sampleRange: SelectionRange | null; // Region the current noise profile was learned from
+    disabled: boolean;
+    onLearn: () => void;
+    onClearProfile: () => void;
+    onApply: () => void;
+    previewing: boolean;
+    onPreviewToggle: () => void;
+}
+
+// Noise profile capture plus the reduction amount and smoothing of the spectral denoiser
+export const NoiseReductionPanel: React.FC<NoiseReductionPanelProps> = ({ settings, onChange, sampleRange, disabled, onLearn, onClearProfile, onApply, previewing, onPreviewToggle }) => (
+    <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2 text-[11px]">
+            {sampleRange ? (
+                <>
+                    <span className="text-emerald-400 font-mono">Mẫu: {sampleRange.start.toFixed(2)}s – {sampleRange.end.toFixed(2)}s</span>
+                    <button onClick={onClearProfile} disabled={disabled} className="text-slate-400 hover:text-white">Bỏ mẫu</button>
+                </>
+            ) : (
+                <span className="text-slate-500">Chưa có mẫu — tự ước lượng từ đoạn yên tĩnh nhất</span>
+            )}
+        </div>
+        <label className="flex items-center gap-2 text-[11px] text-slate-400">
+            <span className="w-16">Mức giảm</span>
+            <input
+                type="range" min="0" max="40" step="1"
+                value={settings.reduction}
+                onChange={(e) => onChange({ ...settings, reduction: parseFloat(e.target.value) })}
+                className="flex-grow accent-amber-500"
+            />
+            <span className="w-12 text-right font-mono text-slate-200">{settings.reduction} dB</span>
+        </label>
+        <label className="flex items-center gap-2 text-[11px] text-slate-400">
+            <span className="w-16">Làm mượt</span>
+            <input
+                type="range" min="0" max="1" step="0.05"
+                value={settings.smoothing}
+                onChange={(e) => onChange({ ...settings, smoothing: parseFloat(e.target.value) })}
+                className="flex-grow accent-amber-500"
+            />
+            <span className="w-12 text-right font-mono text-slate-200">{Math.round(settings.smoothing * 100)}%</span>
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+            <button onClick={onLearn} disabled={disabled} title="Chọn một đoạn chỉ có tiếng ồn" className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Lấy mẫu nhiễu</button>
+            <PreviewButton active={previewing} onToggle={onPreviewToggle} />
+            <button onClick={onApply} disabled={disabled} className="bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded">Khử nhiễu</button>
+        </div>
+    </div>
+);
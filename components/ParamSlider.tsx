@@ -0,0 +1,37 @@
+
+import React from 'react';
+
+// Slider bound to one numeric field of a settings object
+export interface ParamSpec<T> {
+    key: keyof T;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+    log?: boolean; // Logarithmic travel, for frequencies
+}
+
+const LOG_STEPS = 1000;
+
+export const ParamSlider = <T,>({ spec, settings, onChange }: { spec: ParamSpec<T>, settings: T, onChange: (updates: Partial<T>) => void }) => {
+    const value = settings[spec.key] as unknown as number;
+    const ratio = spec.max / spec.min;
+    const toPosition = (v: number) => spec.log ? Math.round(Math.log(v / spec.min) / Math.log(ratio) * LOG_STEPS) : v;
+    const fromPosition = (p: number) => spec.log ? Math.round(spec.min * Math.pow(ratio, p / LOG_STEPS) / spec.step) * spec.step : p;
+    return (
+        <div>
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-500">{spec.label}</span>
+                <span className="text-[10px] text-slate-300">{spec.format(value)}</span>
+            </div>
+            <input
+                type="range"
+                min={spec.log ? 0 : spec.min} max={spec.log ? LOG_STEPS : spec.max} step={spec.log ? 1 : spec.step}
+                value={toPosition(value)}
+                onChange={(e) => onChange({ [spec.key]: fromPosition(parseFloat(e.target.value)) } as unknown as Partial<T>)}
+                className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+            />
+        </div>
+    );
+};
@@ -0,0 +1,26 @@
+
+import React from 'react';
+
+interface ProcessingProgressProps {
+    progress: number | null; // 0..1, or null while the task has not reported any
+    onCancel?: () => void; // Tasks that cannot be cancelled have no button
+}
+
+// Progress of the running task across the top of the work area. The waveform and timeline
+// below stay visible; the controls that would start another task are disabled meanwhile.
+export const ProcessingProgress: React.FC<ProcessingProgressProps> = ({ progress, onCancel }) => (
+    <div className="absolute top-0 inset-x-0 z-50 bg-gray-900/90 border-b border-gray-700 px-4 py-2 flex items-center gap-3">
+        <span className="text-xs text-slate-300 whitespace-nowrap w-28">
+            Đang xử lý{progress !== null ? ` ${Math.round(progress * 100)}%` : '...'}
+        </span>
+        <div className="flex-grow h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div
+                className={`h-full bg-amber-500 ${progress === null ? 'w-1/3 animate-pulse' : 'transition-[width] duration-150'}`}
+                style={progress !== null ? { width: `${progress * 100}%` } : undefined}
+            />
+        </div>
+        {onCancel && (
+            <button onClick={onCancel} className="bg-slate-700 hover:bg-red-600 text-xs px-3 py-1 rounded">Hủy</button>
+        )}
+    </div>
+);
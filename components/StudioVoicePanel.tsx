@@ -0,0 +1,130 @@
+
+import React, { useState } from 'react';
+import type { DeEsserSettings, StudioVoicePreset, StudioVoiceSettings } from '../types';
+import { ParamSlider, type ParamSpec } from './ParamSlider';
+import { EqEditor } from './EqPanel';
+import { COMPRESSOR_PARAMS } from './TrackInserts';
+import { TrashIcon } from './icons';
+import { PreviewButton } from './EffectPreview';
+
+interface StudioVoicePanelProps {
+    settings: StudioVoiceSettings;
+    onChange: (settings: StudioVoiceSettings) => void;
+    sampleRate: number;
+    presets: StudioVoicePreset[]; // Built-in first, then the user's
+    onSavePreset: (name: string) => void;
+    onDeletePreset: (id: string) => void;
+    previewing: boolean;
+    onPreviewToggle: () => void;
+    disabled: boolean;
+    onApply: () => void;
+}
+
+const DE_ESSER_PARAMS: ParamSpec<DeEsserSettings>[] = [
+    { key: 'frequency', label: 'Tần số', min: 2000, max: 12000, step: 10, format: v => `${(v / 1000).toFixed(1)} kHz`, log: true },
+    { key: 'threshold', label: 'Ngưỡng', min: -60, max: 0, step: 1, format: v => `${v} dB` },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: v => `${v}:1` },
+];
+
+const OUTPUT_PARAMS: ParamSpec<StudioVoiceSettings>[] = [
+    { key: 'makeup', label: 'Makeup gain', min: 0, max: 24, step: 0.5, format: v => `+${v} dB` },
+    { key: 'ceiling', label: 'Ngưỡng limiter', min: -12, max: 0, step: 0.1, format: v => `${v.toFixed(1)} dBTP` },
+];
+
+const Section: React.FC<{ title: string, enabled?: boolean, onToggle?: (enabled: boolean) => void, children: React.ReactNode }> = ({ title, enabled, onToggle, children }) => (
+    <div className="bg-slate-800/50 p-2 rounded space-y-1">
+        <label className="flex items-center justify-between">
+            <span className="text-[11px] font-semibold text-slate-300">{title}</span>
+            {onToggle && <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} className="accent-amber-500" />}
+        </label>
+        <div className={enabled === false ? 'opacity-50 pointer-events-none space-y-1' : 'space-y-1'}>{children}</div>
+    </div>
+);
+
+// Settings of the "Giọng Studio" chain with built-in and user presets
+export const StudioVoicePanel: React.FC<StudioVoicePanelProps> = ({ settings, onChange, sampleRate, presets, onSavePreset, onDeletePreset, previewing, onPreviewToggle, disabled, onApply }) => {
+    const [presetId, setPresetId] = useState<string>('');
+    const [presetName, setPresetName] = useState<string>('');
+    const selectedPreset = presets.find(p => p.id === presetId);
+
+    const update = (updates: Partial<StudioVoiceSettings>) => {
+        setPresetId('');
+        onChange({ ...settings, ...updates });
+    };
+
+    const choosePreset = (id: string) => {
+        const preset = presets.find(p => p.id === id);
+        if (!preset) return;
+        setPresetId(id);
+        setPresetName(preset.builtIn ? '' : preset.name);
+        onChange(preset.settings);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-1">
+                <select
+                    value={presetId}
+                    onChange={(e) => choosePreset(e.target.value)}
+                    className="flex-grow bg-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+                >
+                    <option value="">— Tùy chỉnh —</option>
+                    {presets.map(p => <option key={p.id} value={p.id}>{p.builtIn ? p.name : `★ ${p.name}`}</option>)}
+                </select>
+                {selectedPreset && !selectedPreset.builtIn && (
+                    <button onClick={() => { onDeletePreset(selectedPreset.id); setPresetId(''); }} title="Xóa preset" className="px-2 text-slate-400 hover:text-red-400">
+                        <TrashIcon className="w-3 h-3" />
+                    </button>
+                )}
+            </div>
+
+            <Section title="De-esser" enabled={settings.deEsser.enabled} onToggle={enabled => update({ deEsser: { ...settings.deEsser, enabled } })}>
+                {DE_ESSER_PARAMS.map(spec => (
+                    <div key={spec.key}>
+                        <ParamSlider spec={spec} settings={settings.deEsser} onChange={updates => update({ deEsser: { ...settings.deEsser, ...updates } })} />
+                    </div>
+                ))}
+            </Section>
+
+            <Section title="EQ">
+                <EqEditor bands={settings.eq} onChange={eq => update({ eq })} sampleRate={sampleRate} />
+            </Section>
+
+            <Section title="Compressor" enabled={settings.compressorEnabled} onToggle={compressorEnabled => update({ compressorEnabled })}>
+                {COMPRESSOR_PARAMS.map(spec => (
+                    <div key={spec.key}>
+                        <ParamSlider spec={spec} settings={settings.compressor} onChange={updates => update({ compressor: { ...settings.compressor, ...updates } })} />
+                    </div>
+                ))}
+            </Section>
+
+            <Section title="Limiter" enabled={settings.limiterEnabled} onToggle={limiterEnabled => update({ limiterEnabled })}>
+                {OUTPUT_PARAMS.map(spec => (
+                    <div key={spec.key}>
+                        <ParamSlider spec={spec} settings={settings} onChange={update} />
+                    </div>
+                ))}
+            </Section>
+
+            <div className="flex gap-1">
+                <input
+                    type="text"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    placeholder="Tên preset"
+                    className="flex-grow min-w-0 bg-slate-700 rounded px-2 py-1 text-xs"
+                />
+                <button
+                    onClick={() => onSavePreset(presetName.trim())}
+                    disabled={!presetName.trim()}
+                    className="bg-slate-700 hover:bg-slate-600 text-xs px-2 rounded disabled:opacity-50"
+                >Lưu preset</button>
+            </div>
+
+            <div className="flex gap-2">
+                <PreviewButton active={previewing} onToggle={onPreviewToggle} />
+                <button onClick={onApply} disabled={disabled} className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white text-xs py-2 rounded">Áp dụng</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+
+import React from 'react';
+import type { Clip } from '../types';
+import { PITCH_RANGE, STRETCH_RANGE } from '../utils/timeStretch';
+import { ParamSlider, type ParamSpec } from './ParamSlider';
+import { PreviewButton } from './EffectPreview';
+
+// Time-stretch factor and pitch shift in semitones, as stored on a Studio clip
+export type TimePitch = Pick<Clip, 'stretch' | 'pitch'>;
+
+const STRETCH_PARAM: ParamSpec<TimePitch> = {
+    key: 'stretch', label: 'Độ dài', min: STRETCH_RANGE.min, max: STRETCH_RANGE.max, step: 0.01, log: true,
+    format: v => `${Math.round(v * 100)}% · tempo ${Math.round(100 / v)}%`,
+};
+
+interface PitchParts {
+    semitones: number;
+    cents: number;
+}
+
+const PITCH_PARAMS: ParamSpec<PitchParts>[] = [
+    { key: 'semitones', label: 'Bán cung', min: -PITCH_RANGE, max: PITCH_RANGE, step: 1, format: v => v > 0 ? `+${v}` : `${v}` },
+    { key: 'cents', label: 'Cent', min: -50, max: 50, step: 1, format: v => v > 0 ? `+${v}` : `${v}` },
+];
+
+const splitPitch = (pitch: number): PitchParts => {
+    const semitones = Math.round(pitch);
+    return { semitones, cents: Math.round((pitch - semitones) * 100) };
+};
+
+const PitchSliders: React.FC<{ pitch: number, onChange: (pitch: number) => void }> = ({ pitch, onChange }) => {
+    const parts = splitPitch(pitch);
+    return (
+        <>
+            {PITCH_PARAMS.map(spec => (
+                <div key={spec.key}>
+                    <ParamSlider spec={spec} settings={parts} onChange={updates => {
+                        const next = { ...parts, ...updates };
+                        onChange(next.semitones + next.cents / 100);
+                    }} />
+                </div>
+            ))}
+        </>
+    );
+};
+
+interface TimePitchPanelProps {
+    settings: TimePitch;
+    onChange: (updates: Partial<TimePitch>) => void;
+    previewing: boolean; // Pitch shift only; stretching changes the length
+    onPreviewToggle: () => void;
+    disabled: boolean;
+    onApplyStretch: () => void;
+    onApplyPitch: () => void;
+}
+
+// The Editor's time-stretch and pitch-shift effects, applied separately
+export const TimePitchPanel: React.FC<TimePitchPanelProps> = ({ settings, onChange, previewing, onPreviewToggle, disabled, onApplyStretch, onApplyPitch }) => (
+    <div className="space-y-2">
+        <ParamSlider spec={STRETCH_PARAM} settings={settings} onChange={onChange} />
+        <div className="flex gap-2">
+            <button onClick={() => onChange({ stretch: 1 })} className="bg-slate-700 hover:bg-slate-600 text-xs px-2 py-2 rounded">100%</button>
+            <button onClick={onApplyStretch} disabled={disabled || settings.stretch === 1} className="flex-1 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">Co giãn thời gian</button>
+        </div>
+        <PitchSliders pitch={settings.pitch} onChange={pitch => onChange({ pitch })} />
+        <div className="flex gap-2">
+            <PreviewButton active={previewing} onToggle={onPreviewToggle} />
+            <button onClick={onApplyPitch} disabled={disabled || settings.pitch === 0} className="flex-1 bg-slate-700 hover:bg-slate-600 text-xs py-2 rounded disabled:opacity-50">Đổi cao độ</button>
+        </div>
+    </div>
+);
+
+interface ClipTimePitchProps {
+    clip: Clip;
+    title: string;
+    x: number;
+    y: number;
+    onChange: (updates: Partial<TimePitch>) => void;
+    onClose: () => void;
+}
+
+// Non-destructive time-stretch and pitch of one Studio clip
+export const ClipTimePitch: React.FC<ClipTimePitchProps> = ({ clip, title, x, y, onChange, onClose }) => (
+    <div
+        className="fixed z-50 w-64 bg-slate-800 border border-slate-600 shadow-xl rounded-md p-3 space-y-2"
+        style={{ top: y, left: x }}
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+    >
+        <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-slate-300 truncate" title={title}>Tempo / cao độ · {title}</span>
+            <button onClick={onClose} className="text-slate-400 hover:text-white text-sm px-1">✕</button>
+        </div>
+        <ParamSlider spec={STRETCH_PARAM} settings={clip} onChange={onChange} />
+        <PitchSliders pitch={clip.pitch} onChange={pitch => onChange({ pitch })} />
+        <button
+            onClick={() => onChange({ stretch: 1, pitch: 0 })}
+            disabled={clip.stretch === 1 && clip.pitch === 0}
+            className="w-full bg-slate-700 hover:bg-slate-600 text-[11px] py-1 rounded disabled:opacity-50"
+        >Đặt lại</button>
+    </div>
+);
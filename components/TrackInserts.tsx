@@ -0,0 +1,130 @@
+
+import React from 'react';
+import type { CompressorSettings, EqSettings, Track, TrackInsert } from '../types';
+import { TrashIcon, PlusIcon } from './icons';
+import { createInsert } from '../utils/tracks';
+import { ParamSlider, type ParamSpec } from './ParamSlider';
+
+interface TrackInsertsProps {
+    track: Track;
+    x: number;
+    y: number;
+    onChange: (inserts: TrackInsert[]) => void;
+    onClose: () => void;
+}
+
+const EQ_TYPES: { value: BiquadFilterType, label: string }[] = [
+    { value: 'peaking', label: 'Peak' },
+    { value: 'lowshelf', label: 'Low shelf' },
+    { value: 'highshelf', label: 'High shelf' },
+    { value: 'lowpass', label: 'Low pass' },
+    { value: 'highpass', label: 'High pass' },
+    { value: 'notch', label: 'Notch' },
+];
+
+const EQ_PARAMS: ParamSpec<EqSettings>[] = [
+    { key: 'frequency', label: 'Tần số', min: 20, max: 20000, step: 1, format: v => v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${Math.round(v)} Hz` },
+    { key: 'gain', label: 'Gain', min: -24, max: 24, step: 0.5, format: v => `${v} dB` },
+    { key: 'q', label: 'Q', min: 0.1, max: 18, step: 0.1, format: v => v.toFixed(1) },
+];
+
+export const COMPRESSOR_PARAMS: ParamSpec<CompressorSettings>[] = [
+    { key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 1, format: v => `${v} dB` },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: v => `${v}:1` },
+    { key: 'knee', label: 'Knee', min: 0, max: 40, step: 1, format: v => `${v} dB` },
+    { key: 'attack', label: 'Attack', min: 0, max: 1, step: 0.001, format: v => `${Math.round(v * 1000)} ms` },
+    { key: 'release', label: 'Release', min: 0, max: 1, step: 0.01, format: v => `${Math.round(v * 1000)} ms` },
+];
+
+// Insert effect rack of one Studio track, processed top to bottom before volume and pan
+export const TrackInserts: React.FC<TrackInsertsProps> = ({ track, x, y, onChange, onClose }) => {
+    const updateInsert = (id: string, updates: Partial<TrackInsert>) => {
+        onChange(track.inserts.map(insert => insert.id === id ? { ...insert, ...updates } as TrackInsert : insert));
+    };
+
+    const updateSettings = (insert: TrackInsert, updates: Partial<EqSettings> | Partial<CompressorSettings>) => {
+        updateInsert(insert.id, { settings: { ...insert.settings, ...updates } } as Partial<TrackInsert>);
+    };
+
+    const moveInsert = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= track.inserts.length) return;
+        const inserts = [...track.inserts];
+        [inserts[index], inserts[target]] = [inserts[target], inserts[index]];
+        onChange(inserts);
+    };
+
+    return (
+        <div
+            className="fixed z-50 w-64 max-h-[70vh] overflow-y-auto bg-slate-800 border border-slate-600 shadow-xl rounded-md p-3 space-y-3"
+            style={{ top: y, left: x }}
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold text-slate-300 truncate" title={track.file.name}>FX · {track.file.name}</span>
+                <button onClick={onClose} className="text-slate-400 hover:text-white text-sm px-1">✕</button>
+            </div>
+
+            {track.inserts.length === 0 && (
+                <p className="text-[11px] text-slate-500">Chưa có hiệu ứng nào trên track này.</p>
+            )}
+
+            {track.inserts.map((insert, index) => (
+                <div key={insert.id} className={`rounded border border-slate-700 p-2 space-y-1 ${insert.enabled ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => updateInsert(insert.id, { enabled: !insert.enabled })}
+                            className={`text-[10px] px-1.5 py-0.5 rounded border ${insert.enabled ? 'bg-green-500/20 border-green-500 text-green-400' : 'bg-slate-700 border-slate-600 text-slate-400'}`}
+                            title={insert.enabled ? 'Bỏ qua (bypass)' : 'Bật'}
+                        >
+                            {insert.enabled ? 'ON' : 'OFF'}
+                        </button>
+                        <span className="text-xs text-slate-200 flex-grow">{insert.type === 'eq' ? 'EQ' : 'Compressor'}</span>
+                        <button onClick={() => moveInsert(index, -1)} disabled={index === 0} className="text-[10px] text-slate-400 hover:text-white disabled:opacity-30 px-1">▲</button>
+                        <button onClick={() => moveInsert(index, 1)} disabled={index === track.inserts.length - 1} className="text-[10px] text-slate-400 hover:text-white disabled:opacity-30 px-1">▼</button>
+                        <button onClick={() => onChange(track.inserts.filter(i => i.id !== insert.id))} className="text-slate-500 hover:text-red-400">
+                            <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+
+                    {insert.type === 'eq' ? (
+                        <>
+                            <select
+                                value={insert.settings.type}
+                                onChange={(e) => updateSettings(insert, { type: e.target.value as BiquadFilterType })}
+                                className="w-full bg-slate-900 border border-slate-600 rounded text-[11px] text-slate-200 px-1 py-0.5"
+                            >
+                                {EQ_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            </select>
+                            {EQ_PARAMS.map(spec => (
+                                <div key={spec.key}>
+                                    <ParamSlider spec={spec} settings={insert.settings} onChange={updates => updateSettings(insert, updates)} />
+                                </div>
+                            ))}
+                        </>
+                    ) : (
+                        COMPRESSOR_PARAMS.map(spec => (
+                            <div key={spec.key}>
+                                <ParamSlider spec={spec} settings={insert.settings} onChange={updates => updateSettings(insert, updates)} />
+                            </div>
+                        ))
+                    )}
+                </div>
+            ))}
+
+            <div className="flex gap-2">
+                {(['eq', 'compressor'] as const).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => onChange([...track.inserts, createInsert(type)])}
+                        className="flex-1 flex items-center justify-center gap-1 text-[11px] py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+                    >
+                        <PlusIcon className="w-3 h-3" />
+                        {type === 'eq' ? 'EQ' : 'Compressor'}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,22 +1,60 @@
-import React, { useRef, useEffect, useMemo, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as d3 from 'd3';
-import type { SelectionRange } from '../types';
+import type { SelectionRange, EditCommand, Marker } from '../types';
+import { getPeaks } from '../utils/peaks';
+import { addMarker, dragMarker, updateMarker, type MarkerDragMode } from '../utils/markers';
 
 interface WaveformProps {
     audioBuffer: AudioBuffer;
     selection: SelectionRange;
     onSelectionChange: (newSelection: SelectionRange) => void;
     currentTime: number;
+    canPaste?: boolean;
+    onEditCommand?: (command: EditCommand, time: number) => void;
+    gainPreview?: GainPreview | null;
+    markers?: Marker[];
+    onMarkersChange?: (markers: Marker[]) => void;
+}
+
+// Per-sample linear gain of an effect, starting `start` seconds into the buffer
+export interface GainPreview {
+    start: number;
+    gains: Float32Array;
+}
+
+interface ViewRange {
+    start: number;
+    end: number;
 }
 
-const WAVEFORM_HEIGHT = 200;
 const AXIS_HEIGHT = 30;
-const TOTAL_HEIGHT = WAVEFORM_HEIGHT + AXIS_HEIGHT;
+const SCROLLBAR_HEIGHT = 12;
+const DEFAULT_SIZE = { width: 800, height: 230 };
+const MAX_PIXELS_PER_SAMPLE = 20; // Deepest zoom level
+const SAMPLE_DOTS_PIXELS = 5; // Draw individual sample points beyond this zoom
+const GAIN_PREVIEW_RANGE = 60; // dB of gain reduction spanning the full waveform height
+
+const clampView = (start: number, end: number, duration: number, minSpan: number): ViewRange => {
+    const span = Math.min(duration, Math.max(minSpan, end - start));
+    const clampedStart = Math.max(0, Math.min(start, duration - span));
+    return { start: clampedStart, end: clampedStart + span };
+};
 
-const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelectionChange, currentTime }) => {
+const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelectionChange, currentTime, canPaste, onEditCommand, gainPreview, markers = [], onMarkersChange }) => {
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const dimensions = { width: 800, height: TOTAL_HEIGHT };
+    const scrollbarRef = useRef<HTMLDivElement>(null);
+    const [dimensions, setDimensions] = useState(DEFAULT_SIZE);
+    const waveformHeight = Math.max(60, dimensions.height - AXIS_HEIGHT - SCROLLBAR_HEIGHT);
+    const svgHeight = waveformHeight + AXIS_HEIGHT;
+
+    const duration = audioBuffer.duration;
+    const minSpan = dimensions.width / (MAX_PIXELS_PER_SAMPLE * audioBuffer.sampleRate);
+    const [view, setView] = useState<ViewRange>({ start: 0, end: duration });
+    const prevDurationRef = useRef(duration);
+    const [scrollDrag, setScrollDrag] = useState<{ startX: number, initialStart: number } | null>(null);
+    const [markerDrag, setMarkerDrag] = useState<{ startX: number, mode: MarkerDragMode, initial: Marker } | null>(null);
+    const markerMovedRef = useRef(false);
 
     const [contextMenu, setContextMenu] = useState<{
         visible: boolean;
@@ -25,59 +63,176 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
         time: number;
     } | null>(null);
 
-    const downsampledData = useMemo(() => {
-        const rawData = audioBuffer.getChannelData(0);
-        const samples = Math.floor(dimensions.width);
-        const blockSize = Math.floor(rawData.length / samples);
-        const filteredData = [];
-        for (let i = 0; i < samples; i++) {
-            const blockStart = blockSize * i;
-            let sum = 0;
-            for (let j = 0; j < blockSize; j++) {
-                sum += Math.abs(rawData[blockStart + j]);
+    // Track the container size so one SVG unit is one screen pixel
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(entries => {
+            const { width, height } = entries[0].contentRect;
+            if (width > 0 && height > 0) {
+                setDimensions({ width: Math.floor(width), height: Math.floor(height) });
             }
-            filteredData.push(sum / blockSize);
-        }
-        return filteredData;
-    }, [audioBuffer, dimensions.width]);
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
 
+    // Keep the view valid when the buffer changes (edits, new file); a fully zoomed-out view stays full
+    useEffect(() => {
+        const wasFull = (v: ViewRange) => v.start <= 0 && v.end >= prevDurationRef.current - 1e-6;
+        setView(v => wasFull(v) ? { start: 0, end: duration } : clampView(v.start, v.end, duration, minSpan));
+        prevDurationRef.current = duration;
+    }, [duration, minSpan]);
+
+    const getXScale = useCallback(() => d3.scaleLinear()
+        .domain([view.start, view.end])
+        .range([0, dimensions.width]), [view, dimensions.width]);
+
+    const zoomAround = useCallback((time: number, factor: number) => {
+        setView(v => {
+            const span = (v.end - v.start) * factor;
+            const ratio = (time - v.start) / (v.end - v.start);
+            return clampView(time - span * ratio, time - span * ratio + span, duration, minSpan);
+        });
+    }, [duration, minSpan]);
+
+    // Wheel / pinch zoom around the cursor, horizontal wheel (or Shift) scrolls
+    useEffect(() => {
+        const el = svgRef.current;
+        if (!el) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const xScale = getXScale();
+            const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+            if (horizontal) {
+                const delta = e.shiftKey && e.deltaX === 0 ? e.deltaY : e.deltaX;
+                const shift = xScale.invert(delta) - xScale.invert(0);
+                setView(v => clampView(v.start + shift, v.end + shift, duration, minSpan));
+            } else {
+                const rect = el.getBoundingClientRect();
+                const time = xScale.invert(e.clientX - rect.left);
+                // Pinch gestures arrive as ctrl+wheel with small deltas, so they zoom faster
+                const zoomSpeed = e.ctrlKey ? 0.01 : 0.002;
+                zoomAround(time, Math.exp(e.deltaY * zoomSpeed));
+            }
+        };
+        el.addEventListener('wheel', handleWheel, { passive: false });
+        return () => el.removeEventListener('wheel', handleWheel);
+    }, [getXScale, zoomAround, duration, minSpan]);
 
     useEffect(() => {
-        if (!svgRef.current || !downsampledData.length) return;
+        if (!svgRef.current) return;
 
         const svg = d3.select(svgRef.current);
-        svg.selectAll("*").remove(); 
-
-        const xScale = d3.scaleLinear()
-            .domain([0, audioBuffer.duration])
-            .range([0, dimensions.width]);
-
-        const yScale = d3.scaleLinear()
-            .domain([0, d3.max(downsampledData) || 1])
-            .range([WAVEFORM_HEIGHT, 0]);
-        
-        const pathData = downsampledData.map((d, i) => {
-            const x = xScale(i * (audioBuffer.duration / downsampledData.length));
-            const y0 = WAVEFORM_HEIGHT / 2 + (yScale(0) - yScale(d)) / 2;
-            const y1 = WAVEFORM_HEIGHT / 2 - (yScale(0) - yScale(d)) / 2;
-            return `M${x},${y1} L${x},${y0}`;
-        }).join(' ');
-
-        svg.append('path')
-            .attr('d', pathData)
-            .attr('stroke', '#f59e0b')
-            .attr('stroke-width', 1);
+        svg.selectAll("*").remove();
+
+        const { width } = dimensions;
+        const xScale = getXScale();
+        const channels = audioBuffer.numberOfChannels;
+        const laneHeight = waveformHeight / channels;
+        const startSample = Math.max(0, Math.floor(view.start * audioBuffer.sampleRate));
+        const endSample = Math.min(audioBuffer.length, Math.ceil(view.end * audioBuffer.sampleRate));
+        const pixelsPerSample = width / Math.max(1, endSample - startSample);
+
+        for (let ch = 0; ch < channels; ch++) {
+            const laneTop = ch * laneHeight;
+            const yScale = d3.scaleLinear()
+                .domain([-1, 1])
+                .range([laneTop + laneHeight - 2, laneTop + 2]);
+
+            const lane = svg.append('g').attr('class', 'lane');
+            lane.append('line')
+                .attr('x1', 0).attr('x2', width)
+                .attr('y1', yScale(0)).attr('y2', yScale(0))
+                .attr('stroke', '#374151');
+            if (ch > 0) {
+                lane.append('line')
+                    .attr('x1', 0).attr('x2', width)
+                    .attr('y1', laneTop).attr('y2', laneTop)
+                    .attr('stroke', '#4b5563');
+            }
+
+            if (pixelsPerSample >= 1) {
+                // Sample level: connect the actual sample values
+                const data = audioBuffer.getChannelData(ch);
+                const points: [number, number][] = [];
+                for (let i = startSample; i < endSample; i++) {
+                    points.push([xScale(i / audioBuffer.sampleRate), yScale(data[i])]);
+                }
+                lane.append('path')
+                    .attr('d', d3.line()(points))
+                    .attr('fill', 'none')
+                    .attr('stroke', '#f59e0b')
+                    .attr('stroke-width', 1);
+                if (pixelsPerSample >= SAMPLE_DOTS_PIXELS) {
+                    lane.selectAll('circle')
+                        .data(points)
+                        .enter()
+                        .append('circle')
+                        .attr('cx', (d: [number, number]) => d[0])
+                        .attr('cy', (d: [number, number]) => d[1])
+                        .attr('r', 2)
+                        .attr('fill', '#fbbf24');
+                }
+            } else {
+                // Min/max envelope, one pair per pixel column
+                const { min, max } = getPeaks(audioBuffer, ch, startSample, endSample, width);
+                const area = d3.area()
+                    .x((_d: [number, number], i: number) => i)
+                    .y0((d: [number, number]) => yScale(d[0]) + 0.5)
+                    .y1((d: [number, number]) => yScale(d[1]) - 0.5);
+                const columns: [number, number][] = Array.from(min, (lo, i) => [lo, max[i]]);
+                lane.append('path')
+                    .attr('d', area(columns))
+                    .attr('fill', '#f59e0b');
+            }
+        }
+
+        if (gainPreview && gainPreview.gains.length > 0) {
+            // Gain reduction hangs from the top edge: deepest reduction per pixel column
+            const sampleRate = audioBuffer.sampleRate;
+            const previewStart = Math.round(gainPreview.start * sampleRate);
+            const previewEnd = previewStart + gainPreview.gains.length;
+            const firstX = Math.max(0, Math.floor(xScale(previewStart / sampleRate)));
+            const lastX = Math.min(width, Math.ceil(xScale(previewEnd / sampleRate)));
+            const points: [number, number][] = [];
+            for (let x = firstX; x < lastX; x++) {
+                const from = Math.max(previewStart, Math.floor(xScale.invert(x) * sampleRate));
+                const to = Math.min(previewEnd, Math.max(from + 1, Math.floor(xScale.invert(x + 1) * sampleRate)));
+                let gain = 1;
+                for (let i = from; i < to; i++) gain = Math.min(gain, gainPreview.gains[i - previewStart]);
+                const reduction = gain > 0 ? Math.min(GAIN_PREVIEW_RANGE, -20 * Math.log10(gain)) : GAIN_PREVIEW_RANGE;
+                points.push([x, reduction / GAIN_PREVIEW_RANGE * waveformHeight]);
+            }
+            if (points.length > 0) {
+                const area = d3.area()
+                    .x((d: [number, number]) => d[0])
+                    .y0(0)
+                    .y1((d: [number, number]) => d[1]);
+                const preview = svg.append('g').attr('class', 'gain-preview').attr('pointer-events', 'none');
+                preview.append('path')
+                    .attr('d', area(points))
+                    .attr('fill', 'rgba(239, 68, 68, 0.25)');
+                preview.append('path')
+                    .attr('d', d3.line()(points))
+                    .attr('fill', 'none')
+                    .attr('stroke', '#ef4444')
+                    .attr('stroke-width', 1);
+            }
+        }
 
         const playhead = svg.append('line')
             .attr('class', 'playhead')
             .attr('stroke', '#fbbf24')
             .attr('stroke-width', 2)
             .attr('y1', 0)
-            .attr('y2', WAVEFORM_HEIGHT);
+            .attr('y2', waveformHeight);
 
         const brush = d3.brushX()
-            .extent([[0, 0], [dimensions.width, WAVEFORM_HEIGHT]])
+            .extent([[0, 0], [width, waveformHeight]])
             .on('end', (event) => {
+                // Ignore programmatic moves (view changes), only react to the user
+                if (!event.sourceEvent) return;
                 if (event.selection) {
                     const [x0, x1] = event.selection;
                     onSelectionChange({
@@ -92,71 +247,78 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
         const brushGroup = svg.append('g')
             .attr('class', 'brush')
             .call(brush);
-        
+
         brushGroup.select('.selection').attr('fill', 'rgba(245, 158, 11, 0.4)');
-        
+
+        const span = view.end - view.start;
+        const decimals = span < 0.05 ? 4 : span < 1 ? 3 : span < 10 ? 2 : 1;
         const xAxis = d3.axisBottom(xScale)
-            .ticks(10)
-            .tickFormat(d => `${(d as number).toFixed(1)}s`);
+            .ticks(Math.max(2, Math.floor(width / 80)))
+            .tickFormat(d => `${(d as number).toFixed(decimals)}s`);
 
         svg.append('g')
             .attr('class', 'x-axis')
-            .attr('transform', `translate(0, ${WAVEFORM_HEIGHT})`)
+            .attr('transform', `translate(0, ${waveformHeight})`)
             .call(xAxis)
             .selectAll('text')
             .attr('fill', '#a1a1aa')
             .style('font-size', '10px');
-            
-        svg.selectAll('.x-axis path, .x-axis line').attr('stroke', '#4b5563');
 
-        if (selection.start !== 0 || selection.end !== audioBuffer.duration) {
-          brush.move(brushGroup, [xScale(selection.start), xScale(selection.end)]);
-        }
-        
-        const updatePlayhead = (time: number) => {
-            playhead.attr('transform', `translate(${xScale(time)}, 0)`);
-        };
+        svg.selectAll('.x-axis path, .x-axis line').attr('stroke', '#4b5563');
 
-        updatePlayhead(currentTime);
+        playhead.attr('transform', `translate(${xScale(currentTime)}, 0)`);
 
         return () => {
              svg.selectAll("*").remove();
         }
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [audioBuffer, downsampledData, dimensions.width, dimensions.height]);
-    
-     useEffect(() => {
+    }, [audioBuffer, view, dimensions.width, waveformHeight, gainPreview]);
+
+    useEffect(() => {
         if (!svgRef.current) return;
         const svg = d3.select(svgRef.current);
-        const xScale = d3.scaleLinear()
-            .domain([0, audioBuffer.duration])
-            .range([0, dimensions.width]);
-
+        const xScale = getXScale();
         svg.select('.playhead').attr('transform', `translate(${xScale(currentTime)}, 0)`);
+    }, [currentTime, getXScale]);
 
-     }, [currentTime, audioBuffer.duration, dimensions.width]);
+    // Page the view along when the playhead runs off a zoomed-in view
+    useEffect(() => {
+        setView(v => {
+            const span = v.end - v.start;
+            if (span >= duration || (currentTime >= v.start && currentTime <= v.end)) return v;
+            return clampView(currentTime, currentTime + span, duration, minSpan);
+        });
+    }, [currentTime, duration, minSpan]);
 
     useEffect(() => {
         if (!svgRef.current) return;
         const svg = d3.select(svgRef.current);
         const brushGroup = svg.select<SVGGElement>('.brush');
-        if (!brushGroup.node()) return; 
+        if (!brushGroup.node()) return;
 
-        const xScale = d3.scaleLinear()
-            .domain([0, audioBuffer.duration])
-            .range([0, dimensions.width]);
-        
-        const brush = d3.brushX().extent([[0, 0], [dimensions.width, WAVEFORM_HEIGHT]]);
+        const xScale = getXScale();
+        const brush = d3.brushX().extent([[0, 0], [dimensions.width, waveformHeight]]);
+
+        const isFull = selection.start === 0 && selection.end === audioBuffer.duration;
+        const visible = selection.end > view.start && selection.start < view.end;
+        if (isFull || !visible || selection.end - selection.start <= 0) {
+            brush.move(brushGroup, null);
+            return;
+        }
 
         // @ts-ignore
         const currentBrushSelection = d3.brushSelection(brushGroup.node());
-        const newSelectionPixels = [xScale(selection.start), xScale(selection.end)];
+        const newSelectionPixels = [
+            Math.max(0, xScale(selection.start)),
+            Math.min(dimensions.width, xScale(selection.end))
+        ];
 
         if (!currentBrushSelection || Math.abs(currentBrushSelection[0] - newSelectionPixels[0]) > 1 || Math.abs(currentBrushSelection[1] - newSelectionPixels[1]) > 1) {
             brush.move(brushGroup, newSelectionPixels);
         }
-    }, [selection, audioBuffer.duration, dimensions.width]);
+    // The main effect rebuilds the brush, so this must re-run whenever that one does
+    }, [selection, audioBuffer, view, dimensions.width, waveformHeight, getXScale]);
 
 
     useEffect(() => {
@@ -169,6 +331,72 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
         };
     }, []);
 
+    // Scrollbar thumb dragging
+    useEffect(() => {
+        if (!scrollDrag) return;
+        const handleMouseMove = (e: MouseEvent) => {
+            const trackWidth = scrollbarRef.current?.clientWidth || dimensions.width;
+            const shift = (e.clientX - scrollDrag.startX) / trackWidth * duration;
+            setView(v => clampView(scrollDrag.initialStart + shift, scrollDrag.initialStart + shift + (v.end - v.start), duration, minSpan));
+        };
+        const handleMouseUp = () => setScrollDrag(null);
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [scrollDrag, duration, minSpan, dimensions.width]);
+
+    // Marker flag / region edge dragging; a click on a region's flag without moving selects it
+    useEffect(() => {
+        if (!markerDrag || !onMarkersChange) return;
+        const secondsPerPixel = (view.end - view.start) / dimensions.width;
+        const handleMouseMove = (e: MouseEvent) => {
+            const delta = (e.clientX - markerDrag.startX) * secondsPerPixel;
+            if (delta !== 0) markerMovedRef.current = true;
+            const { start, end } = dragMarker(markerDrag.initial, markerDrag.mode, delta, duration);
+            onMarkersChange(updateMarker(markers, markerDrag.initial.id, { start, end }));
+        };
+        const handleMouseUp = () => {
+            const { initial } = markerDrag;
+            if (!markerMovedRef.current && markerDrag.mode === 'move' && initial.end !== null) {
+                onSelectionChange({ start: initial.start, end: initial.end });
+            }
+            setMarkerDrag(null);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [markerDrag, markers, onMarkersChange, onSelectionChange, view, dimensions.width, duration]);
+
+    const handleMarkerMouseDown = (e: React.MouseEvent, marker: Marker, mode: MarkerDragMode) => {
+        if (e.button !== 0 || !onMarkersChange) return;
+        e.stopPropagation();
+        markerMovedRef.current = false;
+        setMarkerDrag({ startX: e.clientX, mode, initial: marker });
+    };
+
+    const handleScrollbarMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        const track = scrollbarRef.current;
+        if (track && e.target === track) {
+            // Clicking the track centres the view there
+            const rect = track.getBoundingClientRect();
+            const time = (e.clientX - rect.left) / rect.width * duration;
+            const span = view.end - view.start;
+            const next = clampView(time - span / 2, time + span / 2, duration, minSpan);
+            setView(next);
+            setScrollDrag({ startX: e.clientX, initialStart: next.start });
+        } else {
+            setScrollDrag({ startX: e.clientX, initialStart: view.start });
+        }
+    };
+
     const handleContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
         event.preventDefault();
         const svg = svgRef.current;
@@ -178,15 +406,11 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
         const x = event.clientX - rect.left;
         const y = event.clientY - rect.top;
 
-        const xScale = d3.scaleLinear()
-            .domain([0, audioBuffer.duration])
-            .range([0, dimensions.width]);
-
-        const time = Math.max(0, Math.min(audioBuffer.duration, xScale.invert(x)));
+        const time = Math.max(0, Math.min(audioBuffer.duration, getXScale().invert(x)));
 
         setContextMenu({ visible: true, x, y, time });
     };
-    
+
     const handleSetStart = () => {
         if (contextMenu) {
             const newStart = Math.max(0, contextMenu.time);
@@ -207,23 +431,96 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
         }
     };
 
+    const handleCommand = (command: EditCommand) => {
+        if (contextMenu && onEditCommand) {
+            onEditCommand(command, contextMenu.time);
+        }
+        setContextMenu(null);
+    };
+
+    const handleAddMarker = (regionFromSelection: boolean) => {
+        if (contextMenu && onMarkersChange) {
+            onMarkersChange(regionFromSelection
+                ? addMarker(markers, selection.start, selection.end)
+                : addMarker(markers, contextMenu.time));
+        }
+        setContextMenu(null);
+    };
+
+    const hasSelection = selection.end - selection.start > 0;
+    const isFullSelection = selection.start === 0 && selection.end === audioBuffer.duration;
+    const viewCentre = (view.start + view.end) / 2;
+    const xScale = getXScale();
+    const visibleMarkers = markers.filter(m => (m.end ?? m.start) >= view.start && m.start <= view.end);
+
     return (
-        <div 
+        <div
             ref={containerRef}
-            className="w-full h-full flex items-center justify-center relative"
+            className="w-full h-full flex flex-col relative overflow-hidden"
             onContextMenu={handleContextMenu}
         >
             <svg
                 ref={svgRef}
-                viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
-                preserveAspectRatio="xMidYMid meet"
-                className="w-full h-full"
+                width={dimensions.width}
+                height={svgHeight}
+                className="block"
             />
+            {/* Markers: a line per point, a band per region, each with a draggable label flag */}
+            <div className="absolute top-0 left-0 overflow-hidden pointer-events-none" style={{ width: dimensions.width, height: waveformHeight }}>
+                {visibleMarkers.map(marker => {
+                    const left = xScale(marker.start);
+                    const right = marker.end === null ? left : xScale(marker.end);
+                    return (
+                        <React.Fragment key={marker.id}>
+                            {marker.end === null ? (
+                                <div className="absolute top-0 bottom-0 border-l border-emerald-400/80" style={{ left }} />
+                            ) : (
+                                <div className="absolute top-0 bottom-0 bg-emerald-500/10 border-x border-emerald-400/60" style={{ left, width: right - left }}>
+                                    {onMarkersChange && (
+                                        <>
+                                            <div className="absolute top-0 bottom-0 -left-1 w-2 cursor-col-resize pointer-events-auto" onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'start')} />
+                                            <div className="absolute top-0 bottom-0 -right-1 w-2 cursor-col-resize pointer-events-auto" onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'end')} />
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                            <div
+                                className="absolute top-0 max-w-[160px] truncate px-1 text-[10px] leading-4 bg-emerald-600/90 text-white rounded-br cursor-grab pointer-events-auto"
+                                style={{ left }}
+                                title={marker.end === null ? marker.label : `${marker.label} (nhấn để chọn vùng)`}
+                                onMouseDown={(e) => handleMarkerMouseDown(e, marker, 'move')}
+                            >
+                                {marker.label}
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+            <div
+                ref={scrollbarRef}
+                className="relative w-full bg-slate-800 rounded cursor-pointer"
+                style={{ height: SCROLLBAR_HEIGHT }}
+                onMouseDown={handleScrollbarMouseDown}
+            >
+                <div
+                    className="absolute top-0 bottom-0 bg-slate-500 hover:bg-slate-400 rounded"
+                    style={{
+                        left: `${view.start / duration * 100}%`,
+                        width: `${Math.max(1, (view.end - view.start) / duration * 100)}%`
+                    }}
+                />
+            </div>
+            <div className="absolute top-1 right-1 flex gap-1 text-xs z-10" onMouseDown={(e) => e.stopPropagation()}>
+                <button onClick={() => zoomAround(viewCentre, 2)} className="px-2 py-0.5 bg-slate-800/80 hover:bg-slate-700 rounded" title="Thu nhỏ">−</button>
+                <button onClick={() => zoomAround(viewCentre, 0.5)} className="px-2 py-0.5 bg-slate-800/80 hover:bg-slate-700 rounded" title="Phóng to">+</button>
+                <button onClick={() => hasSelection && setView(clampView(selection.start, selection.end, duration, minSpan))} disabled={!hasSelection} className="px-2 py-0.5 bg-slate-800/80 hover:bg-slate-700 rounded disabled:opacity-40">Vùng chọn</button>
+                <button onClick={() => setView({ start: 0, end: duration })} className="px-2 py-0.5 bg-slate-800/80 hover:bg-slate-700 rounded">Toàn bộ</button>
+            </div>
             {contextMenu?.visible && (
                 <div
                     className="absolute bg-slate-800/80 backdrop-blur-sm rounded-md shadow-lg p-1 text-sm z-10 border border-slate-700"
                     style={{ top: contextMenu.y, left: contextMenu.x }}
-                    onMouseDown={(e) => e.stopPropagation()} 
+                    onMouseDown={(e) => e.stopPropagation()}
                 >
                     <ul className="text-slate-200">
                         <li className="px-3 py-1 hover:bg-amber-600/50 rounded cursor-pointer" onClick={handleSetStart}>
@@ -232,6 +529,37 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
                         <li className="px-3 py-1 hover:bg-amber-600/50 rounded cursor-pointer" onClick={handleSetEnd}>
                             Đặt làm điểm kết thúc
                         </li>
+                        {onMarkersChange && (
+                            <>
+                                <li className="my-1 border-t border-slate-700" />
+                                <li className="px-3 py-1 hover:bg-amber-600/50 rounded cursor-pointer" onClick={() => handleAddMarker(false)}>
+                                    Thêm điểm đánh dấu tại đây
+                                </li>
+                                <li className={`px-3 py-1 rounded ${hasSelection && !isFullSelection ? 'hover:bg-amber-600/50 cursor-pointer' : 'opacity-40 pointer-events-none'}`} onClick={() => handleAddMarker(true)}>
+                                    Tạo vùng đánh dấu từ vùng chọn
+                                </li>
+                            </>
+                        )}
+                        {onEditCommand && (
+                            <>
+                                <li className="my-1 border-t border-slate-700" />
+                                <li className={`px-3 py-1 rounded ${hasSelection ? 'hover:bg-amber-600/50 cursor-pointer' : 'opacity-40 pointer-events-none'}`} onClick={() => handleCommand('cut')}>
+                                    Cắt vùng chọn
+                                </li>
+                                <li className={`px-3 py-1 rounded ${hasSelection ? 'hover:bg-amber-600/50 cursor-pointer' : 'opacity-40 pointer-events-none'}`} onClick={() => handleCommand('copy')}>
+                                    Sao chép vùng chọn
+                                </li>
+                                <li className={`px-3 py-1 rounded ${canPaste ? 'hover:bg-amber-600/50 cursor-pointer' : 'opacity-40 pointer-events-none'}`} onClick={() => handleCommand('paste')}>
+                                    Dán tại đây
+                                </li>
+                                <li className={`px-3 py-1 rounded ${hasSelection ? 'hover:bg-amber-600/50 cursor-pointer' : 'opacity-40 pointer-events-none'}`} onClick={() => handleCommand('delete')}>
+                                    Xóa vùng chọn
+                                </li>
+                                <li className="px-3 py-1 hover:bg-amber-600/50 rounded cursor-pointer" onClick={() => handleCommand('silence')}>
+                                    Chèn im lặng tại đây
+                                </li>
+                            </>
+                        )}
                     </ul>
                 </div>
             )}
@@ -239,4 +567,4 @@ const Waveform: React.FC<WaveformProps> = ({ audioBuffer, selection, onSelection
     );
 };
 
-export default Waveform;
\ No newline at end of file
+export default Waveform;
@@ -0,0 +1,41 @@
+import type { StudioVoicePreset, StudioVoiceSettings } from '../types';
+
+// User-saved "Giọng Studio" presets, kept in localStorage next to the API key.
+// Built-in presets live in utils/studioVoice and are never stored.
+
+const STORAGE_KEY = 'dino_studio_voice_presets';
+
+export const loadUserPresets = (): StudioVoicePreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.map(p => ({ ...p, builtIn: false })) : [];
+    } catch {
+        // A corrupt entry only costs the saved presets, never the app start
+        return [];
+    }
+};
+
+const storeUserPresets = (presets: StudioVoicePreset[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Saves under `name`, replacing a user preset of the same name; returns the new list
+export const saveUserPreset = (name: string, settings: StudioVoiceSettings): StudioVoicePreset[] => {
+    const presets = loadUserPresets();
+    const existing = presets.find(p => p.name === name);
+    const preset: StudioVoicePreset = {
+        id: existing?.id ?? `user-${Date.now().toString(36)}`,
+        name,
+        builtIn: false,
+        settings,
+    };
+    const updated = existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset];
+    storeUserPresets(updated);
+    return updated;
+};
+
+export const deleteUserPreset = (id: string): StudioVoicePreset[] => {
+    const updated = loadUserPresets().filter(p => p.id !== id);
+    storeUserPresets(updated);
+    return updated;
+};
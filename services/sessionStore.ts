@@ -0,0 +1,322 @@
+
+import type { DuckingSettings, EditOperation, Marker, MasterBusSettings, SelectionRange, Track } from '../types';
+import { createClip, withClipDefaults } from '../utils/clips';
+import { withTrackDefaults } from '../utils/tracks';
+import { withMasterDefaults } from '../utils/masterBus';
+import { withDuckingDefaults } from '../utils/ducking';
+import { DEFAULT_NOISE_REDUCTION } from '../utils/noiseReduction';
+import { legacyStudioVoice } from '../utils/studioVoice';
+
+// IndexedDB persistence for autosave / crash recovery.
+// Two object stores:
+//   - `audio`:    decoded PCM (plus the original file when there is one), written once per AudioBuffer
+//   - `sessions`: small records describing Editor or Studio state, referencing audio by id
+// Audio records that no session references any more are garbage collected after each save.
+const DB_NAME = 'dino_audio_sessions';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'audio';
+const SESSION_STORE = 'sessions';
+const MAX_SESSIONS_PER_TAB = 3;
+
+export type SessionTab = 'editor' | 'studio';
+
+interface StoredAudio {
+    id: string;
+    sampleRate: number;
+    channels: Float32Array[];
+    file?: File;
+}
+
+export interface SessionRecord<T = unknown> {
+    id: string;
+    tab: SessionTab;
+    savedAt: number;
+    label: string;
+    audioIds: string[];
+    data: T;
+}
+
+type StoredOperation =
+    | Exclude<EditOperation, { type: 'paste' }>
+    | { type: 'paste'; at: number; clipAudioId: string };
+
+interface EditorSessionData {
+    sourceAudioId: string;
+    history: StoredOperation[];
+    historyIndex: number;
+    selection: SelectionRange;
+    markers?: Marker[]; // Missing in sessions saved before markers existed
+}
+
+interface StudioSessionData {
+    tracks: (Omit<Track, 'file' | 'buffer'> & { audioId: string })[];
+    // Missing in sessions saved before these existed
+    master?: MasterBusSettings;
+    ducking?: DuckingSettings;
+    markers?: Marker[];
+}
+
+export interface StudioSessionState {
+    tracks: Track[];
+    master: MasterBusSettings;
+    ducking: DuckingSettings;
+    markers: Marker[];
+}
+
+export interface EditorSessionState {
+    file: File;
+    source: AudioBuffer;
+    history: EditOperation[];
+    historyIndex: number;
+    selection: SelectionRange;
+    markers: Marker[];
+}
+
+export class StorageQuotaError extends Error {
+    constructor() {
+        super("Browser storage quota exceeded.");
+        this.name = 'StorageQuotaError';
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+const audioIds = new WeakMap<AudioBuffer, string>();
+const persistedAudio = new Set<string>();
+
+const newId = () => `${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const newSessionId = newId;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const storeAudio = async (buffer: AudioBuffer, file?: File): Promise<string> => {
+    let id = audioIds.get(buffer);
+    if (!id) {
+        id = newId();
+        audioIds.set(buffer, id);
+    }
+    if (persistedAudio.has(id)) return id;
+
+    const record: StoredAudio = { id, sampleRate: buffer.sampleRate, channels: [], file };
+    for (let i = 0; i < buffer.numberOfChannels; i++) {
+        record.channels.push(buffer.getChannelData(i));
+    }
+    const db = await openDb();
+    const tx = db.transaction(AUDIO_STORE, 'readwrite');
+    tx.objectStore(AUDIO_STORE).put(record);
+    await transactionDone(tx);
+    persistedAudio.add(id);
+    return id;
+};
+
+const loadAudio = async (id: string, context: BaseAudioContext): Promise<{ buffer: AudioBuffer, file?: File }> => {
+    const db = await openDb();
+    const record = await requestToPromise<StoredAudio | undefined>(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id));
+    if (!record) throw new Error(`Audio ${id} is missing from the session store.`);
+
+    const buffer = context.createBuffer(record.channels.length, record.channels[0].length, record.sampleRate);
+    record.channels.forEach((data, i) => buffer.copyToChannel(data, i));
+    audioIds.set(buffer, id);
+    persistedAudio.add(id);
+    return { buffer, file: record.file };
+};
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+    const db = await openDb();
+    const sessions = await requestToPromise<SessionRecord[]>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+    return sessions.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+const deleteSessions = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    ids.forEach(id => tx.objectStore(SESSION_STORE).delete(id));
+    await transactionDone(tx);
+    await collectGarbage();
+};
+
+const deleteSessionsExcept = async (keepIds: string[]) => {
+    const sessions = await listSessions();
+    await deleteSessions(sessions.filter(s => !keepIds.includes(s.id)).map(s => s.id));
+};
+
+// Writes run one at a time, so garbage collection never sees audio whose session isn't written yet
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+    const run = writeQueue.then(task);
+    writeQueue = run.catch(() => undefined);
+    return run;
+};
+
+// Deletes every session except `keepIds`
+export const clearOldSessions = (keepIds: string[]) => enqueue(() => deleteSessionsExcept(keepIds));
+
+const collectGarbage = async () => {
+    const sessions = await listSessions();
+    const referenced = new Set(sessions.flatMap(s => s.audioIds));
+    const db = await openDb();
+    const keys = await requestToPromise(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).getAllKeys());
+    const unreferenced = keys.map(String).filter(key => !referenced.has(key));
+    if (unreferenced.length === 0) return;
+
+    const tx = db.transaction(AUDIO_STORE, 'readwrite');
+    unreferenced.forEach(key => {
+        tx.objectStore(AUDIO_STORE).delete(key);
+        persistedAudio.delete(key);
+    });
+    await transactionDone(tx);
+};
+
+const pruneSessions = async (tab: SessionTab) => {
+    const sessions = (await listSessions()).filter(s => s.tab === tab);
+    await deleteSessions(sessions.slice(MAX_SESSIONS_PER_TAB).map(s => s.id));
+};
+
+const putSession = async (record: SessionRecord) => {
+    const db = await openDb();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).put(record);
+    await transactionDone(tx);
+    await pruneSessions(record.tab);
+};
+
+// Queues a save; on a quota error, drops every other session and retries once.
+const withQuotaRetry = (sessionId: string, save: () => Promise<void>) => enqueue(async () => {
+    try {
+        await save();
+    } catch (err) {
+        if (!isQuotaError(err)) throw err;
+        await deleteSessionsExcept([sessionId]);
+        try {
+            await save();
+        } catch (retryErr) {
+            throw isQuotaError(retryErr) ? new StorageQuotaError() : retryErr;
+        }
+    }
+});
+
+export const saveEditorSession = (sessionId: string, state: EditorSessionState) => withQuotaRetry(sessionId, async () => {
+    const sourceAudioId = await storeAudio(state.source, state.file);
+    const ids = [sourceAudioId];
+    const history: StoredOperation[] = [];
+    for (const operation of state.history) {
+        if (operation.type === 'paste') {
+            const clipAudioId = await storeAudio(operation.clip);
+            ids.push(clipAudioId);
+            history.push({ type: 'paste', at: operation.at, clipAudioId });
+        } else {
+            history.push(operation);
+        }
+    }
+
+    const record: SessionRecord<EditorSessionData> = {
+        id: sessionId,
+        tab: 'editor',
+        savedAt: Date.now(),
+        label: state.file.name,
+        audioIds: ids,
+        data: { sourceAudioId, history, historyIndex: state.historyIndex, selection: state.selection, markers: state.markers },
+    };
+    await putSession(record);
+    await collectGarbage();
+});
+
+export const restoreEditorSession = async (record: SessionRecord, context: BaseAudioContext): Promise<EditorSessionState> => {
+    const data = record.data as EditorSessionData;
+    const { buffer: source, file } = await loadAudio(data.sourceAudioId, context);
+    const history: EditOperation[] = [];
+    for (const operation of data.history) {
+        if (operation.type === 'paste') {
+            const { buffer: clip } = await loadAudio(operation.clipAudioId, context);
+            history.push({ type: 'paste', at: operation.at, clip });
+        } else if (operation.type === 'noiseReduction') {
+            // Sessions saved before spectral noise reduction have no settings
+            history.push({ ...operation, settings: operation.settings ?? DEFAULT_NOISE_REDUCTION });
+        } else if (operation.type === 'studio') {
+            // Before the voice chain had settings it was a fixed EQ and compressor
+            history.push({ ...operation, settings: operation.settings ?? legacyStudioVoice() });
+        } else {
+            history.push(operation);
+        }
+    }
+    return {
+        file: file || new File([], record.label),
+        source,
+        history,
+        historyIndex: data.historyIndex,
+        selection: data.selection,
+        markers: data.markers ?? [],
+    };
+};
+
+export const saveStudioSession = (sessionId: string, { tracks, master, ducking, markers }: StudioSessionState) => withQuotaRetry(sessionId, async () => {
+    const stored: StudioSessionData['tracks'] = [];
+    for (const { file, buffer, ...rest } of tracks) {
+        stored.push({ ...rest, audioId: await storeAudio(buffer, file) });
+    }
+
+    const record: SessionRecord<StudioSessionData> = {
+        id: sessionId,
+        tab: 'studio',
+        savedAt: Date.now(),
+        label: `${tracks.length} track`,
+        audioIds: stored.map(t => t.audioId),
+        data: { tracks: stored, master, ducking, markers },
+    };
+    await putSession(record);
+    await collectGarbage();
+});
+
+export const restoreStudioSession = async (record: SessionRecord, context: BaseAudioContext): Promise<StudioSessionState> => {
+    const data = record.data as StudioSessionData;
+    const tracks: Track[] = [];
+    for (const { audioId, ...rest } of data.tracks) {
+        const { buffer, file } = await loadAudio(audioId, context);
+        // Sessions saved before tracks had clips carry a single `startTime` instead
+        const { startTime, ...track } = rest as typeof rest & { startTime?: number };
+        tracks.push({
+            ...withTrackDefaults(track),
+            clips: track.clips ? track.clips.map(withClipDefaults) : [createClip(buffer, startTime ?? 0)],
+            buffer,
+            file: file || new File([], rest.id)
+        });
+    }
+    return { tracks, master: withMasterDefaults(data.master), ducking: withDuckingDefaults(data.ducking), markers: data.markers ?? [] };
+};
+
+export const getStorageUsage = async (): Promise<{ usage: number, quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
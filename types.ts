@@ -4,12 +4,222 @@ export interface SelectionRange {
     end: number;
 }
 
+export type FadeCurve = 'linear' | 'equalPower' | 'logarithmic';
+
+// A region of the track's source buffer placed on the timeline (all values in seconds)
+export interface Clip {
+    id: string;
+    startTime: number; // Position on the timeline
+    offset: number; // Where the clip starts inside the source buffer
+    duration: number; // Length on the timeline; covers duration / stretch seconds of source
+    stretch: number; // Timeline seconds per source second (time-stretch, pitch kept)
+    pitch: number; // Pitch shift in semitones, cents as the fraction
+    fadeIn: number;
+    fadeOut: number;
+    fadeInCurve: FadeCurve;
+    fadeOutCurve: FadeCurve;
+}
+
+export interface EqSettings {
+    type: BiquadFilterType;
+    frequency: number; // Hz
+    gain: number; // dB
+    q: number;
+}
+
+// One band of the Editor's parametric EQ
+export interface EqBand extends EqSettings {
+    id: string;
+    enabled: boolean;
+}
+
+export interface CompressorSettings {
+    threshold: number; // dB
+    knee: number; // dB
+    ratio: number;
+    attack: number; // Seconds
+    release: number; // Seconds
+}
+
+// Split-band de-esser: only the band above `frequency` is turned down while it is loud
+export interface DeEsserSettings {
+    enabled: boolean;
+    frequency: number; // Hz
+    threshold: number; // dB, level of the sibilance band
+    ratio: number;
+}
+
+// The Editor's "Giọng Studio" chain: de-esser -> EQ -> compressor -> makeup gain -> limiter
+export interface StudioVoiceSettings {
+    deEsser: DeEsserSettings;
+    eq: EqBand[];
+    compressorEnabled: boolean;
+    compressor: CompressorSettings;
+    makeup: number; // dB
+    limiterEnabled: boolean;
+    ceiling: number; // dBTP
+}
+
+export interface StudioVoicePreset {
+    id: string;
+    name: string;
+    builtIn: boolean;
+    settings: StudioVoiceSettings;
+}
+
+// One effect in a track's ordered insert chain
+export type TrackInsert =
+    | { id: string; type: 'eq'; enabled: boolean; settings: EqSettings }
+    | { id: string; type: 'compressor'; enabled: boolean; settings: CompressorSettings };
+
+// Shape of the automation segment that starts at a point and runs to the next one
+export type AutomationCurve = 'linear' | 'smooth' | 'step';
+
+export interface AutomationPoint {
+    id: string;
+    time: number; // Timeline seconds
+    value: number;
+    curve: AutomationCurve;
+}
+
+export type AutomationParam = 'volume' | 'pan';
+
+// Breakpoint envelopes; a lane with points overrides the track's static volume/pan
+export type TrackAutomation = Record<AutomationParam, AutomationPoint[]>;
+
+// Sidechain ducking: the key track's level lowers the ducked tracks
+export interface DuckingSettings {
+    enabled: boolean;
+    keyTrackId: string | null;
+    duckedTrackIds: string[];
+    amount: number; // Gain reduction in dB while the key is above the threshold
+    threshold: number; // dBFS
+    attack: number; // Seconds
+    release: number; // Seconds
+}
+
+// Studio master bus: gain -> true-peak limiter, applied to the sum of all tracks
+export interface MasterBusSettings {
+    gain: number; // Linear gain before the limiter
+    limiterEnabled: boolean;
+    ceiling: number; // Limiter ceiling in dBTP
+    release: number; // Seconds
+}
+
 export interface Track {
     id: string;
     file: File;
     buffer: AudioBuffer;
-    startTime: number; // Start time in seconds
+    clips: Clip[];
     volume: number;
+    pan: number; // -1 (left) .. 1 (right)
     isMuted: boolean;
+    isSolo: boolean;
+    inserts: TrackInsert[];
+    automation: TrackAutomation;
     color: string;
 }
+
+// Loudness normalization target; the true-peak ceiling is enforced by a limiter
+export interface LoudnessTarget {
+    lufs: number; // Integrated loudness, LUFS
+    ceiling: number; // dBTP
+}
+
+// Average STFT magnitude per frequency bin of a noise-only region
+export interface NoiseProfile {
+    sampleRate: number;
+    fftSize: number;
+    magnitudes: Float32Array; // fftSize / 2 + 1 bins
+}
+
+export interface NoiseReductionSettings {
+    reduction: number; // Maximum attenuation of noise, dB
+    smoothing: number; // 0..1, smoothing of the gains across time and frequency
+}
+
+export interface GateSettings {
+    threshold: number; // dB, the gate opens above it
+    hysteresis: number; // dB below the threshold at which an open gate closes again
+    ratio: number; // Expansion ratio below the threshold; GATE_RATIO acts as a hard gate
+    attack: number; // Seconds to open
+    hold: number; // Seconds the gate stays open after the level drops
+    release: number; // Seconds to close
+    lookahead: number; // Seconds the detector looks ahead of the signal
+}
+
+export type ExportFormat = 'wav' | 'flac' | 'mp3' | 'opus';
+
+// Options of the export dialog, shared by the Editor and the Studio
+export interface ExportSettings {
+    format: ExportFormat;
+    bitDepth: 16 | 24 | 32; // WAV and FLAC; 32 is floating point (WAV only)
+    sampleRate: number | null; // Converted to on export; null keeps the audio's own rate
+    dither: boolean; // TPDF dither when quantizing to 16 or 24 bits
+    mp3Mode: 'cbr' | 'vbr';
+    mp3Bitrate: number; // kbps, CBR
+    mp3Quality: number; // LAME VBR quality, 0 (best) .. 9
+    opusBitrate: number; // kbps
+}
+
+// Named point on the timeline (chapter marker), or a labelled region when `end` is set
+export interface Marker {
+    id: string;
+    label: string;
+    start: number; // Seconds
+    end: number | null; // Seconds; null for a point marker
+}
+
+// How "Xuất hàng loạt" cuts the audio into files
+export type BatchSplit = 'regions' | 'markers' | 'silence';
+
+export interface SilenceSettings {
+    threshold: number; // dBFS; quieter stretches count as silence
+    minDuration: number; // Seconds a pause must last to split there
+    padding: number; // Seconds of the pause kept at each side of a part
+}
+
+export interface BatchExportSettings {
+    split: BatchSplit;
+    silence: SilenceSettings;
+    normalize: boolean; // Loudness-normalize every file to the loudness target
+    fadeIn: number; // Seconds, 0 for none
+    fadeOut: number;
+}
+
+export interface CoverArt {
+    mimeType: string; // image/jpeg or image/png
+    data: Uint8Array;
+}
+
+// Tags written into exported files and read from imported ones; empty strings are left out
+export interface AudioMetadata {
+    title: string;
+    artist: string;
+    album: string;
+    episode: string; // Episode number, stored as the track number
+    year: string;
+    comment: string;
+    cover: CoverArt | null;
+}
+
+// A single non-destructive edit applied on top of the Editor's source buffer.
+// Ranges are in seconds relative to the buffer the operation is applied to.
+export type EditOperation =
+    | { type: 'fadeIn'; start: number; end: number; duration: number }
+    | { type: 'fadeOut'; start: number; end: number; duration: number }
+    | { type: 'normalize'; start: number; end: number }
+    | { type: 'loudness'; start: number; end: number; target: LoudnessTarget }
+    // Without a profile the noise is estimated from the quietest part of the range
+    | { type: 'noiseReduction'; start: number; end: number; settings: NoiseReductionSettings; profile?: NoiseProfile }
+    | { type: 'gate'; start: number; end: number; settings: GateSettings }
+    | { type: 'eq'; start: number; end: number; bands: EqBand[] }
+    | { type: 'studio'; start: number; end: number; settings: StudioVoiceSettings }
+    // Changes the length of the range by `stretch`; pitch shift keeps it
+    | { type: 'timeStretch'; start: number; end: number; stretch: number }
+    | { type: 'pitchShift'; start: number; end: number; semitones: number }
+    | { type: 'delete'; start: number; end: number }
+    | { type: 'paste'; at: number; clip: AudioBuffer }
+    | { type: 'silence'; at: number; duration: number };
+
+export type EditCommand = 'cut' | 'copy' | 'paste' | 'delete' | 'silence';
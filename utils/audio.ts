@@ -1,13 +1,30 @@
 
-import type { Track } from '../types';
+import type { Track, Clip, EqSettings, CompressorSettings, MasterBusSettings, DuckingSettings, LoudnessTarget, NoiseProfile, NoiseReductionSettings, GateSettings, EqBand, StudioVoiceSettings, ExportSettings, AudioMetadata, Marker, SelectionRange, SilenceSettings } from '../types';
+import { trackEnd, isClipProcessed } from './clips';
+import { scheduleTracks } from './mixGraph';
+import { createMasterBus, limiterLatency } from './masterBus';
+import { computeDuckingCurve } from './ducking';
+import type { LoudnessStats } from './loudness';
+import { connectEqChain } from './eq';
+import { connectStudioVoice, studioVoiceLatency } from './studioVoice';
+import { runDspJob, renderOffline, progressRange, type ProcessingOptions } from './processing';
+import { EXPORT_FORMATS } from './exportFormats';
+import { readMetadata } from './metadata';
 
 // App-specific audio utilities
-export const decodeFileAsAudioBuffer = (file: File, audioContext: AudioContext): Promise<AudioBuffer> => {
+export interface DecodedAudio {
+    buffer: AudioBuffer;
+    metadata: AudioMetadata; // Tags of the file
+}
+
+export const decodeFileAsAudioBuffer = (file: File, audioContext: AudioContext): Promise<DecodedAudio> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.onload = (event) => {
             if (event.target?.result instanceof ArrayBuffer) {
-                audioContext.decodeAudioData(event.target.result, resolve, reject);
+                // Tags are read first: decoding detaches the data
+                const metadata = readMetadata(new Uint8Array(event.target.result));
+                audioContext.decodeAudioData(event.target.result, buffer => resolve({ buffer, metadata }), reject);
             } else {
                 reject(new Error('Failed to read file as ArrayBuffer.'));
             }
@@ -47,6 +64,86 @@ export const trimAudioBuffer = (
 };
 
 
+// Splicing functions (cut / paste / insert silence). All return a new buffer with a different length.
+export const deleteAudioRange = (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    audioContext: AudioContext
+): AudioBuffer => {
+    const startOffset = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endOffset = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    const removed = endOffset - startOffset;
+
+    if (removed <= 0) {
+        throw new Error("Invalid delete range. End time must be after start time.");
+    }
+    if (removed >= buffer.length) {
+        throw new Error("Cannot delete the entire audio.");
+    }
+
+    const newBuffer = audioContext.createBuffer(
+        buffer.numberOfChannels,
+        buffer.length - removed,
+        buffer.sampleRate
+    );
+
+    for (let i = 0; i < buffer.numberOfChannels; i++) {
+        const channelData = buffer.getChannelData(i);
+        const newChannelData = newBuffer.getChannelData(i);
+        newChannelData.set(channelData.subarray(0, startOffset));
+        newChannelData.set(channelData.subarray(endOffset), startOffset);
+    }
+
+    return newBuffer;
+};
+
+export const insertAudioBuffer = (
+    buffer: AudioBuffer,
+    insert: AudioBuffer,
+    at: number,
+    audioContext: AudioContext
+): AudioBuffer => {
+    if (insert.sampleRate !== buffer.sampleRate) {
+        throw new Error("Clipboard sample rate does not match the current audio.");
+    }
+
+    const atOffset = Math.max(0, Math.min(buffer.length, Math.floor(at * buffer.sampleRate)));
+    const newBuffer = audioContext.createBuffer(
+        buffer.numberOfChannels,
+        buffer.length + insert.length,
+        buffer.sampleRate
+    );
+
+    for (let i = 0; i < buffer.numberOfChannels; i++) {
+        const channelData = buffer.getChannelData(i);
+        const newChannelData = newBuffer.getChannelData(i);
+        // Mono clips are duplicated across channels; extra clip channels are dropped
+        const insertData = insert.getChannelData(i % insert.numberOfChannels);
+        newChannelData.set(channelData.subarray(0, atOffset));
+        newChannelData.set(insertData, atOffset);
+        newChannelData.set(channelData.subarray(atOffset), atOffset + insert.length);
+    }
+
+    return newBuffer;
+};
+
+export const insertSilence = (
+    buffer: AudioBuffer,
+    at: number,
+    duration: number,
+    audioContext: AudioContext
+): AudioBuffer => {
+    const frameCount = Math.floor(duration * buffer.sampleRate);
+    if (frameCount <= 0) {
+        throw new Error("Silence duration must be positive.");
+    }
+    // A freshly created buffer is zero-filled
+    const silence = audioContext.createBuffer(buffer.numberOfChannels, frameCount, buffer.sampleRate);
+    return insertAudioBuffer(buffer, silence, at, audioContext);
+};
+
+
 // Effect functions
 const cloneAudioBuffer = (buffer: AudioBuffer, context: AudioContext): AudioBuffer => {
     const newBuffer = context.createBuffer(
@@ -131,59 +228,277 @@ export const applyNormalize = (buffer: AudioBuffer, start: number, end: number,
     return newBuffer;
 };
 
-export const applyNoiseReduction = async (buffer: AudioBuffer, start: number, end: number, context: AudioContext): Promise<AudioBuffer> => {
-    // Simple noise gate implementation
+// Copies of the channels in [startSample, endSample), which can be handed to a DSP job
+const rangeChannels = (buffer: AudioBuffer, startSample: number, endSample: number): Float32Array[] =>
+    Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch).slice(startSample, endSample));
+
+// Spectral noise reduction of the range; the STFT processing runs in a Web Worker
+export const applyNoiseReduction = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    settings: NoiseReductionSettings,
+    profile?: NoiseProfile,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    if (endSample <= startSample) return cloneAudioBuffer(buffer, context);
+
+    const processed = await runDspJob({
+        kind: 'denoise',
+        channels: rangeChannels(buffer, startSample, endSample),
+        sampleRate: buffer.sampleRate,
+        settings,
+        profile,
+    }, options);
     const newBuffer = cloneAudioBuffer(buffer, context);
-    const startSample = Math.floor(start * newBuffer.sampleRate);
-    const endSample = Math.floor(end * newBuffer.sampleRate);
-    const threshold = 0.02; // Noise threshold
+    processed.forEach((data, i) => newBuffer.copyToChannel(data, i, startSample));
+    return newBuffer;
+};
 
-    for (let i = 0; i < newBuffer.numberOfChannels; i++) {
-        const channelData = newBuffer.getChannelData(i);
-        for (let j = startSample; j < endSample; j++) {
-            if (Math.abs(channelData[j]) < threshold) {
-                channelData[j] = 0;
-            }
+export const applyGate = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    settings: GateSettings,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    if (endSample <= startSample) return cloneAudioBuffer(buffer, context);
+
+    const processed = await runDspJob({
+        kind: 'gate',
+        channels: rangeChannels(buffer, startSample, endSample),
+        sampleRate: buffer.sampleRate,
+        settings,
+    }, options);
+    const newBuffer = cloneAudioBuffer(buffer, context);
+    processed.forEach((data, i) => newBuffer.copyToChannel(data, i, startSample));
+    return newBuffer;
+};
+
+// Per-sample gain the gate would apply to `start`..`end` seconds, computed on the DSP worker.
+// The result starts at the first sample of the range.
+export const gateGainsInWorker = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    settings: GateSettings,
+    options: ProcessingOptions = {}
+): Promise<{ start: number, gains: Float32Array }> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    const gains = await runDspJob({
+        kind: 'gateGains',
+        channels: rangeChannels(buffer, startSample, endSample),
+        sampleRate: buffer.sampleRate,
+        settings,
+    }, options);
+    return { start: startSample / buffer.sampleRate, gains };
+};
+
+// Time-stretch and pitch shift (WSOLA, see timeStretch.ts)
+const SPLICE_CROSSFADE = 0.01; // Seconds blended with the original at both ends of a processed range
+
+// Replaces [startSample, endSample) with `processed`, which may have another length. The
+// processed audio fades in from and out to the original, so the joins do not click.
+const spliceProcessed = (buffer: AudioBuffer, startSample: number, endSample: number, processed: Float32Array[], context: AudioContext): AudioBuffer => {
+    const processedLength = processed[0].length;
+    const newBuffer = context.createBuffer(buffer.numberOfChannels, buffer.length - (endSample - startSample) + processedLength, buffer.sampleRate);
+    const fade = Math.min(Math.round(SPLICE_CROSSFADE * buffer.sampleRate), Math.floor(processedLength / 2), Math.floor((endSample - startSample) / 2));
+
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const original = buffer.getChannelData(ch);
+        const data = processed[ch];
+        for (let i = 0; i < fade; i++) {
+            const p = i / fade;
+            data[i] = original[startSample + i] * (1 - p) + data[i] * p;
+            const j = processedLength - fade + i;
+            data[j] = data[j] * (1 - p) + original[endSample - fade + i] * p;
         }
+        const output = newBuffer.getChannelData(ch);
+        output.set(original.subarray(0, startSample));
+        output.set(data, startSample);
+        output.set(original.subarray(endSample), startSample + processedLength);
     }
     return newBuffer;
 };
 
+// Makes the range `stretch` times as long without changing its pitch; the buffer's length changes
+export const applyTimeStretch = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    stretch: number,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    if (endSample <= startSample || stretch === 1) return cloneAudioBuffer(buffer, context);
+    const stretched = await runDspJob({
+        kind: 'stretch',
+        channels: rangeChannels(buffer, startSample, endSample),
+        sampleRate: buffer.sampleRate,
+        stretch,
+        semitones: 0,
+    }, options);
+    return spliceProcessed(buffer, startSample, endSample, stretched, context);
+};
+
+// Shifts the pitch of the range by `semitones` (fractions are cents) keeping its length
+export const applyPitchShift = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    semitones: number,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    if (endSample <= startSample || semitones === 0) return cloneAudioBuffer(buffer, context);
+    const shifted = await runDspJob({
+        kind: 'stretch',
+        channels: rangeChannels(buffer, startSample, endSample),
+        sampleRate: buffer.sampleRate,
+        stretch: 1,
+        semitones,
+    }, options);
+    return spliceProcessed(buffer, startSample, endSample, shifted, context);
+};
+
+// Processed copies of Studio sources for stretched or pitch-shifted clips. A copy covers the
+// whole source, so moving, trimming or splitting a clip reuses it; the last few settings of
+// each source are kept so that undoing a change does not process again.
+const CLIP_CACHE_SIZE = 4;
+const clipBufferCache = new WeakMap<AudioBuffer, Map<string, AudioBuffer>>();
+
+const clipCacheKey = (clip: Clip) => `${clip.stretch}:${clip.pitch}`;
+
+// Looks up a processed copy and marks it as the most recently used
+const cachedClipBuffer = (source: AudioBuffer, key: string): AudioBuffer | undefined => {
+    const cache = clipBufferCache.get(source);
+    const buffer = cache?.get(key);
+    if (cache && buffer) {
+        cache.delete(key);
+        cache.set(key, buffer);
+    }
+    return buffer;
+};
+
+// Keeps the copies that a clip of the current tracks plays from (`inUse`) over older ones
+const cacheClipBuffer = (source: AudioBuffer, key: string, processed: Float32Array[], inUse: Set<string>): AudioBuffer => {
+    const buffer = new AudioBuffer({ numberOfChannels: source.numberOfChannels, length: processed[0].length, sampleRate: source.sampleRate });
+    processed.forEach((data, ch) => buffer.copyToChannel(data, ch));
+    let cache = clipBufferCache.get(source);
+    if (!cache) {
+        cache = new Map();
+        clipBufferCache.set(source, cache);
+    }
+    cache.set(key, buffer);
+    for (const old of cache.keys()) {
+        if (cache.size <= CLIP_CACHE_SIZE) break;
+        if (!inUse.has(old)) cache.delete(old);
+    }
+    return buffer;
+};
+
+const isClipReady = (source: AudioBuffer, clip: Clip) =>
+    !isClipProcessed(clip) || !!clipBufferCache.get(source)?.has(clipCacheKey(clip));
 
-export const applyStudioEffect = async (buffer: AudioBuffer, start: number, end: number, context: AudioContext): Promise<AudioBuffer> => {
-    // Uses a compressor and EQ for a "studio" vocal effect
+// Whether every clip of `tracks` can be scheduled, with no processed copy still to be made
+export const clipBuffersReady = (tracks: Track[]): boolean =>
+    tracks.every(track => track.clips.every(clip => isClipReady(track.buffer, clip)));
+
+// Buffer the clip plays from: the source itself, or the source stretched by `clip.stretch`
+// and shifted by `clip.pitch`, in which the clip starts at `clip.offset * clip.stretch`.
+// Null while prepareClipBuffers has not made that copy yet.
+export const clipPlaybackBuffer = (source: AudioBuffer, clip: Clip): AudioBuffer | null => {
+    if (!isClipProcessed(clip)) return source;
+    return cachedClipBuffer(source, clipCacheKey(clip)) ?? null;
+};
+
+// Processes the copies that the processed clips of `tracks` play from on the DSP worker,
+// one source and setting at a time
+export const prepareClipBuffers = async (tracks: Track[], options: ProcessingOptions = {}): Promise<void> => {
+    const pending = new Map<string, { source: AudioBuffer, clip: Clip }>();
+    const inUse = new Map<AudioBuffer, Set<string>>();
+    tracks.forEach((track, t) => track.clips.forEach(clip => {
+        if (!isClipProcessed(clip)) return;
+        const key = clipCacheKey(clip);
+        inUse.set(track.buffer, (inUse.get(track.buffer) ?? new Set()).add(key));
+        if (!isClipReady(track.buffer, clip)) pending.set(`${t}:${key}`, { source: track.buffer, clip });
+    }));
+
+    const jobs = [...pending.values()];
+    for (let i = 0; i < jobs.length; i++) {
+        const { source, clip } = jobs[i];
+        const processed = await runDspJob({
+            kind: 'stretch',
+            channels: rangeChannels(source, 0, source.length),
+            sampleRate: source.sampleRate,
+            stretch: clip.stretch,
+            semitones: clip.pitch,
+        }, progressRange(options, i / jobs.length, (i + 1) / jobs.length));
+        cacheClipBuffer(source, clipCacheKey(clip), processed, inUse.get(source)!);
+    }
+    options.onProgress?.(1);
+};
+
+// Node setup shared by the Editor's studio effect and the Studio's track inserts
+export const STUDIO_EQ: EqSettings = { type: 'lowshelf', frequency: 300, gain: 3, q: 1 };
+export const STUDIO_COMPRESSOR: CompressorSettings = { threshold: -24, knee: 30, ratio: 12, attack: 0.003, release: 0.25 };
+
+export const createEqNode = (ctx: BaseAudioContext, settings: EqSettings): BiquadFilterNode => {
+    const eq = ctx.createBiquadFilter();
+    eq.type = settings.type;
+    eq.frequency.setValueAtTime(settings.frequency, ctx.currentTime);
+    eq.gain.setValueAtTime(settings.gain, ctx.currentTime);
+    eq.Q.setValueAtTime(settings.q, ctx.currentTime);
+    return eq;
+};
+
+export const createCompressorNode = (ctx: BaseAudioContext, settings: CompressorSettings): DynamicsCompressorNode => {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.setValueAtTime(settings.threshold, ctx.currentTime);
+    compressor.knee.setValueAtTime(settings.knee, ctx.currentTime);
+    compressor.ratio.setValueAtTime(settings.ratio, ctx.currentTime);
+    compressor.attack.setValueAtTime(settings.attack, ctx.currentTime);
+    compressor.release.setValueAtTime(settings.release, ctx.currentTime);
+    return compressor;
+};
+
+// Renders the range through the node graph built by `connect` (input -> ... -> destination)
+// and writes the result back over the range of a copy of the buffer. `latency` frames of
+// delay added by the graph are rendered past the end and dropped from the start.
+const processRange = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    connect: (ctx: OfflineAudioContext, input: AudioNode) => void | Promise<unknown>,
+    latency = 0,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
     const trimmedBuffer = trimAudioBuffer(buffer, start, end, context);
     
     const offlineCtx = new OfflineAudioContext(
         trimmedBuffer.numberOfChannels,
-        trimmedBuffer.length,
+        trimmedBuffer.length + latency,
         trimmedBuffer.sampleRate
     );
 
     const source = offlineCtx.createBufferSource();
     source.buffer = trimmedBuffer;
-
-    // Compressor to even out volume
-    const compressor = offlineCtx.createDynamicsCompressor();
-    compressor.threshold.setValueAtTime(-24, offlineCtx.currentTime);
-    compressor.knee.setValueAtTime(30, offlineCtx.currentTime);
-    compressor.ratio.setValueAtTime(12, offlineCtx.currentTime);
-    compressor.attack.setValueAtTime(0.003, offlineCtx.currentTime);
-    compressor.release.setValueAtTime(0.25, offlineCtx.currentTime);
-
-    // EQ to add warmth (slight bass boost)
-    const eq = offlineCtx.createBiquadFilter();
-    eq.type = "lowshelf";
-    eq.frequency.setValueAtTime(300, offlineCtx.currentTime);
-    eq.gain.setValueAtTime(3, offlineCtx.currentTime);
-
-    source.connect(eq);
-    eq.connect(compressor);
-    compressor.connect(offlineCtx.destination);
-    
+    await connect(offlineCtx, source);
     source.start(0);
 
-    const renderedBuffer = await offlineCtx.startRendering();
+    const renderedBuffer = removeLatency(context, await renderOffline(offlineCtx, options), latency);
 
     // Now, combine the processed (trimmed) part with the original buffer
     const originalBufferClone = cloneAudioBuffer(buffer, context);
@@ -195,62 +510,145 @@ export const applyStudioEffect = async (buffer: AudioBuffer, start: number, end:
     return originalBufferClone;
 };
 
+export const applyStudioEffect = (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    settings: StudioVoiceSettings,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> =>
+    processRange(
+        buffer, start, end, context,
+        (ctx, input) => connectStudioVoice(ctx, settings, input, ctx.destination),
+        studioVoiceLatency(buffer.sampleRate),
+        options
+    );
 
-// WAV encoding function
-function writeString(view: DataView, offset: number, string: string) {
-    for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
+export const applyParametricEq = (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    bands: EqBand[],
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> =>
+    processRange(buffer, start, end, context, (ctx, input) => {
+        connectEqChain(ctx, bands, input, ctx.destination);
+    }, 0, options);
+
+
+// Drops the first `latency` frames of an offline render (the master limiter's lookahead),
+// keeping `length` frames after them
+const removeLatency = (context: BaseAudioContext, rendered: AudioBuffer, latency: number, length = rendered.length - latency): AudioBuffer => {
+    const output = context.createBuffer(rendered.numberOfChannels, length, rendered.sampleRate);
+    for (let ch = 0; ch < rendered.numberOfChannels; ch++) {
+        output.copyToChannel(rendered.getChannelData(ch).subarray(latency, latency + length), ch);
     }
-}
+    return output;
+};
 
-function floatTo16BitPCM(output: DataView, offset: number, input: Float32Array) {
-    for (let i = 0; i < input.length; i++, offset += 2) {
-        const s = Math.max(-1, Math.min(1, input[i]));
-        output.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-    }
-}
+// measureLoudness of `start`..`end` seconds, run on the DSP worker
+export const measureLoudnessInWorker = (
+    buffer: AudioBuffer,
+    start = 0,
+    end = buffer.duration,
+    options: ProcessingOptions = {}
+): Promise<LoudnessStats> => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+    return runDspJob({ kind: 'loudness', channels: rangeChannels(buffer, startSample, endSample), sampleRate: buffer.sampleRate }, options);
+};
 
-export const audioBufferToWavBlob = (buffer: AudioBuffer): Blob => {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const bufferArray = new ArrayBuffer(length);
-    const view = new DataView(bufferArray);
-    let offset = 0;
-
-    writeString(view, offset, 'RIFF'); offset += 4;
-    view.setUint32(offset, length - 8, true); offset += 4;
-    writeString(view, offset, 'WAVE'); offset += 4;
-    writeString(view, offset, 'fmt '); offset += 4;
-    view.setUint32(offset, 16, true); offset += 4;
-    view.setUint16(offset, 1, true); offset += 2;
-    view.setUint16(offset, numOfChan, true); offset += 2;
-    view.setUint32(offset, buffer.sampleRate, true); offset += 4;
-    view.setUint32(offset, buffer.sampleRate * 2 * numOfChan, true); offset += 4;
-    view.setUint16(offset, numOfChan * 2, true); offset += 2;
-    view.setUint16(offset, 16, true); offset += 2;
-    writeString(view, offset, 'data'); offset += 4;
-    view.setUint32(offset, length - offset - 4, true); offset += 4;
-
-    const channels = [];
-    for (let i = 0; i < buffer.numberOfChannels; i++) {
-        channels.push(buffer.getChannelData(i));
+// Pauses of the whole buffer, found on the DSP worker
+export const detectSilenceInWorker = (
+    buffer: AudioBuffer,
+    settings: SilenceSettings,
+    options: ProcessingOptions = {}
+): Promise<SelectionRange[]> =>
+    runDspJob({ kind: 'silence', channels: rangeChannels(buffer, 0, buffer.length), sampleRate: buffer.sampleRate, settings }, options);
+
+// Gains every sample and clips it to ±`ceiling` (linear)
+const gainAndClip = (buffer: AudioBuffer, gain: number, ceiling: number): AudioBuffer => {
+    const output = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length: buffer.length, sampleRate: buffer.sampleRate });
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const input = buffer.getChannelData(ch);
+        const data = output.getChannelData(ch);
+        for (let i = 0; i < input.length; i++) {
+            data[i] = Math.max(-ceiling, Math.min(ceiling, input[i] * gain));
+        }
     }
+    return output;
+};
 
-    const interleaved = new Float32Array(buffer.length * numOfChan);
-    let index = 0;
-    for (let i = 0; i < buffer.length; i++) {
-        for (let j = 0; j < numOfChan; j++) {
-            interleaved[index++] = channels[j][i];
-        }
+// Gains the whole buffer to the target integrated loudness, then limits it to the true-peak
+// ceiling with the master bus limiter. Silent (ungated) audio is returned unchanged. Without
+// AudioWorklet the samples are only clipped to the ceiling, and `options.onWarning` says so.
+export const normalizeLoudness = async (buffer: AudioBuffer, target: LoudnessTarget, options: ProcessingOptions = {}): Promise<AudioBuffer> => {
+    const { integrated } = await measureLoudnessInWorker(buffer, 0, buffer.duration, progressRange(options, 0, 0.3));
+    if (!isFinite(integrated)) return buffer;
+    const gain = Math.pow(10, (target.lufs - integrated) / 20);
+
+    const offlineCtx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length + limiterLatency(buffer.sampleRate), buffer.sampleRate);
+    const masterBus = await createMasterBus(offlineCtx, {
+        gain,
+        limiterEnabled: true,
+        ceiling: target.ceiling,
+        release: 0.1,
+    }, offlineCtx.destination);
+    if (!masterBus.truePeak) {
+        options.onWarning?.(`Trình duyệt không hỗ trợ AudioWorklet nên không thể giới hạn true peak: âm thanh đã được chuẩn hoá và cắt đỉnh mẫu ở ${target.ceiling} dB.`);
+        return gainAndClip(buffer, gain, Math.pow(10, target.ceiling / 20));
     }
 
-    floatTo16BitPCM(view, offset, interleaved);
+    const source = offlineCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(masterBus.input);
+    source.start(0);
+
+    return removeLatency(offlineCtx, await renderOffline(offlineCtx, progressRange(options, 0.3, 1)), masterBus.latency, buffer.length);
+};
+
+export const applyLoudnessNormalize = async (
+    buffer: AudioBuffer,
+    start: number,
+    end: number,
+    context: AudioContext,
+    target: LoudnessTarget,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    const processed = await normalizeLoudness(trimAudioBuffer(buffer, start, end, context), target, options);
+
+    const originalBufferClone = cloneAudioBuffer(buffer, context);
+    const startSample = Math.floor(start * buffer.sampleRate);
+    for (let i = 0; i < originalBufferClone.numberOfChannels; i++) {
+        originalBufferClone.getChannelData(i).set(processed.getChannelData(i), startSample);
+    }
+    return originalBufferClone;
+};
 
-    return new Blob([view], { type: 'audio/wav' });
+// Encodes the buffer into the file described by the export settings, tagged with `metadata`
+// and `markers` (times relative to the buffer), on the DSP worker
+export const exportAudio = async (
+    buffer: AudioBuffer,
+    settings: ExportSettings,
+    metadata: AudioMetadata,
+    markers: Marker[],
+    options: ProcessingOptions = {}
+): Promise<Blob> => {
+    const channels = rangeChannels(buffer, 0, buffer.length);
+    const bytes = await runDspJob({ kind: 'encode', channels, sampleRate: buffer.sampleRate, settings, metadata, markers }, options);
+    return new Blob([bytes], { type: EXPORT_FORMATS[settings.format].mimeType });
 };
 
 // Multi-track rendering
-export const renderMix = async (tracks: Track[], sampleRate: number = 44100): Promise<AudioBuffer> => {
+export const renderMix = async (
+    tracks: Track[],
+    master: MasterBusSettings,
+    ducking: DuckingSettings,
+    options: ProcessingOptions = {},
+    sampleRate: number = 44100
+): Promise<AudioBuffer> => {
     if (tracks.length === 0) {
         throw new Error("No tracks to render");
     }
@@ -258,29 +656,24 @@ export const renderMix = async (tracks: Track[], sampleRate: number = 44100): Pr
     // Find total duration
     let totalDuration = 0;
     tracks.forEach(track => {
-        const end = track.startTime + track.buffer.duration;
+        const end = trackEnd(track);
         if (end > totalDuration) totalDuration = end;
     });
     
     // Add a little buffer at the end
     totalDuration += 0.5;
 
-    const offlineCtx = new OfflineAudioContext(2, Math.ceil(totalDuration * sampleRate), sampleRate);
+    // Stretched and pitch-shifted clips are processed on the worker before the graph uses them
+    await prepareClipBuffers(tracks, progressRange(options, 0, 0.2));
 
-    tracks.forEach(track => {
-        if (track.isMuted) return;
+    // Rendered long enough for the true-peak limiter; without AudioWorklet the bus has no latency
+    const length = Math.ceil(totalDuration * sampleRate);
+    const offlineCtx = new OfflineAudioContext(2, length + limiterLatency(sampleRate), sampleRate);
 
-        const source = offlineCtx.createBufferSource();
-        source.buffer = track.buffer;
-
-        const gain = offlineCtx.createGain();
-        gain.gain.value = track.volume;
-
-        source.connect(gain);
-        gain.connect(offlineCtx.destination);
-
-        source.start(track.startTime);
-    });
+    const masterBus = await createMasterBus(offlineCtx, master, offlineCtx.destination);
+    const duckingCurve = computeDuckingCurve(tracks.find(t => t.id === ducking.keyTrackId), ducking, totalDuration);
+    scheduleTracks(offlineCtx, tracks, masterBus.input, 0, 0, duckingCurve);
 
-    return await offlineCtx.startRendering();
+    // Drop the limiter's lookahead delay so the mix starts at timeline position 0
+    return removeLatency(offlineCtx, await renderOffline(offlineCtx, progressRange(options, 0.2, 1)), masterBus.latency, length);
 };
@@ -0,0 +1,57 @@
+
+import type { AutomationCurve, AutomationParam, AutomationPoint, Track, TrackAutomation } from '../types';
+
+export const AUTOMATION_CURVES: { value: AutomationCurve, label: string }[] = [
+    { value: 'linear', label: 'Tuyến tính' },
+    { value: 'smooth', label: 'Mượt' },
+    { value: 'step', label: 'Bậc thang' },
+];
+
+// Value range of each lane, matching the header sliders
+export const AUTOMATION_RANGES: Record<AutomationParam, { min: number, max: number }> = {
+    volume: { min: 0, max: 1.5 },
+    pan: { min: -1, max: 1 },
+};
+
+export const newPointId = () => Math.random().toString(36).substr(2, 9);
+
+export const emptyAutomation = (): TrackAutomation => ({ volume: [], pan: [] });
+
+export const sortPoints = (points: AutomationPoint[]): AutomationPoint[] =>
+    [...points].sort((a, b) => a.time - b.time);
+
+export const clampAutomationValue = (param: AutomationParam, value: number) =>
+    Math.max(AUTOMATION_RANGES[param].min, Math.min(AUTOMATION_RANGES[param].max, value));
+
+// Value of the segment from `from` to `to` at position p (0..1)
+export const interpolate = (from: AutomationPoint, to: AutomationPoint, p: number): number => {
+    const x = Math.max(0, Math.min(1, p));
+    switch (from.curve) {
+        case 'step':
+            return x < 1 ? from.value : to.value;
+        case 'smooth':
+            return from.value + (to.value - from.value) * (1 - Math.cos(x * Math.PI)) / 2;
+        default:
+            return from.value + (to.value - from.value) * x;
+    }
+};
+
+// Envelope value at a timeline position; holds the first/last value outside the points.
+// `points` must be sorted by time.
+export const automationValueAt = (points: AutomationPoint[], time: number): number => {
+    if (time <= points[0].time) return points[0].value;
+    for (let i = 0; i < points.length - 1; i++) {
+        if (time < points[i + 1].time) {
+            const from = points[i];
+            const to = points[i + 1];
+            return interpolate(from, to, (time - from.time) / (to.time - from.time));
+        }
+    }
+    return points[points.length - 1].value;
+};
+
+// Value the track parameter has at `time`, automated or static
+export const trackParamAt = (track: Track, param: AutomationParam, time: number): number => {
+    const points = track.automation[param];
+    return points.length > 0 ? automationValueAt(points, time) : track[param];
+};
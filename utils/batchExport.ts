@@ -0,0 +1,122 @@
+
+import type { AudioMetadata, BatchExportSettings, ExportSettings, LoudnessTarget, Marker, SelectionRange } from '../types';
+import { applyFadeIn, applyFadeOut, detectSilenceInWorker, exportAudio, normalizeLoudness, trimAudioBuffer } from './audio';
+import { EXPORT_FORMATS } from './exportFormats';
+import { sortMarkers } from './markers';
+import { DEFAULT_SILENCE } from './silence';
+import { progressRange, throwIfCancelled, type ProcessingOptions } from './processing';
+import { zipFiles, type ZipEntry } from './zip';
+
+// "Xuất hàng loạt": cuts one recording into parts (the labelled regions, the stretches between
+// markers, or the sound between pauses) and exports each as its own numbered file in a ZIP.
+
+export const DEFAULT_BATCH_EXPORT: BatchExportSettings = {
+    split: 'regions',
+    silence: DEFAULT_SILENCE,
+    normalize: false,
+    fadeIn: 0,
+    fadeOut: 0,
+};
+
+const MIN_PART = 0.1; // Seconds; shorter parts are left out
+const MAX_NAME_LENGTH = 80;
+
+export interface BatchPart {
+    label: string;
+    start: number; // Seconds
+    end: number;
+}
+
+const keepLong = (parts: BatchPart[]) => parts.filter(part => part.end - part.start >= MIN_PART);
+
+export const regionParts = (markers: Marker[]): BatchPart[] =>
+    keepLong(sortMarkers(markers)
+        .filter(m => m.end !== null)
+        .map(m => ({ label: m.label, start: m.start, end: m.end! })));
+
+// Splits at the start of every marker; a part is named after the marker it starts at
+export const markerParts = (markers: Marker[], duration: number): BatchPart[] => {
+    const splits = sortMarkers(markers).filter(m => m.start > 0 && m.start < duration);
+    const parts: BatchPart[] = [];
+    let start = 0;
+    let label = markers.find(m => m.start <= 0)?.label ?? 'Mở đầu';
+    for (const marker of splits) {
+        if (marker.start > start) parts.push({ label, start, end: marker.start });
+        start = marker.start;
+        label = marker.label;
+    }
+    parts.push({ label, start, end: duration });
+    return keepLong(parts);
+};
+
+// The sound between pauses, each part keeping `padding` of the pause around it (at most half).
+// Pauses at the very start and end only trim the first and last part.
+export const silenceParts = (silences: SelectionRange[], duration: number, padding: number): BatchPart[] => {
+    const parts: BatchPart[] = [];
+    let start: number | null = 0; // Of the part in progress; null after a pause that ends the audio
+    for (const silence of silences) {
+        const keep = Math.max(0, Math.min(padding, (silence.end - silence.start) / 2));
+        if (start !== null && silence.start > 0) parts.push({ label: '', start, end: silence.start + keep });
+        start = silence.end >= duration ? null : Math.max(0, silence.end - keep);
+    }
+    if (start !== null) parts.push({ label: '', start, end: duration });
+    return keepLong(parts).map((part, i) => ({ ...part, label: `Phần ${i + 1}` }));
+};
+
+// Parts of the buffer for the chosen split; pauses are detected on the DSP worker
+export const planBatchParts = async (
+    buffer: AudioBuffer,
+    markers: Marker[],
+    settings: BatchExportSettings,
+    options: ProcessingOptions = {}
+): Promise<BatchPart[]> => {
+    switch (settings.split) {
+        case 'regions':
+            return regionParts(markers);
+        case 'markers':
+            return markerParts(markers, buffer.duration);
+        case 'silence': {
+            const silences = await detectSilenceInWorker(buffer, settings.silence, options);
+            return silenceParts(silences, buffer.duration, settings.silence.padding);
+        }
+    }
+};
+
+// "03_Câu hỏi 3.mp3"; numbers are padded to the same width
+export const batchFilename = (index: number, count: number, label: string, settings: ExportSettings): string => {
+    const number = String(index + 1).padStart(Math.max(2, String(count).length), '0');
+    const name = label.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+    return `${number}${name ? `_${name}` : ''}.${EXPORT_FORMATS[settings.format].extension}`;
+};
+
+// Trims, processes and encodes every part; each file is tagged with `metadata`, titled after its part
+export const exportBatch = async (
+    buffer: AudioBuffer,
+    parts: BatchPart[],
+    settings: BatchExportSettings,
+    exportSettings: ExportSettings,
+    metadata: AudioMetadata,
+    loudnessTarget: LoudnessTarget,
+    context: AudioContext,
+    options: ProcessingOptions = {}
+): Promise<Blob> => {
+    if (parts.length === 0) throw new Error("Không có đoạn nào để xuất.");
+
+    const entries: ZipEntry[] = [];
+    for (const [index, part] of parts.entries()) {
+        throwIfCancelled(options);
+        const partOptions = progressRange(options, index / parts.length, (index + 1) / parts.length);
+        const encodeFrom = settings.normalize ? 0.5 : 0;
+
+        let audio = trimAudioBuffer(buffer, part.start, Math.min(buffer.duration, part.end), context);
+        if (settings.normalize) {
+            audio = await normalizeLoudness(audio, loudnessTarget, progressRange(partOptions, 0, encodeFrom));
+        }
+        if (settings.fadeIn > 0) audio = applyFadeIn(audio, 0, audio.duration, context, settings.fadeIn);
+        if (settings.fadeOut > 0) audio = applyFadeOut(audio, 0, audio.duration, context, settings.fadeOut);
+
+        const blob = await exportAudio(audio, exportSettings, { ...metadata, title: part.label }, [], progressRange(partOptions, encodeFrom, 1));
+        entries.push({ name: batchFilename(index, parts.length, part.label, exportSettings), data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    return zipFiles(entries);
+};
@@ -0,0 +1,23 @@
+
+// Helpers for writing binary file formats
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+// Four-character codes and other plain ASCII identifiers
+export const asciiBytes = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xFF);
+
+export const utf8Bytes = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export const uint32LE = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+};
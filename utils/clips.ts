@@ -0,0 +1,97 @@
+
+import type { Clip, Track } from '../types';
+
+// Shortest clip that trimming or splitting may leave behind, in seconds
+export const MIN_CLIP_DURATION = 0.05;
+
+const DEFAULT_FADES = {
+    fadeIn: 0,
+    fadeOut: 0,
+    fadeInCurve: 'linear',
+    fadeOutCurve: 'linear',
+} as const;
+
+const DEFAULT_PROCESSING = {
+    stretch: 1,
+    pitch: 0,
+} as const;
+
+export const newClipId = () => Math.random().toString(36).substr(2, 9);
+
+export const createClip = (buffer: AudioBuffer, startTime: number = 0): Clip => ({
+    id: newClipId(),
+    startTime,
+    offset: 0,
+    duration: buffer.duration,
+    ...DEFAULT_FADES,
+    ...DEFAULT_PROCESSING,
+});
+
+// Fills in fields added after a clip was stored (sessions, projects)
+export const withClipDefaults = (clip: Pick<Clip, 'id' | 'startTime' | 'offset' | 'duration'> & Partial<Clip>): Clip => ({
+    ...DEFAULT_FADES,
+    ...DEFAULT_PROCESSING,
+    ...clip,
+});
+
+// Keeps both fades inside the clip after its length changed
+const clampFades = (clip: Clip): Clip => {
+    const fadeIn = Math.min(clip.fadeIn, clip.duration);
+    return { ...clip, fadeIn, fadeOut: Math.min(clip.fadeOut, clip.duration - fadeIn) };
+};
+
+export const clipEnd = (clip: Clip) => clip.startTime + clip.duration;
+
+// Position in the source buffer heard `time` seconds into the clip
+export const clipSourceTime = (clip: Clip, time: number) => clip.offset + time / clip.stretch;
+
+// The clip is played from a processed copy of its source
+export const isClipProcessed = (clip: Clip) => clip.stretch !== 1 || clip.pitch !== 0;
+
+// Changes the clip's time-stretch keeping its start; the timeline length follows
+export const setClipStretch = (clip: Clip, stretch: number): Clip =>
+    clampFades({ ...clip, stretch, duration: clip.duration * stretch / clip.stretch });
+
+export const trackEnd = (track: Track) => Math.max(0, ...track.clips.map(clipEnd));
+
+const replaceClip = (track: Track, clipId: string, ...replacement: Clip[]): Clip[] =>
+    track.clips.flatMap(c => c.id === clipId ? replacement : [c]);
+
+// Splits the clip at the given timeline time; returns the track's clips unchanged if the
+// split point would leave a piece shorter than MIN_CLIP_DURATION.
+export const splitClip = (track: Track, clipId: string, time: number): Clip[] => {
+    const clip = track.clips.find(c => c.id === clipId);
+    if (!clip) return track.clips;
+    const head = time - clip.startTime;
+    if (head < MIN_CLIP_DURATION || clip.duration - head < MIN_CLIP_DURATION) return track.clips;
+
+    // The head keeps the fade-in, the tail keeps the fade-out
+    return replaceClip(track, clipId,
+        clampFades({ ...clip, duration: head, fadeOut: 0 }),
+        clampFades({ ...clip, id: newClipId(), startTime: time, offset: clipSourceTime(clip, head), duration: clip.duration - head, fadeIn: 0 })
+    );
+};
+
+// Places a copy of the clip directly after the original
+export const duplicateClip = (track: Track, clipId: string): Clip[] => {
+    const clip = track.clips.find(c => c.id === clipId);
+    if (!clip) return track.clips;
+    return replaceClip(track, clipId, clip, { ...clip, id: newClipId(), startTime: clipEnd(clip) });
+};
+
+export const removeClip = (track: Track, clipId: string): Clip[] => replaceClip(track, clipId);
+
+// Moves the clip's left edge to `newStartTime` while keeping its right edge fixed
+export const trimClipStart = (clip: Clip, newStartTime: number): Clip => {
+    const end = clipEnd(clip);
+    const earliest = Math.max(0, clip.startTime - clip.offset * clip.stretch); // Can't reveal audio before the source start
+    const startTime = Math.max(earliest, Math.min(end - MIN_CLIP_DURATION, newStartTime));
+    return clampFades({ ...clip, startTime, offset: clipSourceTime(clip, startTime - clip.startTime), duration: end - startTime });
+};
+
+// Moves the clip's right edge to `newEndTime`
+export const trimClipEnd = (track: Track, clip: Clip, newEndTime: number): Clip => {
+    const maxDuration = (track.buffer.duration - clip.offset) * clip.stretch;
+    const duration = Math.max(MIN_CLIP_DURATION, Math.min(maxDuration, newEndTime - clip.startTime));
+    return clampFades({ ...clip, duration });
+};
@@ -0,0 +1,18 @@
+
+// Conversion of float samples to integers of a lower bit depth. Plain rounding leaves an
+// error that follows the signal and is heard as distortion on quiet passages; TPDF dither
+// (the sum of two uniform random values, ±1 LSB peak) turns it into a constant, benign hiss.
+
+export const quantizeChannels = (channels: Float32Array[], bits: number, dither: boolean): Int32Array[] => {
+    const scale = 2 ** (bits - 1);
+    const max = scale - 1;
+    return channels.map(data => {
+        const output = new Int32Array(data.length);
+        for (let i = 0; i < data.length; i++) {
+            const noise = dither ? Math.random() - Math.random() : 0;
+            const value = Math.round(data[i] * scale + noise);
+            output[i] = value > max ? max : value < -scale ? -scale : value;
+        }
+        return output;
+    });
+};
@@ -0,0 +1,63 @@
+
+import { learnNoiseProfile, spectralDenoise } from './noiseReduction';
+import { applyGateToChannels, computeGateGains } from './gate';
+import { stretchAndShiftChannels } from './timeStretch';
+import { measureChannelsLoudness } from './loudness';
+import { encodeChannels } from './encode';
+import { detectSilences } from './silence';
+import type { DspJob, DspMessage } from './processing';
+
+const PROGRESS_STEP = 0.01; // Smaller advances are not posted
+
+const post = (message: DspMessage, transfer: Transferable[] = []) =>
+    (self as unknown as Worker).postMessage(message, transfer);
+
+let reported = 0;
+const reportProgress = (progress: number) => {
+    if (progress - reported < PROGRESS_STEP) return;
+    reported = progress;
+    post({ type: 'progress', progress });
+};
+
+const postChannels = (channels: Float32Array[]) =>
+    post({ type: 'result', result: channels }, channels.map(c => c.buffer));
+
+self.onmessage = async (event: MessageEvent<DspJob>) => {
+    const job = event.data;
+    try {
+        switch (job.kind) {
+            case 'learnNoise': {
+                const profile = learnNoiseProfile(job.channels, job.sampleRate);
+                post({ type: 'result', result: profile }, [profile.magnitudes.buffer]);
+                break;
+            }
+            case 'denoise':
+                postChannels(spectralDenoise(job.channels, job.sampleRate, job.settings, job.profile, reportProgress));
+                break;
+            case 'gate':
+                postChannels(applyGateToChannels(job.channels, job.sampleRate, job.settings));
+                break;
+            case 'gateGains': {
+                const gains = computeGateGains(job.channels, job.sampleRate, job.settings);
+                post({ type: 'result', result: gains }, [gains.buffer]);
+                break;
+            }
+            case 'stretch':
+                postChannels(stretchAndShiftChannels(job.channels, job.sampleRate, job.stretch, job.semitones, reportProgress));
+                break;
+            case 'loudness':
+                post({ type: 'result', result: measureChannelsLoudness(job.channels, job.sampleRate) });
+                break;
+            case 'silence':
+                post({ type: 'result', result: detectSilences(job.channels, job.sampleRate, job.settings, reportProgress) });
+                break;
+            case 'encode': {
+                const bytes = await encodeChannels(job.channels, job.sampleRate, job.settings, job.metadata, job.markers, reportProgress);
+                post({ type: 'result', result: bytes }, [bytes.buffer]);
+                break;
+            }
+        }
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
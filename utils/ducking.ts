@@ -0,0 +1,84 @@
+
+import type { DuckingSettings, Track } from '../types';
+import { clipEnd, clipSourceTime } from './clips';
+import { clipGainAt, getClipFades } from './fades';
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+    enabled: false,
+    keyTrackId: null,
+    duckedTrackIds: [],
+    amount: 12,
+    threshold: -35,
+    attack: 0.05,
+    release: 0.5,
+};
+
+export const withDuckingDefaults = (ducking?: Partial<DuckingSettings>): DuckingSettings => ({
+    ...DEFAULT_DUCKING,
+    ...ducking,
+});
+
+// Resolution of the detector and of the resulting gain curve
+const HOP = 0.01;
+
+// Gain applied to the ducked tracks, one value per HOP seconds of timeline from 0
+export interface DuckingCurve {
+    keyTrackId: string;
+    trackIds: string[];
+    hop: number;
+    gains: Float32Array;
+}
+
+// Level of the key track per frame, from its clips and fades (before volume, pan and
+// inserts, so the fader does not change when ducking kicks in).
+const keyEnergy = (key: Track, frames: number): Float64Array => {
+    const energy = new Float64Array(frames);
+    const { buffer } = key;
+    const sr = buffer.sampleRate;
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+    const fades = getClipFades(key);
+
+    key.clips.forEach(clip => {
+        const clipFades = fades.get(clip.id)!;
+        const end = clipEnd(clip);
+        const last = Math.min(frames - 1, Math.floor(end / HOP));
+        for (let f = Math.floor(clip.startTime / HOP); f <= last; f++) {
+            const from = Math.max(f * HOP, clip.startTime);
+            const to = Math.min((f + 1) * HOP, end);
+            if (to <= from) continue;
+            // Measured on the source; time-stretch and pitch shift keep the level
+            const s0 = Math.floor(clipSourceTime(clip, from - clip.startTime) * sr);
+            const s1 = Math.min(buffer.length, Math.floor(clipSourceTime(clip, to - clip.startTime) * sr));
+            let sum = 0;
+            for (const data of channels) {
+                for (let s = s0; s < s1; s++) sum += data[s] * data[s];
+            }
+            const gain = clipGainAt(clipFades, clip.duration, (from + to) / 2 - clip.startTime);
+            energy[f] += sum * gain * gain / channels.length;
+        }
+    });
+    return energy;
+};
+
+// Null when ducking is off or has nothing to act on. `duration` is the length of the mix.
+export const computeDuckingCurve = (key: Track | undefined, settings: DuckingSettings, duration: number): DuckingCurve | null => {
+    const trackIds = settings.duckedTrackIds.filter(id => id !== settings.keyTrackId);
+    if (!settings.enabled || !key || trackIds.length === 0) return null;
+
+    const frames = Math.ceil(duration / HOP) + 1;
+    const energy = keyEnergy(key, frames);
+    const frameSamples = HOP * key.buffer.sampleRate;
+    const attackCoef = 1 - Math.exp(-HOP / Math.max(HOP, settings.attack));
+    const releaseCoef = 1 - Math.exp(-HOP / Math.max(HOP, settings.release));
+
+    const gains = new Float32Array(frames);
+    let reduction = 0; // dB, <= 0
+    for (let f = 0; f < frames; f++) {
+        const level = 10 * Math.log10(energy[f] / frameSamples + 1e-12);
+        const target = level > settings.threshold ? -settings.amount : 0;
+        reduction += (target - reduction) * (target < reduction ? attackCoef : releaseCoef);
+        gains[f] = Math.pow(10, reduction / 20);
+    }
+
+    return { keyTrackId: key.id, trackIds, hop: HOP, gains };
+};
@@ -0,0 +1,152 @@
+
+import type { EditOperation, Marker } from '../types';
+import { applyFadeIn, applyFadeOut, applyNormalize, applyLoudnessNormalize, applyNoiseReduction, applyGate, applyParametricEq, applyStudioEffect, applyTimeStretch, applyPitchShift, deleteAudioRange, insertAudioBuffer, insertSilence } from './audio';
+import { formatPitch } from './timeStretch';
+import { progressRange, throwIfCancelled, type ProcessingOptions } from './processing';
+
+// A rendered snapshot of the edit list: `buffer` is the source with the first `count` operations applied.
+export interface RenderedEdits {
+    count: number;
+    buffer: AudioBuffer;
+}
+
+// Every effect returns a fresh buffer, so the source (and any earlier render) is never mutated.
+// Heavy effects run on the DSP worker or an offline context and report progress to `options`.
+export const applyOperation = async (
+    buffer: AudioBuffer,
+    operation: EditOperation,
+    context: AudioContext,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    throwIfCancelled(options);
+    switch (operation.type) {
+        case 'fadeIn':
+            return applyFadeIn(buffer, operation.start, operation.end, context, operation.duration);
+        case 'fadeOut':
+            return applyFadeOut(buffer, operation.start, operation.end, context, operation.duration);
+        case 'normalize':
+            return applyNormalize(buffer, operation.start, operation.end, context);
+        case 'loudness':
+            return applyLoudnessNormalize(buffer, operation.start, operation.end, context, operation.target, options);
+        case 'gate':
+            return applyGate(buffer, operation.start, operation.end, context, operation.settings, options);
+        case 'noiseReduction':
+            return applyNoiseReduction(buffer, operation.start, operation.end, context, operation.settings, operation.profile, options);
+        case 'eq':
+            return applyParametricEq(buffer, operation.start, operation.end, context, operation.bands, options);
+        case 'studio':
+            return applyStudioEffect(buffer, operation.start, operation.end, context, operation.settings, options);
+        case 'timeStretch':
+            return applyTimeStretch(buffer, operation.start, operation.end, context, operation.stretch, options);
+        case 'pitchShift':
+            return applyPitchShift(buffer, operation.start, operation.end, context, operation.semitones, options);
+        case 'delete':
+            return deleteAudioRange(buffer, operation.start, operation.end, context);
+        case 'paste':
+            return insertAudioBuffer(buffer, operation.clip, operation.at, context);
+        case 'silence':
+            return insertSilence(buffer, operation.at, operation.duration, context);
+    }
+};
+
+export const renderEdits = async (
+    source: AudioBuffer,
+    operations: EditOperation[],
+    count: number,
+    context: AudioContext,
+    cached?: RenderedEdits | null,
+    options: ProcessingOptions = {}
+): Promise<AudioBuffer> => {
+    // Resume from the cached render when it is a prefix of the requested one (redo, or a new edit);
+    // otherwise (undo) replay from the untouched source.
+    let buffer = source;
+    let index = 0;
+    if (cached && cached.count <= count) {
+        buffer = cached.buffer;
+        index = cached.count;
+    }
+
+    // Every operation still to apply is an equal share of the progress
+    const first = index;
+    for (; index < count; index++) {
+        const share = (i: number) => (i - first) / (count - first);
+        buffer = await applyOperation(buffer, operations[index], context, progressRange(options, share(index), share(index + 1)));
+    }
+    options.onProgress?.(1);
+    return buffer;
+};
+
+// Where a time of the buffer an operation is applied to ends up, or with `undo` the way back.
+// Times inside deleted audio go to the cut, and undoing an insert moves times inside it to its start.
+const mapEditTime = (operation: EditOperation, time: number, undo: boolean): number => {
+    switch (operation.type) {
+        case 'delete': {
+            const { start, end } = operation;
+            if (undo) return time > start ? time + (end - start) : time;
+            return time <= start ? time : time >= end ? time - (end - start) : start;
+        }
+        case 'paste':
+        case 'silence': {
+            const { at } = operation;
+            const length = operation.type === 'paste' ? operation.clip.duration : operation.duration;
+            if (undo) return time >= at + length ? time - length : Math.min(time, at);
+            return time > at ? time + length : time;
+        }
+        case 'timeStretch': {
+            const { start, end, stretch } = operation;
+            const added = (end - start) * (stretch - 1);
+            if (undo) {
+                return time <= start ? time : time >= end + added ? time - added : start + (time - start) / stretch;
+            }
+            return time <= start ? time : time >= end ? time + added : start + (time - start) * stretch;
+        }
+        default:
+            return time; // Effects keep the length of the audio
+    }
+};
+
+// Markers of the Editor after (or, undoing, before) an operation; regions whose audio was
+// deleted entirely are dropped
+export const remapMarkers = (markers: Marker[], operation: EditOperation, undo = false): Marker[] =>
+    markers
+        .map(m => ({
+            ...m,
+            start: mapEditTime(operation, m.start, undo),
+            end: m.end === null ? null : mapEditTime(operation, m.end, undo),
+        }))
+        .filter(m => m.end === null || m.end > m.start);
+
+export const describeOperation = (operation: EditOperation): string => {
+    if (operation.type === 'paste') {
+        return `Dán (${operation.clip.duration.toFixed(2)}s) · ${operation.at.toFixed(2)}s`;
+    }
+    if (operation.type === 'silence') {
+        return `Chèn im lặng (${operation.duration}s) · ${operation.at.toFixed(2)}s`;
+    }
+
+    const range = `${operation.start.toFixed(2)}s – ${operation.end.toFixed(2)}s`;
+    switch (operation.type) {
+        case 'fadeIn':
+            return `Fade In (${operation.duration}s) · ${range}`;
+        case 'fadeOut':
+            return `Fade Out (${operation.duration}s) · ${range}`;
+        case 'normalize':
+            return `Normalize · ${range}`;
+        case 'loudness':
+            return `Chuẩn hoá ${operation.target.lufs} LUFS (≤ ${operation.target.ceiling} dBTP) · ${range}`;
+        case 'noiseReduction':
+            return `Khử nhiễu -${operation.settings.reduction} dB${operation.profile ? ' (mẫu)' : ''} · ${range}`;
+        case 'gate':
+            return `Gate ${operation.settings.threshold} dB · ${range}`;
+        case 'eq':
+            return `EQ ${operation.bands.filter(b => b.enabled).length} băng · ${range}`;
+        case 'studio':
+            return `Giọng Studio AI · ${range}`;
+        case 'timeStretch':
+            return `Co giãn ${Math.round(operation.stretch * 100)}% · ${range}`;
+        case 'pitchShift':
+            return `Cao độ ${formatPitch(operation.semitones)} · ${range}`;
+        case 'delete':
+            return `Xóa · ${range}`;
+    }
+};
@@ -0,0 +1,135 @@
+
+import type { EditOperation } from '../types';
+import { connectEqChain, setEqBand } from './eq';
+import { connectStudioVoice, studioVoiceLatency } from './studioVoice';
+
+// Preview of an Editor effect before it is committed to the edit history.
+//
+// The slot sits between the Editor's sources and its volume node:
+//   input -> delay (latency of the live chain) -> dry ─┐
+//   input -> live effect chain ----------------> wet ──┴-> output
+// Effects made of Web Audio nodes (EQ, studio voice) run live on this graph, so parameter
+// changes are heard immediately. The others are rendered in the background and the result
+// is played into `wet` in sync with the original. Bypass only crossfades wet and dry.
+
+export type PreviewEffect = 'eq' | 'studio' | 'gate' | 'noiseReduction' | 'pitchShift';
+
+export const PREVIEW_LABELS: Record<PreviewEffect, string> = {
+    eq: 'EQ tham số',
+    studio: 'Giọng Studio',
+    gate: 'Gate / Expander',
+    noiseReduction: 'Khử nhiễu',
+    pitchShift: 'Cao độ',
+};
+
+export const isLivePreview = (effect: PreviewEffect) => effect === 'eq' || effect === 'studio';
+
+const CROSSFADE = 0.01; // Seconds, time constant of the wet/dry switch
+
+export interface PreviewSlot {
+    input: GainNode;
+    wet: GainNode;
+    dry: GainNode;
+    delay: DelayNode;
+    live: { operation: EditOperation, nodes: AudioNode[] } | null;
+    active: boolean; // A live chain or a rendered preview feeds `wet`
+    bypass: boolean;
+    generation: number; // Bumped by every change, so a slow chain build cannot overwrite a newer one
+}
+
+export const createPreviewSlot = (ctx: BaseAudioContext, output: AudioNode): PreviewSlot => {
+    const input = ctx.createGain();
+    const wet = ctx.createGain();
+    const dry = ctx.createGain();
+    const delay = ctx.createDelay(1);
+    wet.gain.value = 0;
+    input.connect(delay);
+    delay.connect(dry);
+    dry.connect(output);
+    wet.connect(output);
+    return { input, wet, dry, delay, live: null, active: false, bypass: false, generation: 0 };
+};
+
+const updateMix = (slot: PreviewSlot) => {
+    const time = slot.wet.context.currentTime;
+    const wet = slot.active && !slot.bypass;
+    slot.wet.gain.setTargetAtTime(wet ? 1 : 0, time, CROSSFADE);
+    slot.dry.gain.setTargetAtTime(wet ? 0 : 1, time, CROSSFADE);
+};
+
+export const updatePreviewBypass = (slot: PreviewSlot, bypass: boolean) => {
+    slot.bypass = bypass;
+    updateMix(slot);
+};
+
+// Removes a chain built from `input` into `wet` (an empty EQ connects the two directly)
+const disconnectChain = (slot: PreviewSlot, nodes: AudioNode[]) => {
+    try {
+        slot.input.disconnect(nodes[0] ?? slot.wet);
+    } catch {
+        // Never connected
+    }
+    nodes.forEach(node => node.disconnect());
+};
+
+const dropLive = (slot: PreviewSlot) => {
+    if (slot.live) disconnectChain(slot, slot.live.nodes);
+    slot.live = null;
+};
+
+// Same effect and parameters; the range does not matter while previewing
+const sameEffect = (a: EditOperation, b: EditOperation) =>
+    JSON.stringify({ ...a, start: 0, end: 0 }) === JSON.stringify({ ...b, start: 0, end: 0 });
+
+// Runs `operation` live on the slot, or clears the live chain when it is null. An EQ with
+// the same number of bands is updated in place instead of rebuilt, so dragging is seamless.
+export const setLivePreview = async (slot: PreviewSlot, operation: EditOperation | null): Promise<void> => {
+    const generation = ++slot.generation;
+    const ctx = slot.input.context;
+
+    if (!operation) {
+        dropLive(slot);
+        slot.delay.delayTime.value = 0;
+        slot.active = false;
+        updateMix(slot);
+        return;
+    }
+    if (slot.live && sameEffect(slot.live.operation, operation)) return;
+
+    if (operation.type === 'eq' && slot.live?.operation.type === 'eq' && slot.live.operation.bands.length === operation.bands.length) {
+        slot.live.nodes.forEach((filter, i) => setEqBand(filter as BiquadFilterNode, operation.bands[i]));
+        slot.live.operation = operation;
+        return;
+    }
+
+    let nodes: AudioNode[];
+    let latency = 0;
+    if (operation.type === 'eq') {
+        nodes = connectEqChain(ctx, operation.bands, slot.input, slot.wet);
+    } else if (operation.type === 'studio') {
+        nodes = await connectStudioVoice(ctx, operation.settings, slot.input, slot.wet);
+        latency = studioVoiceLatency(ctx.sampleRate);
+    } else {
+        throw new Error(`Không thể nghe thử trực tiếp: ${operation.type}`);
+    }
+
+    if (generation !== slot.generation) {
+        // A newer change arrived while this chain was being built
+        disconnectChain(slot, nodes);
+        return;
+    }
+    dropLive(slot);
+    slot.live = { operation, nodes };
+    slot.delay.delayTime.value = latency / ctx.sampleRate;
+    slot.active = true;
+    updateMix(slot);
+};
+
+// Marks a rendered preview as feeding `wet` (sources are connected to it by the caller)
+export const setRenderedPreview = (slot: PreviewSlot, active: boolean) => {
+    slot.generation++;
+    dropLive(slot);
+    slot.delay.delayTime.value = 0;
+    slot.active = active;
+    updateMix(slot);
+};
@@ -0,0 +1,63 @@
+
+import type { AudioMetadata, ExportSettings, Marker } from '../types';
+import { concatBytes } from './bytes';
+import { resampleChannel } from './resample';
+import { quantizeChannels } from './dither';
+import { encodeFloatWav, encodePcmWav } from './wav';
+import { encodeFlac } from './flac';
+import { encodeMp3 } from './mp3';
+import { encodeOpus } from './opus';
+import { flacMetadataBlocks, hasMetadata, id3v2Tag, riffCueChunks, riffMetadataChunks, vorbisComments } from './metadata';
+import { markerChapters } from './markers';
+import { exportBitDepth, exportChannelCount, exportSampleRate } from './exportFormats';
+
+// Encodes audio into the file of the export settings: sample-rate conversion first, then
+// quantization with dither for the integer formats, then the format's own encoder with the
+// tags of `metadata`. Markers become chapters in MP3 and cue points in WAV; the other formats
+// leave them out. Runs on the DSP worker.
+
+const RESAMPLE_SHARE = 0.3; // Part of the progress spent converting the rate, when it is
+
+export const encodeChannels = async (
+    channels: Float32Array[],
+    sourceRate: number,
+    settings: ExportSettings,
+    metadata: AudioMetadata,
+    markers: Marker[],
+    onProgress?: (fraction: number) => void
+): Promise<Uint8Array> => {
+    const sampleRate = exportSampleRate(settings, sourceRate);
+    let audio = channels.slice(0, exportChannelCount(settings, channels.length));
+    let encodeFrom = 0;
+    if (sampleRate !== sourceRate) {
+        const step = sourceRate / sampleRate;
+        const length = Math.round((audio[0]?.length ?? 0) / step);
+        audio = audio.map((data, c) => {
+            const resampled = resampleChannel(data, step, length);
+            onProgress?.(RESAMPLE_SHARE * (c + 1) / audio.length);
+            return resampled;
+        });
+        encodeFrom = RESAMPLE_SHARE;
+    }
+    const encodeProgress = onProgress && ((fraction: number) => onProgress(encodeFrom + (1 - encodeFrom) * fraction));
+
+    const depth = exportBitDepth(settings);
+    switch (settings.format) {
+        case 'wav': {
+            const chunks = [...riffMetadataChunks(metadata), ...riffCueChunks(markers, sampleRate)];
+            return depth === 'float'
+                ? encodeFloatWav(audio, sampleRate, chunks)
+                : encodePcmWav(quantizeChannels(audio, depth!, settings.dither), sampleRate, depth!, chunks);
+        }
+        case 'flac':
+            return encodeFlac(quantizeChannels(audio, depth as 16 | 24, settings.dither), sampleRate, depth as 16 | 24, flacMetadataBlocks(metadata), encodeProgress);
+        case 'mp3': {
+            const stream = await encodeMp3(audio, sampleRate, settings, encodeProgress);
+            if (!hasMetadata(metadata) && markers.length === 0) return stream;
+            const chapters = markerChapters(markers, (channels[0]?.length ?? 0) / sourceRate);
+            return concatBytes([id3v2Tag(metadata, chapters), stream]);
+        }
+        case 'opus':
+            return encodeOpus(audio, sourceRate, settings.opusBitrate, vorbisComments(metadata, true), encodeProgress);
+    }
+};
@@ -0,0 +1,81 @@
+
+import type { EqBand } from '../types';
+
+// Parametric EQ: one BiquadFilterNode per band, in series. A disabled band is set to a
+// flat peaking filter instead of being removed, so a running chain can follow every
+// change by updating parameters without reconnecting anything.
+
+export const EQ_FREQUENCY_RANGE: [number, number] = [20, 20000];
+export const EQ_GAIN_RANGE = 24; // ± dB
+
+const band = (id: string, type: BiquadFilterType, frequency: number, gain = 0, q = 0.71): EqBand =>
+    ({ id, type, frequency, gain, q, enabled: true });
+
+export const DEFAULT_EQ_BANDS: EqBand[] = [
+    band('hp', 'highpass', 60),
+    band('low', 'lowshelf', 150),
+    band('lowmid', 'peaking', 400, 0, 1),
+    band('mid', 'peaking', 1200, 0, 1),
+    band('presence', 'peaking', 3500, 0, 1),
+    band('high', 'highshelf', 8000),
+    band('lp', 'lowpass', 18000),
+];
+
+// Types that use the gain parameter; shelves ignore Q
+export const eqTypeUsesGain = (type: BiquadFilterType) =>
+    type === 'peaking' || type === 'lowshelf' || type === 'highshelf';
+export const eqTypeUsesQ = (type: BiquadFilterType) => type !== 'lowshelf' && type !== 'highshelf';
+
+// Bands store Q as a linear factor; Web Audio reads it in dB for low/high-pass filters
+const biquadQ = (band: EqBand) =>
+    band.type === 'lowpass' || band.type === 'highpass' ? 20 * Math.log10(band.q) : band.q;
+
+export const setEqBand = (filter: BiquadFilterNode, band: EqBand, enabled = band.enabled) => {
+    const time = filter.context.currentTime;
+    filter.type = enabled ? band.type : 'peaking';
+    filter.frequency.setValueAtTime(band.frequency, time);
+    filter.gain.setValueAtTime(enabled ? band.gain : 0, time);
+    filter.Q.setValueAtTime(enabled ? biquadQ(band) : 1, time);
+};
+
+// Connects input -> band filters -> output and returns the filters in band order
+export const connectEqChain = (ctx: BaseAudioContext, bands: EqBand[], input: AudioNode, output: AudioNode): BiquadFilterNode[] => {
+    const filters = bands.map(b => {
+        const filter = ctx.createBiquadFilter();
+        setEqBand(filter, b);
+        return filter;
+    });
+    [input, ...filters].forEach((node, i) => node.connect(filters[i] ?? output));
+    return filters;
+};
+
+// Log-spaced frequencies for plotting a response curve
+export const responseFrequencies = (points: number): Float32Array => {
+    const [min, max] = EQ_FREQUENCY_RANGE;
+    return Float32Array.from({ length: points }, (_, i) => min * Math.pow(max / min, i / (points - 1)));
+};
+
+const measuringContexts = new Map<number, OfflineAudioContext>();
+
+// Combined magnitude response in dB at `frequencies`, using the browser's own filter design
+export const eqResponse = (bands: EqBand[], frequencies: Float32Array, sampleRate: number): Float32Array => {
+    let ctx = measuringContexts.get(sampleRate);
+    if (!ctx) {
+        ctx = new OfflineAudioContext(1, 1, sampleRate);
+        measuringContexts.set(sampleRate, ctx);
+    }
+    const total = new Float32Array(frequencies.length);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+    for (const b of bands) {
+        if (!b.enabled) continue;
+        const filter = ctx.createBiquadFilter();
+        filter.type = b.type;
+        filter.frequency.value = b.frequency;
+        filter.gain.value = b.gain;
+        filter.Q.value = biquadQ(b);
+        filter.getFrequencyResponse(frequencies, magnitude, phase);
+        for (let i = 0; i < total.length; i++) total[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    }
+    return total;
+};
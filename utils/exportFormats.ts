@@ -0,0 +1,67 @@
+
+import type { ExportFormat, ExportSettings } from '../types';
+import { OPUS_SAMPLE_RATE } from './opus';
+
+// Export formats and the constraints of each: which bit depths and sample rates they can
+// carry. Shared by the export dialog and the encoder.
+
+export const DEFAULT_EXPORT: ExportSettings = {
+    format: 'wav',
+    bitDepth: 16,
+    sampleRate: null,
+    dither: true,
+    mp3Mode: 'cbr',
+    mp3Bitrate: 192,
+    mp3Quality: 2,
+    opusBitrate: 96,
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string }> = {
+    wav: { label: 'WAV (không nén)', extension: 'wav', mimeType: 'audio/wav' },
+    flac: { label: 'FLAC (nén không mất dữ liệu)', extension: 'flac', mimeType: 'audio/flac' },
+    mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+    opus: { label: 'Opus (Ogg)', extension: 'opus', mimeType: 'audio/ogg' },
+};
+
+export const EXPORT_SAMPLE_RATES = [22050, 32000, 44100, 48000, 88200, 96000];
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 224, 256, 320]; // kbps
+export const OPUS_BITRATES = [32, 48, 64, 96, 128, 160, 192, 256]; // kbps
+
+// Rates of MPEG 1, 2 and 2.5 layer III
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+// Rate the file is written at: the requested one (or the source's) where the format allows it
+export const exportSampleRate = (settings: ExportSettings, sourceRate: number): number => {
+    const requested = settings.sampleRate ?? sourceRate;
+    if (settings.format === 'opus') return OPUS_SAMPLE_RATE;
+    if (settings.format === 'mp3') {
+        return MP3_SAMPLE_RATES.filter(rate => rate <= requested).pop() ?? MP3_SAMPLE_RATES[0];
+    }
+    return requested;
+};
+
+// Integer sample size written, or 'float' for 32-bit float WAV; null for the lossy formats
+export const exportBitDepth = (settings: ExportSettings): 16 | 24 | 'float' | null => {
+    if (settings.format === 'wav') return settings.bitDepth === 32 ? 'float' : settings.bitDepth;
+    if (settings.format === 'flac') return settings.bitDepth === 32 ? 24 : settings.bitDepth;
+    return null;
+};
+
+// MP3 and Opus are written as mono or stereo
+export const exportChannelCount = (settings: ExportSettings, sourceChannels: number): number =>
+    settings.format === 'mp3' || settings.format === 'opus' ? Math.min(2, sourceChannels) : sourceChannels;
+
+// "MP3 192 kbps · 44,1 kHz", "FLAC 24-bit · 48 kHz"
+export const describeExport = (settings: ExportSettings, sourceRate: number): string => {
+    const rate = `${(exportSampleRate(settings, sourceRate) / 1000).toLocaleString('vi-VN')} kHz`;
+    const depth = exportBitDepth(settings);
+    const quality = settings.format === 'mp3'
+        ? (settings.mp3Mode === 'vbr' ? `VBR V${settings.mp3Quality}` : `${settings.mp3Bitrate} kbps`)
+        : settings.format === 'opus'
+            ? `${settings.opusBitrate} kbps`
+            : depth === 'float' ? '32-bit float' : `${depth}-bit`;
+    return `${settings.format.toUpperCase()} ${quality} · ${rate}`;
+};
+
+export const exportFilename = (base: string, settings: ExportSettings): string =>
+    `${base}_${Date.now()}.${EXPORT_FORMATS[settings.format].extension}`;
@@ -0,0 +1,89 @@
+
+import type { Clip, FadeCurve, Track } from '../types';
+import { clipEnd } from './clips';
+
+export const FADE_CURVES: { value: FadeCurve, label: string }[] = [
+    { value: 'linear', label: 'Tuyến tính' },
+    { value: 'equalPower', label: 'Equal-power' },
+    { value: 'logarithmic', label: 'Logarit' },
+];
+
+// Curve used for the automatic part of a crossfade, keeps the summed power constant
+const CROSSFADE_CURVE: FadeCurve = 'equalPower';
+const LOG_FADE_RANGE_DB = 60;
+
+export interface ClipFades {
+    fadeIn: number;
+    fadeOut: number;
+    fadeInCurve: FadeCurve;
+    fadeOutCurve: FadeCurve;
+}
+
+// Gain of a rising fade at position p (0..1). Falling fades use fadeGain(curve, 1 - p).
+export const fadeGain = (curve: FadeCurve, p: number): number => {
+    const x = Math.max(0, Math.min(1, p));
+    switch (curve) {
+        case 'equalPower':
+            return Math.sin(x * Math.PI / 2);
+        case 'logarithmic':
+            // Linear in dB from -LOG_FADE_RANGE_DB to 0, pinned to silence at the very start
+            return x === 0 ? 0 : Math.pow(10, (x - 1) * LOG_FADE_RANGE_DB / 20);
+        default:
+            return x;
+    }
+};
+
+// Gain of the clip at `t` seconds into the clip
+export const clipGainAt = (fades: ClipFades, duration: number, t: number): number => {
+    let gain = 1;
+    if (fades.fadeIn > 0 && t < fades.fadeIn) {
+        gain *= fadeGain(fades.fadeInCurve, t / fades.fadeIn);
+    }
+    if (fades.fadeOut > 0 && t > duration - fades.fadeOut) {
+        gain *= fadeGain(fades.fadeOutCurve, (duration - t) / fades.fadeOut);
+    }
+    return gain;
+};
+
+// Fades actually applied to each clip of a track: the clip's own fades, lengthened to cover
+// any overlap with its neighbours so that overlapping clips always crossfade.
+export const getClipFades = (track: Track): Map<string, ClipFades> => {
+    const fades = new Map<string, ClipFades>();
+    track.clips.forEach(clip => fades.set(clip.id, {
+        fadeIn: clip.fadeIn,
+        fadeOut: clip.fadeOut,
+        fadeInCurve: clip.fadeInCurve,
+        fadeOutCurve: clip.fadeOutCurve,
+    }));
+
+    const sorted = [...track.clips].sort((a, b) => a.startTime - b.startTime);
+    for (let i = 0; i < sorted.length; i++) {
+        for (let j = i + 1; j < sorted.length && sorted[j].startTime < clipEnd(sorted[i]); j++) {
+            const a = sorted[i];
+            const b = sorted[j];
+            // Overlap, limited to b's length in case b sits entirely inside a
+            const overlap = Math.min(clipEnd(a), clipEnd(b)) - b.startTime;
+            const outgoing = fades.get(a.id)!;
+            const incoming = fades.get(b.id)!;
+            if (outgoing.fadeOut < overlap && clipEnd(a) <= clipEnd(b)) {
+                outgoing.fadeOut = overlap;
+                outgoing.fadeOutCurve = CROSSFADE_CURVE;
+            }
+            if (incoming.fadeIn < overlap) {
+                incoming.fadeIn = overlap;
+                incoming.fadeInCurve = CROSSFADE_CURVE;
+            }
+        }
+    }
+
+    // Fade-in and fade-out must not overlap within one clip
+    track.clips.forEach((clip: Clip) => {
+        const f = fades.get(clip.id)!;
+        const total = f.fadeIn + f.fadeOut;
+        if (total > clip.duration) {
+            f.fadeIn *= clip.duration / total;
+            f.fadeOut *= clip.duration / total;
+        }
+    });
+    return fades;
+};
@@ -0,0 +1,357 @@
+
+import { asciiBytes, concatBytes } from './bytes';
+
+// FLAC encoder. Blocks of 4096 samples; stereo blocks use whichever of left/right,
+// left/side, side/right and mid/side is smallest, and every channel of a block is a
+// constant, verbatim or fixed-predictor (order 0-4) subframe. The residual is Rice coded
+// in 2^p partitions, each with its own parameter, choosing the p that costs the fewest bits.
+
+const BLOCK_SIZE = 4096;
+const BLOCK_SIZE_CODE = 12; // 256 · 2^(12 - 8) = 4096
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+    88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+    24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+const SAMPLE_SIZE_CODES: Record<number, number> = { 16: 4, 24: 6 };
+
+const CHANNELS_INDEPENDENT = -1; // Code is channels - 1
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_SIDE_RIGHT = 9;
+const CHANNELS_MID_SIDE = 10;
+
+const crcTable = (poly: number, bits: number): Uint16Array => {
+    const table = new Uint16Array(256);
+    const top = 1 << (bits - 1);
+    const mask = (1 << bits) - 1;
+    for (let n = 0; n < 256; n++) {
+        let crc = n << (bits - 8);
+        for (let i = 0; i < 8; i++) crc = (crc & top ? (crc << 1) ^ poly : crc << 1) & mask;
+        table[n] = crc;
+    }
+    return table;
+};
+const CRC8 = crcTable(0x07, 8);
+const CRC16 = crcTable(0x8005, 16);
+
+const crc8 = (bytes: Uint8Array, end: number) => {
+    let crc = 0;
+    for (let i = 0; i < end; i++) crc = CRC8[crc ^ bytes[i]];
+    return crc;
+};
+
+const crc16 = (bytes: Uint8Array, end: number) => {
+    let crc = 0;
+    for (let i = 0; i < end; i++) crc = ((crc << 8) & 0xFFFF) ^ CRC16[(crc >> 8) ^ bytes[i]];
+    return crc;
+};
+
+// MSB-first bit writer over a zero-filled buffer, so runs of zero bits are only skipped
+class BitWriter {
+    bytes: Uint8Array;
+    position = 0; // Bits
+
+    constructor(capacity: number) {
+        this.bytes = new Uint8Array(capacity);
+    }
+
+    // `value` is unsigned and below 2^bits, with bits <= 32
+    write(value: number, bits: number) {
+        for (let remaining = bits; remaining > 0;) {
+            const free = 8 - (this.position & 7);
+            const n = Math.min(free, remaining);
+            const chunk = (value >>> (remaining - n)) & ((1 << n) - 1);
+            this.bytes[this.position >>> 3] |= chunk << (free - n);
+            this.position += n;
+            remaining -= n;
+        }
+    }
+
+    writeSigned(value: number, bits: number) {
+        this.write(bits === 32 ? value >>> 0 : value & (2 ** bits - 1), bits);
+    }
+
+    writeRice(value: number, parameter: number) {
+        const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+        this.position += Math.floor(folded / 2 ** parameter); // Unary quotient: zeros, then a one
+        this.write(1, 1);
+        if (parameter > 0) this.write(folded % 2 ** parameter, parameter);
+    }
+
+    alignToByte() {
+        this.position = (this.position + 7) & ~7;
+    }
+
+    // Bytes written so far; the writer is emptied for the next frame
+    take(): Uint8Array {
+        const length = this.position >>> 3;
+        const bytes = this.bytes.slice(0, length);
+        this.bytes.fill(0, 0, length);
+        this.position = 0;
+        return bytes;
+    }
+}
+
+type Subframe =
+    | { type: 'constant'; cost: number; samples: Int32Array; bits: number }
+    | { type: 'verbatim'; cost: number; samples: Int32Array; bits: number }
+    | { type: 'fixed'; cost: number; samples: Int32Array; bits: number; order: number; residual: Int32Array; partitionOrder: number; parameters: number[] };
+
+const fixedResidual = (x: Int32Array, order: number): Int32Array => {
+    const residual = new Int32Array(x.length);
+    for (let i = order; i < x.length; i++) {
+        switch (order) {
+            case 0: residual[i] = x[i]; break;
+            case 1: residual[i] = x[i] - x[i - 1]; break;
+            case 2: residual[i] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+            case 3: residual[i] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+            default: residual[i] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+        }
+    }
+    return residual;
+};
+
+// Bits of `count` Rice-coded values whose folded values sum to `sum`, with the best parameter.
+// The optimum lies next to log2 of the mean value, so only its neighbours are tried.
+const bestRiceParameter = (count: number, sum: number, maxParameter: number): { parameter: number, cost: number } => {
+    const mean = count > 0 ? sum / count : 0;
+    const guess = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+    let best = { parameter: 0, cost: Infinity };
+    for (let parameter = Math.max(0, guess - 1); parameter <= Math.min(maxParameter, guess + 1); parameter++) {
+        const cost = count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+        if (cost < best.cost) best = { parameter, cost };
+    }
+    return best;
+};
+
+// Partitioning of the residual (which starts at `order`) that codes in the fewest bits
+const planPartitions = (residual: Int32Array, order: number, parameterBits: number) => {
+    const length = residual.length;
+    const maxParameter = (1 << parameterBits) - 2; // All ones is the escape code
+    let finest = 0;
+    while (finest < MAX_PARTITION_ORDER && length % (2 << finest) === 0 && (length >> (finest + 1)) > order) finest++;
+
+    // Sums of the folded residual per partition at the finest order, merged pairwise upward
+    let sums = new Float64Array(1 << finest);
+    let counts = new Float64Array(1 << finest);
+    const size = length >> finest;
+    for (let i = order; i < length; i++) {
+        const r = residual[i];
+        sums[Math.floor(i / size)] += r >= 0 ? r * 2 : -r * 2 - 1;
+        counts[Math.floor(i / size)]++;
+    }
+
+    let best = { cost: Infinity, partitionOrder: 0, parameters: [] as number[] };
+    for (let partitionOrder = finest; partitionOrder >= 0; partitionOrder--) {
+        let cost = 0;
+        const parameters: number[] = [];
+        for (let p = 0; p < sums.length; p++) {
+            const choice = bestRiceParameter(counts[p], sums[p], maxParameter);
+            cost += parameterBits + choice.cost;
+            parameters.push(choice.parameter);
+        }
+        if (cost < best.cost) best = { cost, partitionOrder, parameters };
+
+        const merged = new Float64Array(sums.length / 2);
+        const mergedCounts = new Float64Array(sums.length / 2);
+        for (let p = 0; p < merged.length; p++) {
+            merged[p] = sums[2 * p] + sums[2 * p + 1];
+            mergedCounts[p] = counts[2 * p] + counts[2 * p + 1];
+        }
+        sums = merged;
+        counts = mergedCounts;
+    }
+    return best;
+};
+
+const SUBFRAME_HEADER_BITS = 8;
+
+const planSubframe = (samples: Int32Array, bits: number): Subframe => {
+    let constant = true;
+    for (let i = 1; i < samples.length && constant; i++) constant = samples[i] === samples[0];
+    if (constant) return { type: 'constant', cost: SUBFRAME_HEADER_BITS + bits, samples, bits };
+
+    // The order whose residual is smallest in magnitude is usually the cheapest to code. The
+    // residual of order n is the n-th difference of the signal, so all are summed in one pass.
+    const magnitudes = [0, 0, 0, 0, 0];
+    if (samples.length > MAX_FIXED_ORDER) {
+        let d1 = samples[3] - samples[2];
+        let d2 = d1 - (samples[2] - samples[1]);
+        let d3 = d2 - (samples[2] - 2 * samples[1] + samples[0]);
+        for (let i = MAX_FIXED_ORDER; i < samples.length; i++) {
+            const e0 = samples[i];
+            const e1 = e0 - samples[i - 1];
+            const e2 = e1 - d1;
+            const e3 = e2 - d2;
+            const e4 = e3 - d3;
+            magnitudes[0] += Math.abs(e0);
+            magnitudes[1] += Math.abs(e1);
+            magnitudes[2] += Math.abs(e2);
+            magnitudes[3] += Math.abs(e3);
+            magnitudes[4] += Math.abs(e4);
+            d1 = e1;
+            d2 = e2;
+            d3 = e3;
+        }
+    }
+    const order = magnitudes.indexOf(Math.min(...magnitudes));
+    const residual = fixedResidual(samples, order);
+
+    const parameterBits = bits > 16 ? 5 : 4; // RICE2 coding for more than 16 bits
+    const partitions = planPartitions(residual, order, parameterBits);
+    const cost = SUBFRAME_HEADER_BITS + order * bits + 6 + partitions.cost;
+    const verbatim = SUBFRAME_HEADER_BITS + samples.length * bits;
+    if (cost >= verbatim) return { type: 'verbatim', cost: verbatim, samples, bits };
+    return { type: 'fixed', cost, samples, bits, order, residual, ...partitions };
+};
+
+const writeSubframe = (writer: BitWriter, subframe: Subframe) => {
+    const { samples, bits } = subframe;
+    writer.write(0, 1);
+    switch (subframe.type) {
+        case 'constant':
+            writer.write(0b000000, 6);
+            writer.write(0, 1);
+            writer.writeSigned(samples[0], bits);
+            return;
+        case 'verbatim':
+            writer.write(0b000001, 6);
+            writer.write(0, 1);
+            samples.forEach(x => writer.writeSigned(x, bits));
+            return;
+        case 'fixed': {
+            writer.write(0b001000 | subframe.order, 6);
+            writer.write(0, 1);
+            for (let i = 0; i < subframe.order; i++) writer.writeSigned(samples[i], bits);
+
+            const parameterBits = bits > 16 ? 5 : 4;
+            writer.write(parameterBits === 5 ? 1 : 0, 2);
+            writer.write(subframe.partitionOrder, 4);
+            const size = samples.length >> subframe.partitionOrder;
+            subframe.parameters.forEach((parameter, p) => {
+                writer.write(parameter, parameterBits);
+                for (let i = Math.max(subframe.order, p * size); i < (p + 1) * size; i++) {
+                    writer.writeRice(subframe.residual[i], parameter);
+                }
+            });
+        }
+    }
+};
+
+// Frame numbers are written in the UTF-8 scheme (up to 6 bytes)
+const writeFrameNumber = (writer: BitWriter, n: number) => {
+    if (n < 0x80) return writer.write(n, 8);
+    const bytes: number[] = [];
+    let value = n;
+    let payload = 6; // Bits of the value in the first byte, one fewer per continuation byte
+    do {
+        bytes.unshift(0x80 | (value & 0x3F));
+        value = Math.floor(value / 64);
+        payload--;
+    } while (value >= 1 << payload);
+    const prefix = (0xFF00 >> (bytes.length + 1)) & 0xFF;
+    writer.write(prefix | value, 8);
+    bytes.forEach(byte => writer.write(byte, 8));
+};
+
+// Subframes of a block in the cheapest channel arrangement
+const planBlock = (block: Int32Array[], bits: number): { assignment: number, subframes: Subframe[] } => {
+    if (block.length !== 2) {
+        return { assignment: CHANNELS_INDEPENDENT, subframes: block.map(samples => planSubframe(samples, bits)) };
+    }
+    const [left, right] = block;
+    const mid = new Int32Array(left.length);
+    const side = new Int32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+        mid[i] = (left[i] + right[i]) >> 1;
+        side[i] = left[i] - right[i];
+    }
+    const l = planSubframe(left, bits);
+    const r = planSubframe(right, bits);
+    const m = planSubframe(mid, bits);
+    const s = planSubframe(side, bits + 1);
+    const options = [
+        { assignment: CHANNELS_INDEPENDENT, subframes: [l, r] },
+        { assignment: CHANNELS_LEFT_SIDE, subframes: [l, s] },
+        { assignment: CHANNELS_SIDE_RIGHT, subframes: [s, r] },
+        { assignment: CHANNELS_MID_SIDE, subframes: [m, s] },
+    ];
+    return options.reduce((best, option) =>
+        option.subframes[0].cost + option.subframes[1].cost < best.subframes[0].cost + best.subframes[1].cost ? option : best);
+};
+
+const metadataBlock = (type: number, body: Uint8Array, last: boolean): Uint8Array => {
+    const header = new Uint8Array(4);
+    header[0] = (last ? 0x80 : 0) | type;
+    header[1] = (body.length >> 16) & 0xFF;
+    header[2] = (body.length >> 8) & 0xFF;
+    header[3] = body.length & 0xFF;
+    return concatBytes([header, body]);
+};
+
+const streamInfo = (sampleRate: number, channels: number, bits: number, length: number, minFrame: number, maxFrame: number): Uint8Array => {
+    const writer = new BitWriter(34);
+    writer.write(BLOCK_SIZE, 16);
+    writer.write(BLOCK_SIZE, 16);
+    writer.write(minFrame, 24);
+    writer.write(maxFrame, 24);
+    writer.write(sampleRate, 20);
+    writer.write(channels - 1, 3);
+    writer.write(bits - 1, 5);
+    writer.write(Math.floor(length / 2 ** 32), 4);
+    writer.write(length >>> 0, 32);
+    // The MD5 signature of the audio stays zero, which marks it as not computed
+    writer.position += 128;
+    return writer.take();
+};
+
+export const encodeFlac = (
+    samples: Int32Array[],
+    sampleRate: number,
+    bitDepth: 16 | 24,
+    extraBlocks: { type: number, body: Uint8Array }[], // Metadata blocks after STREAMINFO
+    onProgress?: (fraction: number) => void
+): Uint8Array => {
+    const channels = samples.length;
+    const length = samples[0]?.length ?? 0;
+    const writer = new BitWriter(BLOCK_SIZE * channels * 4 + 64);
+    const frames: Uint8Array[] = [];
+    let minFrame = Infinity;
+    let maxFrame = 0;
+
+    for (let start = 0, frameNumber = 0; start < length; start += BLOCK_SIZE, frameNumber++) {
+        const blockSize = Math.min(BLOCK_SIZE, length - start);
+        const block = samples.map(data => data.subarray(start, start + blockSize));
+        const { assignment, subframes } = planBlock(block, bitDepth);
+
+        writer.write(0xFFF8, 16); // Sync code, fixed block size
+        writer.write(blockSize === BLOCK_SIZE ? BLOCK_SIZE_CODE : 7, 4);
+        writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+        writer.write(assignment === CHANNELS_INDEPENDENT ? channels - 1 : assignment, 4);
+        writer.write(SAMPLE_SIZE_CODES[bitDepth], 3);
+        writer.write(0, 1);
+        writeFrameNumber(writer, frameNumber);
+        if (blockSize !== BLOCK_SIZE) writer.write(blockSize - 1, 16);
+        writer.write(crc8(writer.bytes, writer.position >>> 3), 8);
+
+        subframes.forEach(subframe => writeSubframe(writer, subframe));
+        writer.alignToByte();
+        writer.write(crc16(writer.bytes, writer.position >>> 3), 16);
+
+        const frame = writer.take();
+        minFrame = Math.min(minFrame, frame.length);
+        maxFrame = Math.max(maxFrame, frame.length);
+        frames.push(frame);
+        onProgress?.((start + blockSize) / length);
+    }
+
+    const info = streamInfo(sampleRate, channels, bitDepth, length, isFinite(minFrame) ? minFrame : 0, maxFrame);
+    const blocks = [{ type: 0, body: info }, ...extraBlocks];
+    return concatBytes([
+        asciiBytes('fLaC'),
+        ...blocks.map((block, i) => metadataBlock(block.type, block.body, i === blocks.length - 1)),
+        ...frames,
+    ]);
+};
@@ -0,0 +1,100 @@
+
+import type { GateSettings } from '../types';
+
+// Downward expander / noise gate with a proper envelope:
+// level detector (peak over a short window, shifted by the lookahead) -> open/closed state
+// with hysteresis and hold -> static expansion curve -> attack/release smoothing of the gain.
+
+export const GATE_RATIO = 20; // At or above this the expander behaves as a gate
+const FLOOR_DB = -80; // Deepest attenuation, also the gain of a closed gate
+const DETECTOR_WINDOW = 0.01; // Seconds; one cycle of 100 Hz, so the peak does not ripple
+
+export const DEFAULT_GATE: GateSettings = {
+    threshold: -45,
+    hysteresis: 6,
+    ratio: 4,
+    attack: 0.002,
+    hold: 0.05,
+    release: 0.15,
+    lookahead: 0.005,
+};
+
+const toDb = (value: number) => value > 0 ? 20 * Math.log10(value) : -Infinity;
+
+// Peak of |x| across channels over [i - window, i + lookahead] for every sample i
+const detectLevels = (channels: Float32Array[], window: number, lookahead: number): Float32Array => {
+    const length = channels[0].length;
+    const levels = new Float32Array(length);
+    const peaks = new Float32Array(length);
+    for (const data of channels) {
+        for (let i = 0; i < length; i++) peaks[i] = Math.max(peaks[i], Math.abs(data[i]));
+    }
+
+    // Monotonic deque of indices with decreasing peaks
+    const deque = new Int32Array(length);
+    let head = 0;
+    let tail = 0;
+    let next = 0;
+    for (let i = 0; i < length; i++) {
+        for (; next <= Math.min(length - 1, i + lookahead); next++) {
+            while (tail > head && peaks[deque[tail - 1]] <= peaks[next]) tail--;
+            deque[tail++] = next;
+        }
+        while (deque[head] < i - window) head++;
+        levels[i] = peaks[deque[head]];
+    }
+    return levels;
+};
+
+// Linear gain per sample for the given channels
+export const computeGateGains = (channels: Float32Array[], sampleRate: number, settings: GateSettings): Float32Array => {
+    const length = channels[0]?.length ?? 0;
+    const gains = new Float32Array(length);
+    if (length === 0) return gains;
+
+    const levels = detectLevels(
+        channels,
+        Math.max(1, Math.round(DETECTOR_WINDOW * sampleRate)),
+        Math.round(settings.lookahead * sampleRate)
+    );
+    const closeThreshold = settings.threshold - settings.hysteresis;
+    const holdSamples = Math.round(settings.hold * sampleRate);
+    const coefficient = (time: number) => time > 0 ? Math.exp(-1 / (time * sampleRate)) : 0;
+    const attack = coefficient(settings.attack);
+    const release = coefficient(settings.release);
+    const floor = Math.pow(10, FLOOR_DB / 20);
+
+    let open = false;
+    let holdLeft = 0;
+    let gain = 1;
+    for (let i = 0; i < length; i++) {
+        const level = toDb(levels[i]);
+        if (level >= settings.threshold) {
+            open = true;
+            holdLeft = holdSamples;
+        } else if (open && level < closeThreshold) {
+            if (holdLeft > 0) holdLeft--;
+            else open = false;
+        }
+
+        let target = 1;
+        if (!open) {
+            const reduction = settings.ratio >= GATE_RATIO
+                ? FLOOR_DB
+                : Math.max(FLOOR_DB, (Math.max(level, FLOOR_DB * 2) - settings.threshold) * (settings.ratio - 1));
+            target = Math.max(floor, Math.pow(10, Math.min(0, reduction) / 20));
+        }
+
+        // The envelope starts settled, so the range does not begin with a release
+        const coef = i === 0 ? 0 : target > gain ? attack : release;
+        gain = target + (gain - target) * coef;
+        gains[i] = gain;
+    }
+    return gains;
+};
+
+// Gated copies of the channels
+export const applyGateToChannels = (channels: Float32Array[], sampleRate: number, settings: GateSettings): Float32Array[] => {
+    const gains = computeGateGains(channels, sampleRate, settings);
+    return channels.map(data => data.map((x, i) => x * gains[i]));
+};
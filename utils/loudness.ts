@@ -0,0 +1,196 @@
+
+import type { LoudnessTarget } from '../types';
+
+// Loudness measurement after ITU-R BS.1770-4 / EBU R128 (Tech 3341, 3342).
+
+export interface LoudnessStats {
+    integrated: number; // LUFS, gated
+    momentaryMax: number; // LUFS, 400 ms windows
+    shortTermMax: number; // LUFS, 3 s windows
+    range: number; // LU (LRA)
+    truePeak: number; // dBTP
+}
+
+export const LOUDNESS_TARGETS: { value: number, label: string }[] = [
+    { value: -16, label: 'Podcast (-16 LUFS)' },
+    { value: -14, label: 'Streaming (-14 LUFS)' },
+    { value: -23, label: 'EBU R128 (-23 LUFS)' },
+];
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTarget = { lufs: -16, ceiling: -1 };
+
+const BLOCK_STEP = 0.1; // Seconds between successive momentary/short-term windows
+const MOMENTARY_STEPS = 4; // 400 ms
+const SHORT_TERM_STEPS = 30; // 3 s
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const LRA_RELATIVE_GATE = -20;
+
+// Oversampling interpolator for true peak, also used by the master limiter
+export const TRUE_PEAK_PHASES = 4;
+export const TRUE_PEAK_TAPS = 12;
+
+// Windowed-sinc coefficients for the fractional positions k / TRUE_PEAK_PHASES (k >= 1)
+// between the two centre taps of a TRUE_PEAK_TAPS window
+export const truePeakCoefficients = (): number[][] => {
+    const half = TRUE_PEAK_TAPS / 2;
+    const rows: number[][] = [];
+    for (let k = 1; k < TRUE_PEAK_PHASES; k++) {
+        const row: number[] = [];
+        for (let t = 0; t < TRUE_PEAK_TAPS; t++) {
+            const d = t - half + 1 - k / TRUE_PEAK_PHASES;
+            const sinc = d === 0 ? 1 : Math.sin(Math.PI * d) / (Math.PI * d);
+            row.push(sinc * (0.5 + 0.5 * Math.cos(Math.PI * d / half)));
+        }
+        rows.push(row);
+    }
+    return rows;
+};
+
+type Biquad = [number, number, number, number, number]; // b0, b1, b2, a1, a2
+
+// K-weighting for any sample rate (coefficients as derived in libebur128)
+const kWeighting = (sampleRate: number): [Biquad, Biquad] => {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    let Q = 0.7071752369554196;
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let a0 = 1 + K / Q + K * K;
+    const shelf: Biquad = [
+        (Vh + Vb * K / Q + K * K) / a0,
+        2 * (K * K - Vh) / a0,
+        (Vh - Vb * K / Q + K * K) / a0,
+        2 * (K * K - 1) / a0,
+        (1 - K / Q + K * K) / a0,
+    ];
+
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highPass: Biquad = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+    return [shelf, highPass];
+};
+
+// BS.1770 channel weights; surround layouts follow the L R C LFE Ls Rs order
+const channelWeight = (channel: number, channels: number): number => {
+    if (channels < 5) return 1;
+    if (channel === 3) return 0;
+    return channel >= 4 ? 1.41 : 1;
+};
+
+const toLufs = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+
+// Mean power of the blocks above `gate` LUFS
+const gatedPower = (powers: number[], gate: number): number => {
+    let sum = 0;
+    let count = 0;
+    for (const p of powers) {
+        if (toLufs(p) > gate) {
+            sum += p;
+            count++;
+        }
+    }
+    return count > 0 ? sum / count : 0;
+};
+
+const percentile = (sorted: number[], p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)))];
+
+const measureTruePeak = (data: Float32Array, startSample: number, endSample: number, coefficients: number[][]): number => {
+    const half = TRUE_PEAK_TAPS / 2;
+    let peak = 0;
+    for (let i = startSample; i < endSample; i++) {
+        const v = Math.abs(data[i]);
+        if (v > peak) peak = v;
+        // Interpolate between i and i + 1 using the samples around them
+        const first = i - half + 1;
+        if (first < startSample || first + TRUE_PEAK_TAPS > endSample) continue;
+        for (const row of coefficients) {
+            let sum = 0;
+            for (let t = 0; t < TRUE_PEAK_TAPS; t++) sum += row[t] * data[first + t];
+            if (Math.abs(sum) > peak) peak = Math.abs(sum);
+        }
+    }
+    return peak;
+};
+
+// Measures `start`..`end` seconds of the buffer (the whole buffer by default)
+export const measureLoudness = (buffer: AudioBuffer, start = 0, end = buffer.duration): LoudnessStats => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+    return measureChannelsLoudness(
+        channels,
+        buffer.sampleRate,
+        Math.max(0, Math.floor(start * buffer.sampleRate)),
+        Math.min(buffer.length, Math.floor(end * buffer.sampleRate))
+    );
+};
+
+export const measureChannelsLoudness = (
+    channels: Float32Array[],
+    sampleRate: number,
+    startSample = 0,
+    endSample = channels[0]?.length ?? 0
+): LoudnessStats => {
+    const stepSamples = Math.round(BLOCK_STEP * sampleRate);
+    const steps = Math.floor((endSample - startSample) / stepSamples);
+
+    // Weighted K-filtered energy per 100 ms step; windows are sums of consecutive steps
+    const energy = new Float64Array(steps);
+    const filters = kWeighting(sampleRate);
+    const coefficients = truePeakCoefficients();
+    let truePeak = 0;
+
+    for (let ch = 0; ch < channels.length; ch++) {
+        const data = channels[ch];
+        truePeak = Math.max(truePeak, measureTruePeak(data, startSample, endSample, coefficients));
+
+        const weight = channelWeight(ch, channels.length);
+        if (weight === 0) continue;
+        const [s, h] = filters;
+        let s1 = 0, s2 = 0, h1 = 0, h2 = 0; // Direct form II transposed states
+        for (let i = 0; i < steps * stepSamples; i++) {
+            const x = data[startSample + i];
+            const y1 = s[0] * x + s1;
+            s1 = s[1] * x - s[3] * y1 + s2;
+            s2 = s[2] * x - s[4] * y1;
+            const y2 = h[0] * y1 + h1;
+            h1 = h[1] * y1 - h[3] * y2 + h2;
+            h2 = h[2] * y1 - h[4] * y2;
+            energy[Math.floor(i / stepSamples)] += weight * y2 * y2;
+        }
+    }
+
+    const windowPowers = (length: number): number[] => {
+        const powers: number[] = [];
+        let sum = 0;
+        for (let i = 0; i < steps; i++) {
+            sum += energy[i];
+            if (i >= length) sum -= energy[i - length];
+            if (i >= length - 1) powers.push(sum / (length * stepSamples));
+        }
+        return powers;
+    };
+
+    const momentary = windowPowers(MOMENTARY_STEPS);
+    const shortTerm = windowPowers(SHORT_TERM_STEPS);
+
+    const absoluteGated = gatedPower(momentary, ABSOLUTE_GATE);
+    const integrated = absoluteGated > 0
+        ? toLufs(gatedPower(momentary, Math.max(ABSOLUTE_GATE, toLufs(absoluteGated) + RELATIVE_GATE)))
+        : -Infinity;
+
+    const lraGate = toLufs(gatedPower(shortTerm, ABSOLUTE_GATE)) + LRA_RELATIVE_GATE;
+    const lraValues = shortTerm
+        .map(toLufs)
+        .filter(l => l > ABSOLUTE_GATE && l > lraGate)
+        .sort((a, b) => a - b);
+    const range = lraValues.length > 1 ? percentile(lraValues, 0.95) - percentile(lraValues, 0.1) : 0;
+
+    return {
+        integrated,
+        momentaryMax: toLufs(momentary.reduce((max, p) => Math.max(max, p), 0)),
+        shortTermMax: toLufs(shortTerm.reduce((max, p) => Math.max(max, p), 0)),
+        range,
+        truePeak: truePeak > 0 ? 20 * Math.log10(truePeak) : -Infinity,
+    };
+};
@@ -0,0 +1,96 @@
+
+import type { Marker } from '../types';
+
+// Chapter markers and labelled regions of the Editor and the Studio timelines. On export they
+// become ID3 chapters (MP3) or cue points (WAV), see metadata.ts, or an Audacity label track.
+
+export const DEFAULT_REGION_LENGTH = 5; // Seconds, of a region added without a selection
+const JUMP_TOLERANCE = 0.01; // Seconds; a marker this close to the playhead is the current one
+
+export const newMarkerId = () => Math.random().toString(36).substr(2, 9);
+
+export const sortMarkers = (markers: Marker[]): Marker[] =>
+    [...markers].sort((a, b) => a.start - b.start);
+
+// Adds a point marker (no `end`) or a region, named "Điểm n" / "Vùng n"
+export const addMarker = (markers: Marker[], start: number, end: number | null = null): Marker[] => {
+    const count = markers.filter(m => (m.end === null) === (end === null)).length + 1;
+    const label = end === null ? `Điểm ${count}` : `Vùng ${count}`;
+    return sortMarkers([...markers, { id: newMarkerId(), label, start, end }]);
+};
+
+export const updateMarker = (markers: Marker[], id: string, updates: Partial<Marker>): Marker[] =>
+    sortMarkers(markers.map(m => m.id === id ? { ...m, ...updates } : m));
+
+export const removeMarker = (markers: Marker[], id: string): Marker[] => markers.filter(m => m.id !== id);
+
+// Moves a marker to `start`, keeping a region's length, within 0..duration
+export const moveMarker = (marker: Marker, start: number, duration: number): Marker => {
+    const length = marker.end === null ? 0 : marker.end - marker.start;
+    const clamped = Math.max(0, Math.min(duration - length, start));
+    return { ...marker, start: clamped, end: marker.end === null ? null : clamped + length };
+};
+
+// Moves one edge of a region; the edges cannot cross
+export const resizeRegion = (marker: Marker, edge: 'start' | 'end', time: number, duration: number): Marker => {
+    if (marker.end === null) return marker;
+    return edge === 'start'
+        ? { ...marker, start: Math.max(0, Math.min(marker.end, time)) }
+        : { ...marker, end: Math.max(marker.start, Math.min(duration, time)) };
+};
+
+// What dragging a marker's flag (move) or a region's edge does
+export type MarkerDragMode = 'move' | 'start' | 'end';
+
+export const dragMarker = (marker: Marker, mode: MarkerDragMode, delta: number, duration: number): Marker =>
+    mode === 'move'
+        ? moveMarker(marker, marker.start + delta, duration)
+        : resizeRegion(marker, mode, (mode === 'start' ? marker.start : marker.end ?? marker.start) + delta, duration);
+
+// Start of the nearest marker after (direction 1) or before (-1) `time`, for keyboard jumps
+export const adjacentMarkerTime = (markers: Marker[], time: number, direction: 1 | -1): number | null => {
+    const starts = sortMarkers(markers).map(m => m.start);
+    const found = direction > 0
+        ? starts.find(start => start > time + JUMP_TOLERANCE)
+        : starts.reverse().find(start => start < time - JUMP_TOLERANCE);
+    return found ?? null;
+};
+
+// Markers of the part start..end of the timeline, relative to `start`; regions are cut to it
+export const markersInRange = (markers: Marker[], start: number, end: number): Marker[] =>
+    markers
+        .filter(m => m.end === null ? m.start >= start && m.start < end : m.end > start && m.start < end)
+        .map(m => ({
+            ...m,
+            start: Math.max(m.start, start) - start,
+            end: m.end === null ? null : Math.min(m.end, end) - start,
+        }));
+
+export interface Chapter {
+    label: string;
+    start: number; // Seconds
+    end: number;
+}
+
+// Chapters of an exported file: a point marker runs until the next marker starts (or the end
+// of the audio), a region is a chapter of its own
+export const markerChapters = (markers: Marker[], duration: number): Chapter[] => {
+    const sorted = sortMarkers(markers);
+    return sorted.map(m => ({
+        label: m.label,
+        start: m.start,
+        end: m.end ?? sorted.find(next => next.start > m.start)?.start ?? duration,
+    }));
+};
+
+// Audacity label track: "start<TAB>end<TAB>label" per line, equal times for a point label
+export const audacityLabels = (markers: Marker[]): string =>
+    sortMarkers(markers)
+        .map(m => `${m.start.toFixed(6)}\t${(m.end ?? m.start).toFixed(6)}\t${m.label.replace(/\s+/g, ' ').trim()}`)
+        .join('\n') + '\n';
+
+// "1:05.250"
+export const formatMarkerTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(3).padStart(6, '0')}`;
+};
@@ -0,0 +1,239 @@
+
+import type { MasterBusSettings } from '../types';
+import { TRUE_PEAK_TAPS, truePeakCoefficients } from './loudness';
+import { loadWorklet } from './worklets';
+
+// Studio master bus: input gain -> true-peak limiter -> destination (+ optional meters).
+// The limiter runs as an AudioWorklet so live playback and the OfflineAudioContext in
+// `renderMix` process the sum with exactly the same code.
+
+export const DEFAULT_MASTER_BUS: MasterBusSettings = {
+    gain: 1,
+    limiterEnabled: true,
+    ceiling: -1,
+    release: 0.1,
+};
+
+export const withMasterDefaults = (master?: Partial<MasterBusSettings>): MasterBusSettings => ({
+    ...DEFAULT_MASTER_BUS,
+    ...master,
+});
+
+const PROCESSOR_NAME = 'dino-true-peak-limiter';
+const LOOKAHEAD = 0.005; // Seconds
+
+// Delay, in samples, added by the limiter (lookahead plus the interpolator's half length).
+// The limiter keeps this latency when bypassed so toggling it never shifts the mix.
+export const limiterLatency = (sampleRate: number) =>
+    Math.max(1, Math.round(LOOKAHEAD * sampleRate)) - 1 + TRUE_PEAK_TAPS / 2;
+
+// Gain envelope: required gain per sample -> sliding minimum over the lookahead window ->
+// moving average over the same window, so the gain has fully settled when the peak that
+// caused it leaves the delay line -> one-pole release.
+// Peaks are detected with the same oversampling interpolator as the loudness meter.
+const PROCESSOR_SOURCE = `
+const TAPS = ${TRUE_PEAK_TAPS};
+const HALF = TAPS / 2;
+const COEFFICIENTS = ${JSON.stringify(truePeakCoefficients())}.map(row => new Float32Array(row));
+
+class TruePeakLimiter extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'ceiling', defaultValue: 1, minValue: 0.001, maxValue: 1, automationRate: 'k-rate' },
+            { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 5, automationRate: 'k-rate' },
+            { name: 'bypass', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+        ];
+    }
+
+    constructor(options) {
+        super();
+        this.window = Math.max(1, Math.round(options.processorOptions.lookahead * sampleRate));
+        this.latency = this.window - 1 + HALF;
+        this.history = [new Float32Array(TAPS * 2), new Float32Array(TAPS * 2)];
+        this.historyPos = 0;
+        this.delay = [new Float32Array(this.latency), new Float32Array(this.latency)];
+        this.delayPos = 0;
+        this.minValues = new Float64Array(this.window + 1);
+        this.minIndices = new Float64Array(this.window + 1);
+        this.minHead = 0;
+        this.minTail = 0;
+        this.box = new Float64Array(this.window).fill(1);
+        this.boxPos = 0;
+        this.boxSum = this.window;
+        this.envelope = 1;
+        this.frame = 0;
+    }
+
+    // Peak of the signal between the sample HALF frames ago and the next one
+    truePeak() {
+        let peak = 0;
+        for (let ch = 0; ch < 2; ch++) {
+            const h = this.history[ch];
+            const start = this.historyPos + 1; // Oldest of the last TAPS samples
+            const centre = Math.abs(h[start + HALF - 1]);
+            if (centre > peak) peak = centre;
+            for (let k = 0; k < COEFFICIENTS.length; k++) {
+                const row = COEFFICIENTS[k];
+                let v = 0;
+                for (let t = 0; t < TAPS; t++) v += row[t] * h[start + t];
+                if (Math.abs(v) > peak) peak = Math.abs(v);
+            }
+        }
+        return peak;
+    }
+
+    pushMinimum(gain) {
+        const size = this.minValues.length;
+        while (this.minTail !== this.minHead) {
+            const last = (this.minTail - 1 + size) % size;
+            if (this.minValues[last] < gain) break;
+            this.minTail = last;
+        }
+        this.minValues[this.minTail] = gain;
+        this.minIndices[this.minTail] = this.frame;
+        this.minTail = (this.minTail + 1) % size;
+        if (this.minIndices[this.minHead] <= this.frame - this.window) {
+            this.minHead = (this.minHead + 1) % size;
+        }
+        return this.minValues[this.minHead];
+    }
+
+    pushBox(gain) {
+        this.boxSum += gain - this.box[this.boxPos];
+        this.box[this.boxPos] = gain;
+        this.boxPos++;
+        if (this.boxPos === this.window) {
+            this.boxPos = 0;
+            // Resum once per window so rounding errors cannot accumulate
+            this.boxSum = 0;
+            for (let i = 0; i < this.window; i++) this.boxSum += this.box[i];
+        }
+        return this.boxSum / this.window;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        const ceiling = parameters.ceiling[0];
+        const releaseCoef = 1 - Math.exp(-1 / (parameters.release[0] * sampleRate));
+        const bypass = parameters.bypass[0] >= 0.5;
+        const frames = output[0].length;
+
+        for (let i = 0; i < frames; i++) {
+            for (let ch = 0; ch < 2; ch++) {
+                const channel = input[ch] || input[0];
+                const x = channel ? channel[i] : 0;
+                this.history[ch][this.historyPos] = x;
+                this.history[ch][this.historyPos + TAPS] = x;
+            }
+
+            const peak = this.truePeak();
+            const required = peak > ceiling ? ceiling / peak : 1;
+            const smoothed = this.pushBox(this.pushMinimum(required));
+            this.envelope = smoothed < this.envelope
+                ? smoothed
+                : this.envelope + (smoothed - this.envelope) * releaseCoef;
+            const gain = bypass ? 1 : this.envelope;
+
+            for (let ch = 0; ch < 2; ch++) {
+                const out = output[ch] || output[0];
+                const delayed = this.delay[ch][this.delayPos];
+                this.delay[ch][this.delayPos] = this.history[ch][this.historyPos];
+                out[i] = delayed * gain;
+            }
+
+            this.delayPos = (this.delayPos + 1) % this.latency;
+            this.historyPos = (this.historyPos + 1) % TAPS;
+            this.frame++;
+        }
+        return true;
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', TruePeakLimiter);
+`;
+
+export interface MasterBus {
+    input: GainNode;
+    limiter: AudioWorkletNode | DynamicsCompressorNode;
+    truePeak: boolean; // False where AudioWorklet is unavailable and a compressor stands in for the limiter
+    latency: number; // Frames the limiter delays the mix by
+    meters: AnalyserNode[]; // Post-limiter [left, right]; empty unless created with metering
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Without a secure context there is no AudioWorklet. A hard-knee compressor at the ceiling then
+// keeps sample peaks roughly below it, with no lookahead of its own to compensate for.
+const createFallbackLimiter = (ctx: BaseAudioContext): DynamicsCompressorNode => {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.knee.value = 0;
+    compressor.attack.value = 0;
+    return compressor;
+};
+
+export const createMasterBus = async (
+    ctx: BaseAudioContext,
+    settings: MasterBusSettings,
+    destination: AudioNode,
+    metered = false
+): Promise<MasterBus> => {
+    const truePeak = await loadWorklet(ctx, PROCESSOR_SOURCE).then(() => true, () => false);
+
+    const input = ctx.createGain();
+    const limiter = truePeak
+        ? new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            outputChannelCount: [2],
+            processorOptions: { lookahead: LOOKAHEAD },
+        })
+        : createFallbackLimiter(ctx);
+    input.connect(limiter);
+    limiter.connect(destination);
+
+    const meters: AnalyserNode[] = [];
+    if (metered) {
+        const splitter = ctx.createChannelSplitter(2);
+        limiter.connect(splitter);
+        for (let ch = 0; ch < 2; ch++) {
+            const analyser = ctx.createAnalyser();
+            analyser.fftSize = 2048;
+            splitter.connect(analyser, ch);
+            meters.push(analyser);
+        }
+    }
+
+    const bus = { input, limiter, truePeak, latency: truePeak ? limiterLatency(ctx.sampleRate) : 0, meters };
+    updateMasterBus(bus, settings, ctx.currentTime);
+    return bus;
+};
+
+// Applies new settings to a running bus; `when` defaults to immediately
+export const updateMasterBus = (bus: MasterBus, settings: MasterBusSettings, when?: number) => {
+    const time = when ?? bus.input.context.currentTime;
+    bus.input.gain.setValueAtTime(settings.gain, time);
+    if (bus.limiter instanceof DynamicsCompressorNode) {
+        // A ratio of 1 bypasses the compressor
+        bus.limiter.threshold.setValueAtTime(settings.limiterEnabled ? settings.ceiling : 0, time);
+        bus.limiter.ratio.setValueAtTime(settings.limiterEnabled ? 20 : 1, time);
+        bus.limiter.release.setValueAtTime(Math.min(1, settings.release), time);
+        return;
+    }
+    bus.limiter.parameters.get('ceiling')!.setValueAtTime(dbToGain(settings.ceiling), time);
+    bus.limiter.parameters.get('release')!.setValueAtTime(settings.release, time);
+    bus.limiter.parameters.get('bypass')!.setValueAtTime(settings.limiterEnabled ? 0 : 1, time);
+};
+
+// Sample peak and RMS of the analyser's current window, both linear
+export const readMeter = (analyser: AnalyserNode, scratch: Float32Array): { peak: number, rms: number } => {
+    analyser.getFloatTimeDomainData(scratch);
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < scratch.length; i++) {
+        const v = Math.abs(scratch[i]);
+        if (v > peak) peak = v;
+        sum += v * v;
+    }
+    return { peak, rms: Math.sqrt(sum / scratch.length) };
+};
@@ -0,0 +1,481 @@
+
+import type { AudioMetadata, CoverArt, Marker } from '../types';
+import { asciiBytes, concatBytes, uint32LE, utf8Bytes } from './bytes';
+import { riffChunk } from './wav';
+import { readOggPackets } from './ogg';
+import { sortMarkers, type Chapter } from './markers';
+
+// Tags of the export formats, and readers for the same tags in imported files:
+// - MP3: an ID3v2.3 tag in front of the audio, with CHAP/CTOC frames for chapters
+// - WAV: LIST/INFO and bext chunks; INFO has no field for a picture, so an `id3 ` chunk
+//   with the whole ID3 tag is added as well (read by most players that show cover art).
+//   Markers are cue points, named in a LIST/adtl chunk.
+// - FLAC: VORBIS_COMMENT and PICTURE metadata blocks
+// - Opus: Vorbis comments in the OpusTags header, the picture as METADATA_BLOCK_PICTURE
+
+export const ENCODER_VENDOR = 'DINO AI SOUND EDITOR';
+
+export const EMPTY_METADATA: AudioMetadata = {
+    title: '',
+    artist: '',
+    album: '',
+    episode: '',
+    year: '',
+    comment: '',
+    cover: null,
+};
+
+type TextField = Exclude<keyof AudioMetadata, 'cover'>;
+
+const TEXT_FIELDS: TextField[] = ['title', 'artist', 'album', 'episode', 'year', 'comment'];
+
+const ID3_FRAMES: Record<TextField, string> = {
+    title: 'TIT2', artist: 'TPE1', album: 'TALB', episode: 'TRCK', year: 'TYER', comment: 'COMM',
+};
+// Equivalent frames of ID3v2.2 and v2.4
+const ID3_ALIASES: Record<string, TextField> = {
+    TT2: 'title', TP1: 'artist', TAL: 'album', TRK: 'episode', TYE: 'year', TDRC: 'year', COM: 'comment',
+};
+const RIFF_INFO: Record<TextField, string> = {
+    title: 'INAM', artist: 'IART', album: 'IPRD', episode: 'ITRK', year: 'ICRD', comment: 'ICMT',
+};
+const VORBIS_FIELDS: Record<TextField, string> = {
+    title: 'TITLE', artist: 'ARTIST', album: 'ALBUM', episode: 'TRACKNUMBER', year: 'DATE', comment: 'COMMENT',
+};
+
+const PICTURE_FRONT_COVER = 3; // Picture type shared by ID3 and FLAC
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+export const hasMetadata = (metadata: AudioMetadata): boolean =>
+    metadata.cover !== null || TEXT_FIELDS.some(field => metadata[field].trim() !== '');
+
+const textEntries = (metadata: AudioMetadata): [TextField, string][] =>
+    TEXT_FIELDS.map(field => [field, metadata[field].trim()] as [TextField, string]).filter(([, value]) => value !== '');
+
+// Tags found in a file, over the empty defaults
+type FoundTags = Partial<AudioMetadata>;
+
+const mergeTags = (into: FoundTags, found: FoundTags) => {
+    for (const [key, value] of Object.entries(found)) {
+        if (value) (into as Record<string, unknown>)[key] = value;
+    }
+};
+
+const imageMimeType = (format: string): string =>
+    format.toUpperCase() === 'PNG' || format.toLowerCase() === 'image/png' ? 'image/png' : 'image/jpeg';
+
+// --- ID3v2 ---
+
+const ID3_LATIN1 = 0;
+const ID3_UTF16 = 1;
+const ID3_UTF16BE = 2;
+const ID3_UTF8 = 3;
+const ID3_COMMENT_LANGUAGE = 'vie';
+
+// UTF-16 with a little-endian byte order mark
+const utf16Bytes = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes[0] = 0xFF;
+    bytes[1] = 0xFE;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        bytes[2 + i * 2] = code & 0xFF;
+        bytes[3 + i * 2] = code >> 8;
+    }
+    return bytes;
+};
+
+const synchsafe = (value: number): Uint8Array =>
+    Uint8Array.of((value >> 21) & 0x7F, (value >> 14) & 0x7F, (value >> 7) & 0x7F, value & 0x7F);
+
+const readSynchsafe = (bytes: Uint8Array, offset: number): number =>
+    (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array => {
+    const header = new Uint8Array(10);
+    header.set(asciiBytes(id));
+    new DataView(header.buffer).setUint32(4, body.length);
+    return concatBytes([header, body]);
+};
+
+const latin1Terminated = (text: string): Uint8Array => concatBytes([asciiBytes(text), new Uint8Array(1)]);
+
+const textFrame = (id: string, value: string): Uint8Array =>
+    id3Frame(id, concatBytes([Uint8Array.of(ID3_UTF16), utf16Bytes(value)]));
+
+// ID3v2 Chapter Frame Addendum: one CHAP per chapter with its title as a sub-frame, and a
+// top-level, ordered table of contents listing them (at most 255)
+const MAX_CHAPTERS = 255;
+const NO_BYTE_OFFSET = 0xFFFFFFFF;
+
+const chapterFrames = (chapters: Chapter[]): Uint8Array[] => {
+    const listed = chapters.slice(0, MAX_CHAPTERS);
+    const ids = listed.map((_, i) => `chp${i}`);
+    const frames = listed.map((chapter, i) => {
+        const times = new Uint8Array(16);
+        const view = new DataView(times.buffer);
+        view.setUint32(0, Math.round(chapter.start * 1000));
+        view.setUint32(4, Math.round(chapter.end * 1000));
+        view.setUint32(8, NO_BYTE_OFFSET);
+        view.setUint32(12, NO_BYTE_OFFSET);
+        return id3Frame('CHAP', concatBytes([latin1Terminated(ids[i]), times, textFrame('TIT2', chapter.label)]));
+    });
+    const TOP_LEVEL_ORDERED = 0x03;
+    frames.unshift(id3Frame('CTOC', concatBytes([
+        latin1Terminated('toc'), Uint8Array.of(TOP_LEVEL_ORDERED, ids.length), ...ids.map(latin1Terminated),
+    ])));
+    return frames;
+};
+
+export const id3v2Tag = (metadata: AudioMetadata, chapters: Chapter[] = []): Uint8Array => {
+    const frames = textEntries(metadata).map(([field, value]) => field === 'comment'
+        // Encoding, language, empty description (terminated), text
+        ? id3Frame('COMM', concatBytes([Uint8Array.of(ID3_UTF16), asciiBytes(ID3_COMMENT_LANGUAGE), utf16Bytes(''), new Uint8Array(2), utf16Bytes(value)]))
+        : textFrame(ID3_FRAMES[field], value));
+    if (metadata.cover) {
+        // Encoding, MIME type, picture type, empty description, image
+        frames.push(id3Frame('APIC', concatBytes([
+            Uint8Array.of(ID3_LATIN1), asciiBytes(metadata.cover.mimeType), Uint8Array.of(0, PICTURE_FRONT_COVER, 0),
+            metadata.cover.data,
+        ])));
+    }
+    if (chapters.length > 0) frames.push(...chapterFrames(chapters));
+    const body = concatBytes(frames);
+    return concatBytes([asciiBytes('ID3'), Uint8Array.of(3, 0, 0), synchsafe(body.length), body]);
+};
+
+// Length of a string in `bytes` ending with the terminator of its encoding, or at the end
+const terminatedLength = (bytes: Uint8Array, encoding: number): number => {
+    const wide = encoding === ID3_UTF16 || encoding === ID3_UTF16BE;
+    for (let i = 0; i < bytes.length; i += wide ? 2 : 1) {
+        if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+    }
+    return bytes.length;
+};
+
+const decodeId3Text = (encoding: number, bytes: Uint8Array): string => {
+    let label = 'latin1';
+    if (encoding === ID3_UTF8) label = 'utf-8';
+    else if (encoding === ID3_UTF16BE) label = 'utf-16be';
+    else if (encoding === ID3_UTF16) label = bytes[0] === 0xFE && bytes[1] === 0xFF ? 'utf-16be' : 'utf-16le';
+    // Several values (ID3v2.4) are separated by terminators; the first is kept
+    return new TextDecoder(label).decode(bytes).split('\0')[0].trim();
+};
+
+// Removes the 0x00 inserted after every 0xFF by unsynchronisation
+const resynchronise = (bytes: Uint8Array): Uint8Array => {
+    const output: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        output.push(bytes[i]);
+        if (bytes[i] === 0xFF && bytes[i + 1] === 0) i++;
+    }
+    return Uint8Array.from(output);
+};
+
+// Size of the ID3v2 tag at the start of `bytes`, 0 when there is none
+const id3TagSize = (bytes: Uint8Array): number => {
+    if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0; // "ID3"
+    const footer = bytes[5] & 0x10 ? 10 : 0;
+    return 10 + readSynchsafe(bytes, 6) + footer;
+};
+
+const parseId3 = (bytes: Uint8Array): FoundTags => {
+    const found: FoundTags = {};
+    const version = bytes[3];
+    const flags = bytes[5];
+    if (version < 2 || version > 4) return found;
+    let tag = bytes.subarray(10, Math.min(bytes.length, 10 + readSynchsafe(bytes, 6)));
+    if (flags & 0x80 && version < 4) tag = resynchronise(tag);
+    let offset = 0;
+    if (flags & 0x40 && version > 2) {
+        const view = new DataView(tag.buffer, tag.byteOffset);
+        offset = version === 3 ? 4 + view.getUint32(0) : readSynchsafe(tag, 0);
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    let coverType = -1;
+    while (offset + headerLength <= tag.length && tag[offset] !== 0) {
+        const id = String.fromCharCode(...tag.subarray(offset, offset + idLength));
+        const size = version === 2
+            ? (tag[offset + 3] << 16) | (tag[offset + 4] << 8) | tag[offset + 5]
+            : version === 3
+                ? new DataView(tag.buffer, tag.byteOffset + offset + 4, 4).getUint32(0)
+                : readSynchsafe(tag, offset + 4);
+        const body = tag.subarray(offset + headerLength, offset + headerLength + size);
+        offset += headerLength + size;
+        if (body.length === 0) continue;
+        const encoding = body[0];
+
+        const field = (Object.keys(ID3_FRAMES) as TextField[]).find(f => ID3_FRAMES[f] === id) ?? ID3_ALIASES[id];
+        if (field === 'comment') {
+            const text = body.subarray(4);
+            const description = terminatedLength(text, encoding);
+            const step = encoding === ID3_UTF16 || encoding === ID3_UTF16BE ? 2 : 1;
+            found.comment ??= decodeId3Text(encoding, text.subarray(description + step));
+        } else if (field) {
+            const value = decodeId3Text(encoding, body.subarray(1));
+            found[field] ??= field === 'year' ? value.slice(0, 4) : value;
+        } else if (id === 'APIC' || id === 'PIC') {
+            // v2.2 has a three-letter image format instead of the MIME type
+            const mimeEnd = id === 'PIC' ? 4 : 1 + terminatedLength(body.subarray(1), ID3_LATIN1) + 1;
+            const format = id === 'PIC'
+                ? String.fromCharCode(...body.subarray(1, 4))
+                : String.fromCharCode(...body.subarray(1, mimeEnd - 1));
+            const type = body[mimeEnd];
+            const description = body.subarray(mimeEnd + 1);
+            const step = encoding === ID3_UTF16 || encoding === ID3_UTF16BE ? 2 : 1;
+            const data = description.subarray(terminatedLength(description, encoding) + step);
+            // A front cover wins over any other picture
+            if (coverType !== PICTURE_FRONT_COVER && data.length > 0) {
+                found.cover = { mimeType: imageMimeType(format), data: data.slice() };
+                coverType = type;
+            }
+        }
+    }
+    return found;
+};
+
+// --- RIFF ---
+
+// `size` bytes of UTF-8, cut at a character boundary and padded with zeros
+const fixedText = (text: string, size: number): Uint8Array => {
+    const bytes = utf8Bytes(text);
+    let length = Math.min(size, bytes.length);
+    while (length < bytes.length && length > 0 && (bytes[length] & 0xC0) === 0x80) length--;
+    const field = new Uint8Array(size);
+    field.set(bytes.subarray(0, length));
+    return field;
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// Broadcast Wave description (EBU Tech 3285, version 1): title, artist and time of export
+const bextChunk = (metadata: AudioMetadata, date: Date): Uint8Array => {
+    const body = new Uint8Array(602);
+    body.set(fixedText(metadata.title.trim() || metadata.comment.trim(), 256), 0);
+    body.set(fixedText(metadata.artist.trim(), 32), 256);
+    body.set(fixedText(ENCODER_VENDOR, 32), 288);
+    body.set(asciiBytes(`${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`), 320);
+    body.set(asciiBytes(`${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`), 330);
+    new DataView(body.buffer).setUint16(346, 1, true); // Version; time reference, UMID and the rest stay zero
+    return riffChunk('bext', body);
+};
+
+// Chunks placed before the audio data of a WAV file; none without tags
+export const riffMetadataChunks = (metadata: AudioMetadata, date = new Date()): Uint8Array[] => {
+    if (!hasMetadata(metadata)) return [];
+    const chunks: Uint8Array[] = [];
+    const entries = textEntries(metadata).map(([field, value]) => riffChunk(RIFF_INFO[field], concatBytes([utf8Bytes(value), new Uint8Array(1)])));
+    if (entries.length > 0) chunks.push(riffChunk('LIST', concatBytes([asciiBytes('INFO'), ...entries])));
+    chunks.push(bextChunk(metadata, date));
+    chunks.push(riffChunk('id3 ', id3v2Tag(metadata)));
+    return chunks;
+};
+
+// Cue points at the markers' start samples, with a label per point and the length of regions
+export const riffCueChunks = (markers: Marker[], sampleRate: number): Uint8Array[] => {
+    if (markers.length === 0) return [];
+    const sorted = sortMarkers(markers);
+    const points = sorted.map((marker, i) => {
+        const point = new Uint8Array(24);
+        const view = new DataView(point.buffer);
+        const position = Math.round(marker.start * sampleRate);
+        view.setUint32(0, i + 1, true); // Cue point id
+        view.setUint32(4, position, true);
+        point.set(asciiBytes('data'), 8); // Chunk and block start stay zero
+        view.setUint32(20, position, true);
+        return point;
+    });
+    const labels = sorted.flatMap((marker, i) => {
+        const id = uint32LE(i + 1);
+        const label = riffChunk('labl', concatBytes([id, utf8Bytes(marker.label), new Uint8Array(1)]));
+        if (marker.end === null) return [label];
+        // Region length in samples, purpose "rgn "; country, language, dialect and code page stay zero
+        const text = new Uint8Array(20);
+        text.set(id);
+        new DataView(text.buffer).setUint32(4, Math.round((marker.end - marker.start) * sampleRate), true);
+        text.set(asciiBytes('rgn '), 8);
+        return [label, riffChunk('ltxt', text)];
+    });
+    return [
+        riffChunk('cue ', concatBytes([uint32LE(points.length), ...points])),
+        riffChunk('LIST', concatBytes([asciiBytes('adtl'), ...labels])),
+    ];
+};
+
+const parseRiff = (bytes: Uint8Array): FoundTags => {
+    const found: FoundTags = {};
+    const info: FoundTags = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const text = (start: number, end: number) => new TextDecoder().decode(bytes.subarray(start, end)).split('\0')[0].trim();
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (id === 'LIST' && String.fromCharCode(...bytes.subarray(body, body + 4)) === 'INFO') {
+            for (let sub = body + 4; sub + 8 <= Math.min(bytes.length, body + size);) {
+                const subId = String.fromCharCode(...bytes.subarray(sub, sub + 4));
+                const subSize = view.getUint32(sub + 4, true);
+                const field = (Object.keys(RIFF_INFO) as TextField[]).find(f => RIFF_INFO[f] === subId);
+                if (field) info[field] = text(sub + 8, sub + 8 + subSize);
+                sub += 8 + subSize + (subSize % 2);
+            }
+        } else if ((id === 'id3 ' || id === 'ID3 ') && id3TagSize(bytes.subarray(body)) > 0) {
+            mergeTags(found, parseId3(bytes.subarray(body, body + size)));
+        }
+        offset = body + size + (size % 2);
+    }
+    // INFO is the native tag of the format and wins over the ID3 chunk
+    mergeTags(found, info);
+    return found;
+};
+
+// --- Vorbis comments ---
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// FLAC picture structure; the image's dimensions are left at 0, which readers accept as unknown
+const flacPicture = (cover: CoverArt): Uint8Array => {
+    const header = new Uint8Array(32 + cover.mimeType.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, PICTURE_FRONT_COVER);
+    view.setUint32(4, cover.mimeType.length);
+    header.set(asciiBytes(cover.mimeType), 8);
+    // Description length, width, height, colour depth and palette size are all zero
+    view.setUint32(28 + cover.mimeType.length, cover.data.length);
+    return concatBytes([header, cover.data]);
+};
+
+const parseFlacPicture = (bytes: Uint8Array): { type: number, cover: CoverArt } | null => {
+    if (bytes.length < 32) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const mimeLength = view.getUint32(4);
+    const mimeType = String.fromCharCode(...bytes.subarray(8, 8 + mimeLength));
+    const descriptionLength = view.getUint32(8 + mimeLength);
+    const dataOffset = 8 + mimeLength + 4 + descriptionLength + 16;
+    const dataLength = view.getUint32(dataOffset);
+    return {
+        type: view.getUint32(0),
+        cover: { mimeType: imageMimeType(mimeType), data: bytes.slice(dataOffset + 4, dataOffset + 4 + dataLength) },
+    };
+};
+
+// "FIELD=value" comments; Opus has no picture block, so there the cover is a comment too
+export const vorbisComments = (metadata: AudioMetadata, withCover: boolean): string[] => {
+    const comments = textEntries(metadata).map(([field, value]) => `${VORBIS_FIELDS[field]}=${value}`);
+    if (withCover && metadata.cover) comments.push(`METADATA_BLOCK_PICTURE=${toBase64(flacPicture(metadata.cover))}`);
+    return comments;
+};
+
+// Vendor string and comment list, as in OpusTags and the FLAC VORBIS_COMMENT block
+export const vorbisCommentBody = (comments: string[]): Uint8Array => {
+    const vendor = utf8Bytes(ENCODER_VENDOR);
+    const entries = comments.map(comment => utf8Bytes(comment));
+    return concatBytes([
+        uint32LE(vendor.length), vendor, uint32LE(entries.length),
+        ...entries.flatMap(entry => [uint32LE(entry.length), entry]),
+    ]);
+};
+
+const parseVorbisComments = (bytes: Uint8Array): FoundTags => {
+    const found: FoundTags = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 8) return found;
+    let offset = 4 + view.getUint32(0, true);
+    const count = view.getUint32(offset, true);
+    offset += 4;
+    let coverType = -1;
+    for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+        const length = view.getUint32(offset, true);
+        const comment = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+        const separator = comment.indexOf('=');
+        if (separator < 0) continue;
+        const key = comment.slice(0, separator).toUpperCase();
+        const value = comment.slice(separator + 1).trim();
+        const field = (Object.keys(VORBIS_FIELDS) as TextField[]).find(f => VORBIS_FIELDS[f] === key)
+            ?? (key === 'DESCRIPTION' ? 'comment' : undefined);
+        if (field) {
+            found[field] ??= field === 'year' ? value.slice(0, 4) : value;
+        } else if (key === 'METADATA_BLOCK_PICTURE' && coverType !== PICTURE_FRONT_COVER) {
+            try {
+                const picture = parseFlacPicture(fromBase64(value));
+                if (picture) {
+                    found.cover = picture.cover;
+                    coverType = picture.type;
+                }
+            } catch {
+                // Not valid base64; the picture is skipped
+            }
+        }
+    }
+    return found;
+};
+
+// --- FLAC ---
+
+// Metadata blocks after STREAMINFO; none without tags
+export const flacMetadataBlocks = (metadata: AudioMetadata): { type: number, body: Uint8Array }[] => {
+    if (!hasMetadata(metadata)) return [];
+    const blocks = [{ type: FLAC_VORBIS_COMMENT, body: vorbisCommentBody(vorbisComments(metadata, false)) }];
+    if (metadata.cover) blocks.push({ type: FLAC_PICTURE, body: flacPicture(metadata.cover) });
+    return blocks;
+};
+
+const parseFlac = (bytes: Uint8Array): FoundTags => {
+    const found: FoundTags = {};
+    let coverType = -1;
+    for (let offset = 4, last = false; !last && offset + 4 <= bytes.length;) {
+        last = (bytes[offset] & 0x80) !== 0;
+        const type = bytes[offset] & 0x7F;
+        const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const body = bytes.subarray(offset + 4, offset + 4 + length);
+        if (type === FLAC_VORBIS_COMMENT) {
+            mergeTags(found, parseVorbisComments(body));
+        } else if (type === FLAC_PICTURE && coverType !== PICTURE_FRONT_COVER) {
+            const picture = parseFlacPicture(body);
+            if (picture) {
+                found.cover = picture.cover;
+                coverType = picture.type;
+            }
+        }
+        offset += 4 + length;
+    }
+    return found;
+};
+
+// --- Ogg ---
+
+const parseOgg = (bytes: Uint8Array): FoundTags => {
+    const comments = readOggPackets(bytes, 2)[1];
+    if (!comments) return {};
+    const magic = String.fromCharCode(...comments.subarray(0, 8));
+    if (magic === 'OpusTags') return parseVorbisComments(comments.subarray(8));
+    if (magic.startsWith('\x03vorbis')) return parseVorbisComments(comments.subarray(7));
+    return {};
+};
+
+// Tags of an audio file in any of the formats above; fields that are not found stay empty.
+// Malformed tags are ignored rather than failing the import; tags read before them are kept.
+export const readMetadata = (bytes: Uint8Array): AudioMetadata => {
+    const found: FoundTags = {};
+    try {
+        const id3Size = id3TagSize(bytes);
+        if (id3Size > 0) mergeTags(found, parseId3(bytes));
+        const rest = bytes.subarray(id3Size);
+        const magic = String.fromCharCode(...rest.subarray(0, 4));
+        if (magic === 'fLaC') mergeTags(found, parseFlac(rest));
+        else if (magic === 'RIFF' && String.fromCharCode(...rest.subarray(8, 12)) === 'WAVE') mergeTags(found, parseRiff(rest));
+        else if (magic === 'OggS') mergeTags(found, parseOgg(rest));
+    } catch (e) {}
+    return { ...EMPTY_METADATA, ...found };
+};
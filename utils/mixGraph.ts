@@ -0,0 +1,197 @@
+
+import type { AutomationPoint, Clip, Track } from '../types';
+import { createEqNode, createCompressorNode, clipPlaybackBuffer } from './audio';
+import { clipEnd, trackEnd } from './clips';
+import { clipGainAt, getClipFades, type ClipFades } from './fades';
+import { isTrackAudible } from './tracks';
+import { automationValueAt, interpolate } from './automation';
+import type { DuckingCurve } from './ducking';
+
+// Audio graph construction shared by live Studio playback (AudioContext) and the offline
+// render in `renderMix` (OfflineAudioContext), so both produce the same result.
+// Live playback may run at a transport `rate` other than 1: sources play that much faster
+// and every scheduled time and duration is divided by it.
+
+const CURVE_POINTS_PER_SECOND = 200;
+const MIN_CURVE_POINTS = 16;
+const MAX_CURVE_POINTS = 8192;
+// Gap kept between back-to-back fade curves, which may not share an automation time
+const CURVE_GAP = 0.001;
+
+const scheduleFadeSegment = (
+    param: AudioParam,
+    fades: ClipFades,
+    duration: number,
+    from: number, // Clip-relative segment bounds in seconds
+    to: number,
+    contextTimeAt: (clipTime: number) => number,
+    rate: number
+) => {
+    if (to - from <= 0) return;
+    const points = Math.max(MIN_CURVE_POINTS, Math.min(MAX_CURVE_POINTS, Math.ceil((to - from) * CURVE_POINTS_PER_SECOND)));
+    const values = new Float32Array(points);
+    for (let i = 0; i < points; i++) {
+        values[i] = clipGainAt(fades, duration, from + (to - from) * i / (points - 1));
+    }
+    param.setValueCurveAtTime(values, contextTimeAt(from), (to - from) / rate);
+};
+
+// Schedules one clip (source -> clip gain with fades -> destination). Stretched or
+// pitch-shifted clips play from a processed copy of `buffer`, see clipPlaybackBuffer, and
+// are skipped until that copy has been made.
+// `contextStart` is the context time at which timeline position `timelineOffset` plays;
+// clips that already started by then are entered part-way, ended ones are skipped.
+export const scheduleClip = (
+    ctx: BaseAudioContext,
+    buffer: AudioBuffer,
+    clip: Clip,
+    fades: ClipFades,
+    destination: AudioNode,
+    timelineOffset: number,
+    contextStart: number,
+    rate = 1
+): AudioBufferSourceNode | null => {
+    const playback = clipPlaybackBuffer(buffer, clip);
+    if (!playback || clipEnd(clip) <= timelineOffset) return null;
+
+    const playFrom = Math.max(clip.startTime, timelineOffset);
+    const into = playFrom - clip.startTime; // Seconds of the clip already elapsed
+    const when = contextStart + (playFrom - timelineOffset) / rate;
+    const contextTimeAt = (clipTime: number) => when + (clipTime - into) / rate;
+
+    const source = ctx.createBufferSource();
+    source.buffer = playback;
+    source.playbackRate.value = rate;
+    const gain = ctx.createGain();
+    source.connect(gain);
+    gain.connect(destination);
+
+    const fadeOutStart = clip.duration - fades.fadeOut;
+    const fadeInEnd = fades.fadeOut > 0 ? Math.min(fades.fadeIn, fadeOutStart - CURVE_GAP) : fades.fadeIn;
+    gain.gain.value = clipGainAt(fades, clip.duration, into);
+    if (fadeInEnd > into) {
+        scheduleFadeSegment(gain.gain, fades, clip.duration, into, fadeInEnd, contextTimeAt, rate);
+    }
+    if (fades.fadeOut > 0) {
+        scheduleFadeSegment(gain.gain, fades, clip.duration, Math.max(into, fadeOutStart), clip.duration, contextTimeAt, rate);
+    }
+
+    source.start(when, clip.offset * clip.stretch + into, clip.duration - into);
+    return source;
+};
+
+// Writes an automation envelope onto `param`, timed like scheduleClip. Linear and step
+// segments map onto ramps/set events; smooth segments are sampled into value curves.
+export const scheduleAutomation = (
+    param: AudioParam,
+    points: AutomationPoint[],
+    timelineOffset: number,
+    contextStart: number,
+    rate = 1
+) => {
+    const contextTimeAt = (time: number) => contextStart + (time - timelineOffset) / rate;
+    param.setValueAtTime(automationValueAt(points, timelineOffset), contextStart);
+
+    for (let i = 0; i < points.length - 1; i++) {
+        const from = points[i];
+        const to = points[i + 1];
+        if (to.time <= timelineOffset) continue;
+
+        // A smooth curve starts just after the previous event, which may not share its time
+        const start = Math.max(from.time, timelineOffset) + CURVE_GAP;
+        const duration = to.time - start;
+        if (from.curve === 'step') {
+            param.setValueAtTime(to.value, contextTimeAt(to.time));
+        } else if (from.curve === 'linear' || duration <= CURVE_GAP) {
+            param.linearRampToValueAtTime(to.value, contextTimeAt(to.time));
+        } else {
+            const count = Math.max(MIN_CURVE_POINTS, Math.min(MAX_CURVE_POINTS, Math.ceil(duration * CURVE_POINTS_PER_SECOND)));
+            const values = new Float32Array(count);
+            for (let j = 0; j < count; j++) {
+                const time = start + duration * j / (count - 1);
+                values[j] = interpolate(from, to, (time - from.time) / (to.time - from.time));
+            }
+            param.setValueCurveAtTime(values, contextTimeAt(start), duration / rate);
+        }
+    }
+};
+
+// Plays the precomputed ducking gain curve on `param` from `timelineOffset` on
+const scheduleDucking = (param: AudioParam, ducking: DuckingCurve, timelineOffset: number, contextStart: number, rate: number) => {
+    const { gains, hop } = ducking;
+    const first = Math.ceil(timelineOffset / hop);
+    param.value = gains[Math.min(gains.length - 1, Math.floor(timelineOffset / hop))];
+    if (gains.length - first < 2) return;
+    param.setValueCurveAtTime(gains.subarray(first), contextStart + (first * hop - timelineOffset) / rate, (gains.length - first - 1) * hop / rate);
+};
+
+// Track strip: clips -> inserts (in order, bypassed ones skipped) -> volume -> ducking -> pan
+// -> destination. Automated volume/pan follow their envelopes from `timelineOffset` on.
+// Returns the node clips should connect to.
+export const buildTrackChain = (
+    ctx: BaseAudioContext,
+    track: Track,
+    destination: AudioNode,
+    timelineOffset: number,
+    contextStart: number,
+    ducking: DuckingCurve | null = null,
+    rate = 1
+): AudioNode => {
+    const nodes: AudioNode[] = track.inserts
+        .filter(insert => insert.enabled)
+        .map(insert => insert.type === 'eq'
+            ? createEqNode(ctx, insert.settings)
+            : createCompressorNode(ctx, insert.settings));
+
+    const gain = ctx.createGain();
+    gain.gain.value = track.volume;
+    nodes.push(gain);
+    if (ducking?.trackIds.includes(track.id)) {
+        const duck = ctx.createGain();
+        scheduleDucking(duck.gain, ducking, timelineOffset, contextStart, rate);
+        nodes.push(duck);
+    }
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = track.pan;
+    nodes.push(panner);
+
+    if (track.automation.volume.length > 0) {
+        scheduleAutomation(gain.gain, track.automation.volume, timelineOffset, contextStart, rate);
+    }
+    if (track.automation.pan.length > 0) {
+        scheduleAutomation(panner.pan, track.automation.pan, timelineOffset, contextStart, rate);
+    }
+
+    nodes.reduce((prev, next) => {
+        prev.connect(next);
+        return next;
+    });
+    panner.connect(destination);
+    return nodes[0];
+};
+
+// Schedules every audible track of the mix; see scheduleClip for the timing arguments.
+export const scheduleTracks = (
+    ctx: BaseAudioContext,
+    tracks: Track[],
+    destination: AudioNode,
+    timelineOffset: number,
+    contextStart: number,
+    ducking: DuckingCurve | null = null,
+    rate = 1
+): AudioBufferSourceNode[] => {
+    const sources: AudioBufferSourceNode[] = [];
+    tracks.forEach(track => {
+        if (!isTrackAudible(track, tracks)) return;
+        // If track is already finished at the start offset, skip
+        if (trackEnd(track) <= timelineOffset) return;
+
+        const input = buildTrackChain(ctx, track, destination, timelineOffset, contextStart, ducking, rate);
+        const fades = getClipFades(track);
+        track.clips.forEach(clip => {
+            const source = scheduleClip(ctx, track.buffer, clip, fades.get(clip.id)!, input, timelineOffset, contextStart, rate);
+            if (source) sources.push(source);
+        });
+    });
+    return sources;
+};
@@ -0,0 +1,110 @@
+
+import type { WasmMediaEncoder } from 'wasm-media-encoders';
+import type { ExportSettings } from '../types';
+import { asciiBytes, concatBytes } from './bytes';
+
+// MP3 export with the LAME encoder (WebAssembly, loaded on first use). LAME writes bare
+// frames, so a Xing (VBR) or Info (CBR) frame with the frame count, byte count and seek
+// table is put in front; without it players guess the length of a VBR file from its first frame.
+
+type Mp3Config = Parameters<WasmMediaEncoder<'audio/mpeg'>['configure']>[0];
+
+const ENCODE_CHUNK = 1152 * 64; // Frames handed to the encoder at a time
+
+const BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES_V1 = [44100, 48000, 32000];
+const TOC_ENTRIES = 100;
+
+interface FrameHeader {
+    mpeg1: boolean;
+    sampleRate: number;
+    mono: boolean;
+    size: number; // Bytes
+}
+
+const parseHeader = (bytes: Uint8Array, offset: number): FrameHeader | null => {
+    if (offset + 4 > bytes.length || bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xE0) !== 0xE0) return null;
+    const version = (bytes[offset + 1] >> 3) & 3; // 3 = MPEG 1, 2 = MPEG 2, 0 = MPEG 2.5
+    const bitrateIndex = bytes[offset + 2] >> 4;
+    const rateIndex = (bytes[offset + 2] >> 2) & 3;
+    if (version === 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+    const mpeg1 = version === 3;
+    const sampleRate = SAMPLE_RATES_V1[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+    const bitrate = (mpeg1 ? BITRATES_V1 : BITRATES_V2)[bitrateIndex];
+    const padding = (bytes[offset + 2] >> 1) & 1;
+    return {
+        mpeg1,
+        sampleRate,
+        mono: (bytes[offset + 3] >> 6) === 3,
+        size: Math.floor((mpeg1 ? 144000 : 72000) * bitrate / sampleRate) + padding,
+    };
+};
+
+const xingFrame = (stream: Uint8Array, vbr: boolean): Uint8Array => {
+    const offsets: number[] = [];
+    let first: FrameHeader | null = null;
+    for (let offset = 0; ;) {
+        const header = parseHeader(stream, offset);
+        if (!header) break;
+        first ??= header;
+        offsets.push(offset);
+        offset += header.size;
+    }
+    if (!first) return new Uint8Array(0);
+
+    // The tag follows the side information; the frame gets the lowest bitrate that fits it
+    const sideInfo = first.mpeg1 ? (first.mono ? 17 : 32) : (first.mono ? 9 : 17);
+    const tagOffset = 4 + sideInfo;
+    const needed = tagOffset + 16 + TOC_ENTRIES;
+    const bitrates = first.mpeg1 ? BITRATES_V1 : BITRATES_V2;
+    let bitrateIndex = 1;
+    while (bitrateIndex < 14 && Math.floor((first.mpeg1 ? 144000 : 72000) * bitrates[bitrateIndex] / first.sampleRate) < needed) bitrateIndex++;
+    const size = Math.floor((first.mpeg1 ? 144000 : 72000) * bitrates[bitrateIndex] / first.sampleRate);
+
+    const frame = new Uint8Array(size);
+    frame.set(stream.subarray(0, 4));
+    frame[1] |= 1; // No CRC
+    frame[2] = (bitrateIndex << 4) | (frame[2] & 0x0C); // Same sample rate, no padding
+    frame.set(asciiBytes(vbr ? 'Xing' : 'Info'), tagOffset);
+
+    const view = new DataView(frame.buffer);
+    const totalBytes = size + stream.length;
+    view.setUint32(tagOffset + 4, 0x7); // Frames, bytes and TOC present
+    view.setUint32(tagOffset + 8, offsets.length);
+    view.setUint32(tagOffset + 12, totalBytes);
+    // Seek table: position of every percent of the duration, in 1/256 of the file
+    for (let i = 0; i < TOC_ENTRIES; i++) {
+        const offset = size + offsets[Math.floor(i / TOC_ENTRIES * offsets.length)];
+        frame[tagOffset + 16 + i] = Math.min(255, Math.floor(offset / totalBytes * 256));
+    }
+    return frame;
+};
+
+// Up to two channels at one of the MPEG sample rates (see MP3_SAMPLE_RATES)
+export const encodeMp3 = async (
+    channels: Float32Array[],
+    sampleRate: number,
+    settings: Pick<ExportSettings, 'mp3Mode' | 'mp3Bitrate' | 'mp3Quality'>,
+    onProgress?: (fraction: number) => void
+): Promise<Uint8Array> => {
+    const { createMp3Encoder } = await import('wasm-media-encoders');
+    const encoder = await createMp3Encoder();
+    const vbr = settings.mp3Mode === 'vbr';
+    const base = { channels: channels.length as 1 | 2, sampleRate };
+    encoder.configure(vbr
+        ? { ...base, vbrQuality: settings.mp3Quality }
+        : { ...base, bitrate: settings.mp3Bitrate as Mp3Config['bitrate'] });
+
+    // The encoder reuses its output buffer, so every result is copied
+    const parts: Uint8Array[] = [];
+    const length = channels[0]?.length ?? 0;
+    for (let start = 0; start < length; start += ENCODE_CHUNK) {
+        parts.push(encoder.encode(channels.map(data => data.subarray(start, start + ENCODE_CHUNK))).slice());
+        onProgress?.(Math.min(1, (start + ENCODE_CHUNK) / length));
+    }
+    parts.push(encoder.finalize().slice());
+
+    const stream = concatBytes(parts);
+    return concatBytes([xingFrame(stream, vbr), stream]);
+};
@@ -0,0 +1,139 @@
+
+import type { NoiseProfile, NoiseReductionSettings } from '../types';
+import { fft, hannWindow } from './fft';
+
+// STFT spectral subtraction. Frames use a square-root Hann window for both analysis and
+// synthesis, so at 75% overlap the windows multiply to a Hann that overlap-adds to 2.
+export const NOISE_FFT_SIZE = 2048;
+const HOP = NOISE_FFT_SIZE / 4;
+const OVERLAP_GAIN = 2;
+const BINS = NOISE_FFT_SIZE / 2 + 1;
+// Noise power is over-subtracted a little, which leaves less residual "musical" noise
+const OVERSUBTRACTION = 2;
+// Share of the quietest frames averaged when no profile was captured
+const AUTO_PROFILE_FRACTION = 0.1;
+const MAX_FREQUENCY_SMOOTHING = 4; // Bins on each side
+const MAX_TIME_SMOOTHING = 0.85;
+
+export const DEFAULT_NOISE_REDUCTION: NoiseReductionSettings = { reduction: 18, smoothing: 0.5 };
+
+const analysisWindow = hannWindow(NOISE_FFT_SIZE).map(Math.sqrt);
+
+// Calls `visit` with the spectrum of every frame of `data`. The signal is padded by one
+// frame at both ends so every sample is covered by the full set of overlapping frames.
+const forEachFrame = (
+    data: Float32Array,
+    visit: (re: Float64Array, im: Float64Array, frameStart: number) => void
+) => {
+    const padded = new Float64Array(data.length + NOISE_FFT_SIZE * 2);
+    padded.set(data, NOISE_FFT_SIZE);
+    const re = new Float64Array(NOISE_FFT_SIZE);
+    const im = new Float64Array(NOISE_FFT_SIZE);
+    for (let start = 0; start + NOISE_FFT_SIZE <= padded.length; start += HOP) {
+        for (let i = 0; i < NOISE_FFT_SIZE; i++) {
+            re[i] = padded[start + i] * analysisWindow[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        visit(re, im, start);
+    }
+};
+
+const averageMagnitudes = (channels: Float32Array[], sampleRate: number, include: (frameStart: number) => boolean): NoiseProfile => {
+    const sums = new Float64Array(BINS);
+    let frames = 0;
+    channels.forEach(data => forEachFrame(data, (re, im, start) => {
+        if (!include(start)) return;
+        for (let k = 0; k < BINS; k++) sums[k] += Math.hypot(re[k], im[k]);
+        frames++;
+    }));
+    const magnitudes = new Float32Array(BINS);
+    for (let k = 0; k < BINS; k++) magnitudes[k] = frames > 0 ? sums[k] / frames : 0;
+    return { sampleRate, fftSize: NOISE_FFT_SIZE, magnitudes };
+};
+
+// Profile of a region that contains only noise
+export const learnNoiseProfile = (channels: Float32Array[], sampleRate: number): NoiseProfile => {
+    if (channels[0].length < NOISE_FFT_SIZE) {
+        throw new Error("Vùng mẫu nhiễu quá ngắn.");
+    }
+    return averageMagnitudes(channels, sampleRate, () => true);
+};
+
+// Profile from the quietest frames of a region that also contains signal
+const estimateNoiseProfile = (channels: Float32Array[], sampleRate: number): NoiseProfile => {
+    const energies: number[] = [];
+    const length = channels[0].length + NOISE_FFT_SIZE * 2;
+    for (let start = 0; start + NOISE_FFT_SIZE <= length; start += HOP) {
+        let energy = 0;
+        for (const data of channels) {
+            const from = Math.max(0, start - NOISE_FFT_SIZE);
+            const to = Math.min(data.length, start);
+            for (let i = from; i < to; i++) energy += data[i] * data[i];
+        }
+        energies.push(energy);
+    }
+    const threshold = [...energies].sort((a, b) => a - b)[Math.floor((energies.length - 1) * AUTO_PROFILE_FRACTION)];
+    return averageMagnitudes(channels, sampleRate, start => energies[start / HOP] <= threshold);
+};
+
+export const spectralDenoise = (
+    channels: Float32Array[],
+    sampleRate: number,
+    settings: NoiseReductionSettings,
+    profile?: NoiseProfile,
+    onProgress?: (fraction: number) => void
+): Float32Array[] => {
+    const noise = profile ?? estimateNoiseProfile(channels, sampleRate);
+    if (noise.fftSize !== NOISE_FFT_SIZE || noise.sampleRate !== sampleRate) {
+        throw new Error("Mẫu nhiễu được lấy từ âm thanh có tần số lấy mẫu khác.");
+    }
+
+    const floor = Math.pow(10, -settings.reduction / 20);
+    const spread = Math.round(settings.smoothing * MAX_FREQUENCY_SMOOTHING);
+    const timeSmoothing = settings.smoothing * MAX_TIME_SMOOTHING;
+    const noisePower = noise.magnitudes.map(m => m * m * OVERSUBTRACTION);
+
+    return channels.map((data, c) => {
+        const output = new Float64Array(data.length + NOISE_FFT_SIZE * 2);
+        const raw = new Float64Array(BINS);
+        const gains = new Float64Array(BINS).fill(1);
+
+        forEachFrame(data, (re, im, start) => {
+            onProgress?.((c + start / output.length) / channels.length);
+            for (let k = 0; k < BINS; k++) {
+                const power = re[k] * re[k] + im[k] * im[k];
+                raw[k] = power > 0 ? Math.sqrt(Math.max(floor * floor, 1 - noisePower[k] / power)) : floor;
+            }
+            for (let k = 0; k < BINS; k++) {
+                let sum = 0;
+                let count = 0;
+                for (let j = Math.max(0, k - spread); j <= Math.min(BINS - 1, k + spread); j++) {
+                    sum += raw[j];
+                    count++;
+                }
+                const target = sum / count;
+                // Gains open twice as fast as they close, so word onsets stay crisp
+                const smoothing = target > gains[k] ? timeSmoothing / 2 : timeSmoothing;
+                gains[k] = smoothing * gains[k] + (1 - smoothing) * target;
+            }
+
+            for (let k = 0; k < BINS; k++) {
+                re[k] *= gains[k];
+                im[k] *= gains[k];
+                if (k > 0 && k < NOISE_FFT_SIZE / 2) {
+                    re[NOISE_FFT_SIZE - k] *= gains[k];
+                    im[NOISE_FFT_SIZE - k] *= gains[k];
+                }
+            }
+            fft(re, im, true);
+            for (let i = 0; i < NOISE_FFT_SIZE; i++) {
+                output[start + i] += re[i] / NOISE_FFT_SIZE * analysisWindow[i];
+            }
+        });
+
+        const result = new Float32Array(data.length);
+        for (let i = 0; i < data.length; i++) result[i] = output[NOISE_FFT_SIZE + i] / OVERLAP_GAIN;
+        return result;
+    });
+};
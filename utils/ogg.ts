@@ -0,0 +1,133 @@
+
+import { concatBytes } from './bytes';
+
+// Ogg container (RFC 3533) writer, and a reader for the header packets at the start of a
+// stream. Packets are laced into 255-byte segments; a page is closed once it holds about
+// PAGE_SIZE bytes, or earlier when asked to, and a packet longer than one page continues on
+// the next.
+
+const PAGE_SIZE = 4096;
+const MAX_SEGMENTS = 255;
+const FLAG_CONTINUED = 0x01;
+const FLAG_FIRST = 0x02;
+const FLAG_LAST = 0x04;
+
+// CRC-32 with polynomial 0x04C11DB7, not reflected, as used in page headers
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let crc = n << 24;
+        for (let i = 0; i < 8; i++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+        table[n] = crc >>> 0;
+    }
+    return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+    let crc = 0;
+    for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[(crc >>> 24) ^ bytes[i]]) >>> 0;
+    return crc;
+};
+
+export class OggWriter {
+    private pages: Uint8Array[] = [];
+    private segments: number[] = [];
+    private body: Uint8Array[] = [];
+    private bodySize = 0;
+    private granule = -1; // Of the last packet completed on the open page; -1 when none is
+    private sequence = 0;
+    private continued = false;
+
+    constructor(private readonly serial: number) {}
+
+    // Adds a packet whose last sample has granule position `granule`. `flush` closes the page
+    // after it, which header packets require.
+    writePacket(packet: Uint8Array, granule: number, flush = false) {
+        if (this.bodySize >= PAGE_SIZE) this.closePage(false);
+        for (let offset = 0; ;) {
+            const size = Math.min(255, packet.length - offset);
+            this.segments.push(size);
+            this.body.push(packet.subarray(offset, offset + size));
+            this.bodySize += size;
+            offset += size;
+            const complete = size < 255; // A shorter (possibly empty) segment ends the packet
+            if (complete) this.granule = granule;
+            if (this.segments.length === MAX_SEGMENTS) this.closePage(!complete);
+            if (complete) break;
+        }
+        if (flush && this.segments.length > 0) this.closePage(false);
+    }
+
+    // The stream with its last page marked as such
+    finish(): Uint8Array {
+        if (this.segments.length > 0 || this.pages.length === 0) {
+            this.closePage(false, true);
+        } else {
+            const page = this.pages[this.pages.length - 1];
+            const view = new DataView(page.buffer);
+            page[5] |= FLAG_LAST;
+            view.setUint32(22, 0);
+            view.setUint32(22, oggCrc(page), true);
+        }
+        const output = new Uint8Array(this.pages.reduce((sum, page) => sum + page.length, 0));
+        let offset = 0;
+        for (const page of this.pages) {
+            output.set(page, offset);
+            offset += page.length;
+        }
+        return output;
+    }
+
+    private closePage(continues: boolean, last = false) {
+        const page = new Uint8Array(27 + this.segments.length + this.bodySize);
+        const view = new DataView(page.buffer);
+        page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+        page[5] = (this.continued ? FLAG_CONTINUED : 0) | (this.sequence === 0 ? FLAG_FIRST : 0) | (last ? FLAG_LAST : 0);
+        view.setBigInt64(6, BigInt(this.granule), true);
+        view.setUint32(14, this.serial, true);
+        view.setUint32(18, this.sequence, true);
+        page[26] = this.segments.length;
+        page.set(this.segments, 27);
+        let offset = 27 + this.segments.length;
+        for (const part of this.body) {
+            page.set(part, offset);
+            offset += part.length;
+        }
+        view.setUint32(22, oggCrc(page), true);
+
+        this.pages.push(page);
+        this.sequence++;
+        this.continued = continues;
+        this.segments = [];
+        this.body = [];
+        this.bodySize = 0;
+        this.granule = -1;
+    }
+}
+
+// The first `count` packets of the first logical stream (fewer when the data ends before)
+export const readOggPackets = (bytes: Uint8Array, count: number): Uint8Array[] => {
+    const packets: Uint8Array[] = [];
+    let parts: Uint8Array[] = [];
+    let serial: number | null = null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = 0; packets.length < count && offset + 27 <= bytes.length;) {
+        if (view.getUint32(offset) !== 0x4F676753) break; // "OggS"
+        const lacing = bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]);
+        const pageSerial = view.getUint32(offset + 14, true);
+        serial ??= pageSerial;
+        let body = offset + 27 + lacing.length;
+        for (const size of lacing) {
+            if (pageSerial === serial && packets.length < count) {
+                parts.push(bytes.subarray(body, body + size));
+                if (size < 255) {
+                    packets.push(concatBytes(parts));
+                    parts = [];
+                }
+            }
+            body += size;
+        }
+        offset = body;
+    }
+    return packets;
+};
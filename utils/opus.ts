@@ -0,0 +1,110 @@
+
+import { asciiBytes, concatBytes } from './bytes';
+import { OggWriter } from './ogg';
+import { vorbisCommentBody } from './metadata';
+
+// Opus in Ogg (RFC 7845). The browser's WebCodecs encoder produces the packets; they are
+// muxed here with the identification and comment headers.
+
+export const OPUS_SAMPLE_RATE = 48000; // Opus always runs at 48 kHz; granules count at this rate
+const DEFAULT_PRE_SKIP = 312; // libopus lookahead, when the encoder does not say
+const ENCODE_CHUNK = OPUS_SAMPLE_RATE; // Frames per AudioData
+
+const opusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(asciiBytes('OpusHead'));
+    head[8] = 1; // Version
+    head[9] = channels;
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, inputSampleRate, true);
+    view.setInt16(16, 0, true); // Output gain
+    head[18] = 0; // Channel mapping family: mono or stereo
+    return head;
+};
+
+const opusTags = (comments: string[]): Uint8Array =>
+    concatBytes([asciiBytes('OpusTags'), vorbisCommentBody(comments)]);
+
+// Pre-skip from the identification header the encoder may supply as its decoder description
+const encoderPreSkip = (description: AllowSharedBufferSource | undefined): number | null => {
+    if (!description) return null;
+    const bytes = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+        : new Uint8Array(description);
+    if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+    return bytes[10] | (bytes[11] << 8);
+};
+
+// Encodes up to two channels at OPUS_SAMPLE_RATE; `inputSampleRate` is only recorded in the header
+export const encodeOpus = async (
+    channels: Float32Array[],
+    inputSampleRate: number,
+    bitrate: number, // kbps
+    comments: string[], // Vorbis comments, see metadata.ts
+    onProgress?: (fraction: number) => void
+): Promise<Uint8Array> => {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error("Trình duyệt không hỗ trợ mã hoá Opus (WebCodecs).");
+    }
+    const config: AudioEncoderConfig = {
+        codec: 'opus',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfChannels: channels.length,
+        bitrate: bitrate * 1000,
+    };
+    if (!(await AudioEncoder.isConfigSupported(config)).supported) {
+        throw new Error("Trình duyệt không hỗ trợ mã hoá Opus với cấu hình này.");
+    }
+
+    const length = channels[0]?.length ?? 0;
+    const packets: { data: Uint8Array, frames: number }[] = [];
+    let preSkip = DEFAULT_PRE_SKIP;
+    let failure: Error | null = null;
+    let encoded = 0;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            const frames = Math.round((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE / 1e6);
+            packets.push({ data, frames });
+            preSkip = encoderPreSkip(metadata?.decoderConfig?.description) ?? preSkip;
+            encoded += frames;
+            onProgress?.(Math.min(1, encoded / Math.max(1, length)));
+        },
+        error: (err) => { failure = err; },
+    });
+    encoder.configure(config);
+
+    for (let start = 0; start < length; start += ENCODE_CHUNK) {
+        const frames = Math.min(ENCODE_CHUNK, length - start);
+        const planar = new Float32Array(frames * channels.length);
+        channels.forEach((data, c) => planar.set(data.subarray(start, start + frames), c * frames));
+        const audio = new AudioData({
+            format: 'f32-planar',
+            sampleRate: OPUS_SAMPLE_RATE,
+            numberOfFrames: frames,
+            numberOfChannels: channels.length,
+            timestamp: Math.round(start / OPUS_SAMPLE_RATE * 1e6),
+            data: planar,
+        });
+        encoder.encode(audio);
+        audio.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+
+    const ogg = new OggWriter(Math.floor(Math.random() * 0xFFFFFFFF));
+    ogg.writePacket(opusHead(channels.length, preSkip, inputSampleRate), 0, true);
+    ogg.writePacket(opusTags(comments), 0, true);
+    // Granules include the pre-skip; the last one marks where the decoded audio really ends
+    const total = packets.reduce((sum, packet) => sum + packet.frames, 0);
+    const end = Math.min(preSkip + length, total);
+    let granule = 0;
+    packets.forEach((packet, i) => {
+        granule += packet.frames;
+        ogg.writePacket(packet.data, i === packets.length - 1 ? end : Math.min(granule, end));
+    });
+    return ogg.finish();
+};
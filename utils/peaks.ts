@@ -0,0 +1,123 @@
+
+// Multi-resolution min/max peak cache. Level 0 holds one min/max pair per BASE_BLOCK samples,
+// each further level reduces the previous one by LEVEL_FACTOR. Caches are keyed by the buffer
+// itself, so every view of the same AudioBuffer shares them and they are dropped with it.
+const BASE_BLOCK = 256;
+const LEVEL_FACTOR = 4;
+const MIN_LEVEL_PEAKS = 256;
+
+interface PeakLevel {
+    samplesPerPeak: number;
+    min: Float32Array;
+    max: Float32Array;
+}
+
+// One entry per channel, each an array of levels from finest to coarsest
+type PeakCache = PeakLevel[][];
+
+export interface PeakRange {
+    min: Float32Array;
+    max: Float32Array;
+}
+
+const peakCaches = new WeakMap<AudioBuffer, PeakCache>();
+
+const buildBaseLevel = (data: Float32Array): PeakLevel => {
+    const count = Math.ceil(data.length / BASE_BLOCK);
+    const min = new Float32Array(count);
+    const max = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        const blockStart = i * BASE_BLOCK;
+        const blockEnd = Math.min(blockStart + BASE_BLOCK, data.length);
+        let lo = data[blockStart];
+        let hi = lo;
+        for (let j = blockStart + 1; j < blockEnd; j++) {
+            const v = data[j];
+            if (v < lo) lo = v;
+            else if (v > hi) hi = v;
+        }
+        min[i] = lo;
+        max[i] = hi;
+    }
+    return { samplesPerPeak: BASE_BLOCK, min, max };
+};
+
+const reduceLevel = (level: PeakLevel): PeakLevel => {
+    const count = Math.ceil(level.min.length / LEVEL_FACTOR);
+    const min = new Float32Array(count);
+    const max = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        const from = i * LEVEL_FACTOR;
+        const to = Math.min(from + LEVEL_FACTOR, level.min.length);
+        let lo = level.min[from];
+        let hi = level.max[from];
+        for (let j = from + 1; j < to; j++) {
+            if (level.min[j] < lo) lo = level.min[j];
+            if (level.max[j] > hi) hi = level.max[j];
+        }
+        min[i] = lo;
+        max[i] = hi;
+    }
+    return { samplesPerPeak: level.samplesPerPeak * LEVEL_FACTOR, min, max };
+};
+
+const getPeakCache = (buffer: AudioBuffer): PeakCache => {
+    let cache = peakCaches.get(buffer);
+    if (!cache) {
+        cache = [];
+        for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+            const levels = [buildBaseLevel(buffer.getChannelData(ch))];
+            while (levels[levels.length - 1].min.length > MIN_LEVEL_PEAKS) {
+                levels.push(reduceLevel(levels[levels.length - 1]));
+            }
+            cache.push(levels);
+        }
+        peakCaches.set(buffer, cache);
+    }
+    return cache;
+};
+
+// Returns `columns` min/max pairs covering [startSample, endSample) of one channel.
+// Uses the coarsest cached level that still has at least one peak per column, and falls
+// back to the raw samples when zoomed in further than the finest level.
+export const getPeaks = (
+    buffer: AudioBuffer,
+    channel: number,
+    startSample: number,
+    endSample: number,
+    columns: number
+): PeakRange => {
+    const min = new Float32Array(columns);
+    const max = new Float32Array(columns);
+    const samplesPerColumn = (endSample - startSample) / columns;
+    if (columns <= 0 || samplesPerColumn <= 0) return { min, max };
+
+    let source: { samplesPerPeak: number; min: Float32Array; max: Float32Array };
+    if (samplesPerColumn < BASE_BLOCK) {
+        const data = buffer.getChannelData(channel);
+        source = { samplesPerPeak: 1, min: data, max: data };
+    } else {
+        const levels = getPeakCache(buffer)[channel];
+        source = levels[0];
+        for (const level of levels) {
+            if (level.samplesPerPeak > samplesPerColumn) break;
+            source = level;
+        }
+    }
+
+    const total = source.min.length;
+    for (let x = 0; x < columns; x++) {
+        const from = Math.max(0, Math.floor((startSample + x * samplesPerColumn) / source.samplesPerPeak));
+        const to = Math.min(total, Math.max(from + 1, Math.ceil((startSample + (x + 1) * samplesPerColumn) / source.samplesPerPeak)));
+        if (from >= total) break;
+        let lo = source.min[from];
+        let hi = source.max[from];
+        for (let i = from + 1; i < to; i++) {
+            if (source.min[i] < lo) lo = source.min[i];
+            if (source.max[i] > hi) hi = source.max[i];
+        }
+        min[x] = lo;
+        max[x] = hi;
+    }
+    return { min, max };
+};
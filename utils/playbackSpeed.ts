@@ -0,0 +1,101 @@
+
+import { loadWorklet } from './worklets';
+
+// Transport speed of live playback. Sources play `rate` times faster through their
+// playbackRate, which also raises the pitch by `rate`; with pitch preservation the speed
+// stage at the end of the output shifts it back down by 1 / rate.
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+const PROCESSOR_NAME = 'dino-pitch-corrector';
+const GRAIN = 0.04; // Seconds; long enough for voices, short enough to keep the timing tight
+
+// Granular pitch shifter: two read taps sweep through a delay line half a grain apart, each
+// faded with sin², which sums to 1 across the pair. A pitch of exactly 1 passes the input
+// through untouched (the delay line keeps filling, so switching back in does not click).
+const PROCESSOR_SOURCE = `
+const SIZE = 1 << 16;
+
+class PitchCorrector extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [{ name: 'pitch', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+    }
+
+    constructor() {
+        super();
+        this.lines = [new Float32Array(SIZE), new Float32Array(SIZE)];
+        this.write = 0;
+        this.phase = 0;
+        this.grain = Math.round(${GRAIN} * sampleRate);
+    }
+
+    read(line, delay) {
+        const position = this.write - 1 - delay;
+        const index = Math.floor(position);
+        const frac = position - index;
+        const a = line[index & (SIZE - 1)];
+        const b = line[(index + 1) & (SIZE - 1)];
+        return a + (b - a) * frac;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        const pitch = parameters.pitch[0];
+        const step = (1 - pitch) / this.grain;
+        const frames = output[0].length;
+
+        for (let i = 0; i < frames; i++) {
+            for (let ch = 0; ch < 2; ch++) {
+                const channel = input[ch] || input[0];
+                this.lines[ch][this.write & (SIZE - 1)] = channel ? channel[i] : 0;
+            }
+            this.write++;
+
+            if (pitch === 1) {
+                for (let ch = 0; ch < 2; ch++) {
+                    const out = output[ch] || output[0];
+                    out[i] = this.lines[ch][(this.write - 1) & (SIZE - 1)];
+                }
+                continue;
+            }
+
+            this.phase = (this.phase + step + 1) % 1;
+            const phaseB = (this.phase + 0.5) % 1;
+            const gainA = Math.sin(Math.PI * this.phase) ** 2;
+            const gainB = 1 - gainA;
+            for (let ch = 0; ch < 2; ch++) {
+                const line = this.lines[ch];
+                const out = output[ch] || output[0];
+                out[i] = gainA * this.read(line, this.phase * this.grain) + gainB * this.read(line, phaseB * this.grain);
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PitchCorrector);
+`;
+
+export interface SpeedStage {
+    input: GainNode;
+    corrector: AudioWorkletNode;
+}
+
+// Last stage before `destination`; everything heard during playback connects to `input`
+export const createSpeedStage = async (ctx: BaseAudioContext, destination: AudioNode): Promise<SpeedStage> => {
+    await loadWorklet(ctx, PROCESSOR_SOURCE);
+    const input = ctx.createGain();
+    const corrector = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+    });
+    input.connect(corrector);
+    corrector.connect(destination);
+    return { input, corrector };
+};
+
+export const updateSpeedStage = (stage: SpeedStage, rate: number, preservePitch: boolean) => {
+    stage.corrector.parameters.get('pitch')!.value = preservePitch ? 1 / rate : 1;
+};
@@ -0,0 +1,131 @@
+
+import type { AudioMetadata, ExportSettings, GateSettings, Marker, NoiseProfile, NoiseReductionSettings, SelectionRange, SilenceSettings } from '../types';
+import type { LoudnessStats } from './loudness';
+
+// Long-running processing: DSP jobs on a Web Worker and offline renders, both reporting
+// progress and cancellable through an AbortSignal.
+
+export interface ProcessingOptions {
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void; // 0..1
+    onWarning?: (message: string) => void; // The task went ahead, but could not do all it was asked to
+}
+
+export class ProcessingCancelledError extends Error {
+    constructor() {
+        super("Đã hủy xử lý.");
+        this.name = 'ProcessingCancelledError';
+    }
+}
+
+export const throwIfCancelled = (options: ProcessingOptions) => {
+    if (options.signal?.aborted) throw new ProcessingCancelledError();
+};
+
+// Options for one part of a longer task, which covers `from`..`to` of its overall progress
+export const progressRange = (options: ProcessingOptions, from: number, to: number): ProcessingOptions => ({
+    signal: options.signal,
+    onProgress: options.onProgress && (fraction => options.onProgress!(from + (to - from) * fraction)),
+    onWarning: options.onWarning,
+});
+
+// Jobs run by dsp.worker.ts. Channel arrays are transferred to the worker, so callers must
+// pass copies they no longer need.
+export type DspJob =
+    | { kind: 'learnNoise'; channels: Float32Array[]; sampleRate: number }
+    | { kind: 'denoise'; channels: Float32Array[]; sampleRate: number; settings: NoiseReductionSettings; profile?: NoiseProfile }
+    | { kind: 'gate'; channels: Float32Array[]; sampleRate: number; settings: GateSettings }
+    | { kind: 'gateGains'; channels: Float32Array[]; sampleRate: number; settings: GateSettings }
+    | { kind: 'stretch'; channels: Float32Array[]; sampleRate: number; stretch: number; semitones: number }
+    | { kind: 'loudness'; channels: Float32Array[]; sampleRate: number }
+    | { kind: 'silence'; channels: Float32Array[]; sampleRate: number; settings: SilenceSettings }
+    | { kind: 'encode'; channels: Float32Array[]; sampleRate: number; settings: ExportSettings; metadata: AudioMetadata; markers: Marker[] };
+
+export interface DspResults {
+    learnNoise: NoiseProfile;
+    denoise: Float32Array[];
+    gate: Float32Array[];
+    gateGains: Float32Array; // Linear gain per sample
+    stretch: Float32Array[];
+    loudness: LoudnessStats;
+    silence: SelectionRange[];
+    encode: Uint8Array; // The exported file
+}
+
+export type DspMessage =
+    | { type: 'progress'; progress: number }
+    | { type: 'result'; result: DspResults[DspJob['kind']] }
+    | { type: 'error'; message: string };
+
+// Runs one job on a dedicated worker, which is terminated when the job ends or is cancelled
+export const runDspJob = <J extends DspJob>(job: J, options: ProcessingOptions = {}): Promise<DspResults[J['kind']]> =>
+    new Promise((resolve, reject) => {
+        if (options.signal?.aborted) return reject(new ProcessingCancelledError());
+
+        const worker = new Worker(new URL('./dsp.worker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            options.signal?.removeEventListener('abort', cancel);
+        };
+        const cancel = () => {
+            finish();
+            reject(new ProcessingCancelledError());
+        };
+        options.signal?.addEventListener('abort', cancel);
+
+        worker.onmessage = (event: MessageEvent<DspMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                options.onProgress?.(message.progress);
+                return;
+            }
+            finish();
+            if (message.type === 'error') reject(new Error(message.message));
+            else resolve(message.result as DspResults[J['kind']]);
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message));
+        };
+        worker.postMessage(job, job.channels.map(c => c.buffer));
+    });
+
+const RENDER_PROGRESS_STEPS = 50;
+const RENDER_QUANTUM = 128; // Frames; suspend times are rounded to render quanta
+
+// startRendering() of a context whose graph is already set up. The render pauses briefly at
+// regular points to report progress, and is abandoned when the task is cancelled.
+export const renderOffline = (ctx: OfflineAudioContext, options: ProcessingOptions = {}): Promise<AudioBuffer> => {
+    if (options.signal?.aborted) return Promise.reject(new ProcessingCancelledError());
+
+    let cancelled = false;
+    const quanta = Math.ceil(ctx.length / RENDER_QUANTUM);
+    const step = Math.max(1, Math.ceil(quanta / RENDER_PROGRESS_STEPS));
+    for (let quantum = step; quantum < quanta; quantum += step) {
+        const frame = quantum * RENDER_QUANTUM;
+        ctx.suspend(frame / ctx.sampleRate).then(() => {
+            options.onProgress?.(frame / ctx.length);
+            // A cancelled render stays suspended and is dropped with the context
+            if (!cancelled) ctx.resume();
+        });
+    }
+
+    return new Promise((resolve, reject) => {
+        const cancel = () => {
+            cancelled = true;
+            reject(new ProcessingCancelledError());
+        };
+        options.signal?.addEventListener('abort', cancel, { once: true });
+        ctx.startRendering().then(
+            rendered => {
+                options.signal?.removeEventListener('abort', cancel);
+                options.onProgress?.(1);
+                resolve(rendered);
+            },
+            err => {
+                options.signal?.removeEventListener('abort', cancel);
+                reject(err);
+            }
+        );
+    });
+};
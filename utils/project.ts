@@ -0,0 +1,309 @@
+
+import type { Clip, DuckingSettings, Marker, MasterBusSettings, Track, TrackAutomation, TrackInsert } from '../types';
+import { decodeFileAsAudioBuffer } from './audio';
+import { withClipDefaults } from './clips';
+import { withTrackDefaults } from './tracks';
+import { withMasterDefaults } from './masterBus';
+import { withDuckingDefaults } from './ducking';
+
+// Studio project file (.dinoproj), a single binary file:
+//   "DINOPROJ" magic (8 bytes) | manifest length (uint32 LE) | manifest JSON (UTF-8) | audio payload
+// Embedded audio is stored as the original encoded file bytes, so projects stay close to the
+// size of the source files. Referenced audio is only described by name/size and has to be
+// supplied again when the project is opened.
+export const PROJECT_EXTENSION = '.dinoproj';
+export const PROJECT_VERSION = 9;
+
+const MAGIC = 'DINOPROJ';
+const HEADER_SIZE = MAGIC.length + 4;
+
+export interface ProjectAsset {
+    id: string;
+    name: string;
+    type: string;
+    size: number;
+    lastModified: number;
+    embedded: boolean;
+    offset?: number; // Byte offset into the payload (embedded assets only)
+}
+
+// A stored clip; `duration` is null in files from before v2, meaning "to the end of the source",
+// and is resolved once the audio is decoded
+export type ProjectClip = Omit<Clip, 'duration'> & { duration: number | null };
+
+export interface ProjectTrack {
+    id: string;
+    assetId: string;
+    clips: ProjectClip[];
+    volume: number;
+    pan: number;
+    isMuted: boolean;
+    isSolo: boolean;
+    inserts: TrackInsert[];
+    automation: TrackAutomation;
+    color: string;
+}
+
+export interface ProjectManifest {
+    version: number;
+    createdAt: string;
+    tracks: ProjectTrack[];
+    master: MasterBusSettings;
+    ducking: DuckingSettings;
+    markers: Marker[];
+    assets: ProjectAsset[];
+}
+
+// Manifests of older versions, where any field added after v1 may still be missing
+type StoredClip = Pick<ProjectClip, 'id' | 'startTime' | 'offset' | 'duration'> & Partial<ProjectClip>;
+
+type StoredTrack = Pick<ProjectTrack, 'id' | 'assetId' | 'volume' | 'isMuted' | 'color'>
+    & Partial<Pick<ProjectTrack, 'pan' | 'isSolo' | 'inserts' | 'automation'>>
+    & { startTime?: number; clips?: StoredClip[] }; // v1 tracks have a start time instead of clips
+
+interface StoredManifest extends Pick<ProjectManifest, 'version' | 'createdAt' | 'assets'> {
+    tracks: StoredTrack[];
+    master?: Partial<MasterBusSettings>;
+    ducking?: Partial<DuckingSettings>;
+    markers?: Marker[];
+}
+
+const withStoredClipDefaults = (clip: StoredClip): ProjectClip => ({
+    ...withClipDefaults({ ...clip, duration: clip.duration ?? 0 }),
+    duration: clip.duration,
+});
+
+// Upgrades a manifest of version `n` to `n + 1`. When `Track` grows a field, bump
+// PROJECT_VERSION and add a step here that fills in its default for older files.
+const MIGRATIONS: Record<number, (manifest: StoredManifest) => StoredManifest> = {
+    // v1 -> v2: one clip per track, running to the end of the source
+    1: manifest => ({
+        ...manifest,
+        tracks: manifest.tracks.map(({ startTime = 0, ...track }) => ({
+            ...track,
+            clips: [{ id: `${track.id}_0`, startTime, offset: 0, duration: null }],
+        })),
+    }),
+    // v2 -> v3: clip fades
+    2: manifest => ({
+        ...manifest,
+        tracks: manifest.tracks.map(track => ({
+            ...track,
+            clips: (track.clips ?? []).map(withStoredClipDefaults),
+        })),
+    }),
+    // v3 -> v4: pan, solo and insert effects
+    3: manifest => ({
+        ...manifest,
+        tracks: manifest.tracks.map(withTrackDefaults),
+    }),
+    // v4 -> v5: master bus
+    4: manifest => ({
+        ...manifest,
+        master: withMasterDefaults(),
+    }),
+    // v5 -> v6: volume/pan automation
+    5: manifest => ({
+        ...manifest,
+        tracks: manifest.tracks.map(withTrackDefaults),
+    }),
+    // v6 -> v7: sidechain ducking
+    6: manifest => ({
+        ...manifest,
+        ducking: withDuckingDefaults(),
+    }),
+    // v7 -> v8: clip time-stretch and pitch shift
+    7: manifest => ({
+        ...manifest,
+        tracks: manifest.tracks.map(track => ({
+            ...track,
+            clips: (track.clips ?? []).map(withStoredClipDefaults),
+        })),
+    }),
+    // v8 -> v9: chapter markers and regions
+    8: manifest => ({
+        ...manifest,
+        markers: [],
+    }),
+};
+
+const isStoredManifest = (raw: unknown): raw is StoredManifest => {
+    const manifest = raw as Partial<StoredManifest> | null;
+    return typeof manifest === 'object' && manifest !== null && typeof manifest.version === 'number'
+        && Array.isArray(manifest.tracks) && Array.isArray(manifest.assets);
+};
+
+// The migrations fill in every field; the defaults here only cover a file that skipped one
+const completeManifest = ({ tracks, master, ducking, markers, ...manifest }: StoredManifest): ProjectManifest => ({
+    ...manifest,
+    tracks: tracks.map(({ startTime, clips = [], ...track }) => ({
+        ...withTrackDefaults(track),
+        clips: clips.map(withStoredClipDefaults),
+    })),
+    master: withMasterDefaults(master),
+    ducking: withDuckingDefaults(ducking),
+    markers: markers ?? [],
+});
+
+export const migrateManifest = (raw: unknown): ProjectManifest => {
+    if (!isStoredManifest(raw)) {
+        throw new Error("Invalid project manifest.");
+    }
+    if (raw.version > PROJECT_VERSION) {
+        throw new Error(`Project version ${raw.version} is newer than this app supports (${PROJECT_VERSION}).`);
+    }
+
+    let manifest = raw;
+    while (manifest.version < PROJECT_VERSION) {
+        const migrate = MIGRATIONS[manifest.version];
+        if (!migrate) {
+            throw new Error(`No migration from project version ${manifest.version}.`);
+        }
+        manifest = { ...migrate(manifest), version: manifest.version + 1 };
+    }
+    return completeManifest(manifest);
+};
+
+const assetKey = (file: File) => `${file.name}:${file.size}`;
+
+export const saveProject = async (
+    tracks: Track[],
+    master: MasterBusSettings,
+    ducking: DuckingSettings,
+    markers: Marker[],
+    embedAudio: boolean
+): Promise<Blob> => {
+    const assets: ProjectAsset[] = [];
+    const assetIds = new Map<File, string>();
+    const payload: Blob[] = [];
+    let payloadSize = 0;
+
+    for (const track of tracks) {
+        if (assetIds.has(track.file)) continue;
+        const asset: ProjectAsset = {
+            id: `a${assets.length}`,
+            name: track.file.name,
+            type: track.file.type,
+            size: track.file.size,
+            lastModified: track.file.lastModified,
+            embedded: embedAudio,
+        };
+        if (embedAudio) {
+            asset.offset = payloadSize;
+            payload.push(track.file);
+            payloadSize += track.file.size;
+        }
+        assets.push(asset);
+        assetIds.set(track.file, asset.id);
+    }
+
+    const manifest: ProjectManifest = {
+        version: PROJECT_VERSION,
+        createdAt: new Date().toISOString(),
+        assets,
+        tracks: tracks.map(track => ({
+            id: track.id,
+            assetId: assetIds.get(track.file)!,
+            clips: track.clips,
+            volume: track.volume,
+            pan: track.pan,
+            isMuted: track.isMuted,
+            isSolo: track.isSolo,
+            inserts: track.inserts,
+            automation: track.automation,
+            color: track.color,
+        })),
+        master,
+        ducking,
+        markers,
+    };
+
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    const header = new DataView(new ArrayBuffer(HEADER_SIZE));
+    for (let i = 0; i < MAGIC.length; i++) {
+        header.setUint8(i, MAGIC.charCodeAt(i));
+    }
+    header.setUint32(MAGIC.length, manifestBytes.length, true);
+
+    return new Blob([header, manifestBytes, ...payload], { type: 'application/octet-stream' });
+};
+
+export interface LoadedProject {
+    tracks: Track[];
+    master: MasterBusSettings;
+    ducking: DuckingSettings;
+    markers: Marker[];
+    missingAssets: string[]; // Names of referenced files that were not supplied
+}
+
+// `referencedFiles` are audio files picked alongside the project, matched to referenced
+// assets by name and size.
+export const loadProject = async (
+    projectFile: Blob,
+    referencedFiles: File[],
+    audioContext: AudioContext
+): Promise<LoadedProject> => {
+    const data = await projectFile.arrayBuffer();
+    const view = new DataView(data);
+    const magic = String.fromCharCode(...new Uint8Array(data, 0, Math.min(MAGIC.length, data.byteLength)));
+    if (data.byteLength < HEADER_SIZE || magic !== MAGIC) {
+        throw new Error("Not a DINO project file.");
+    }
+
+    const manifestLength = view.getUint32(MAGIC.length, true);
+    const manifestJson = new TextDecoder().decode(new Uint8Array(data, HEADER_SIZE, manifestLength));
+    const manifest = migrateManifest(JSON.parse(manifestJson));
+    const payloadStart = HEADER_SIZE + manifestLength;
+
+    const supplied = new Map(referencedFiles.map(file => [assetKey(file), file]));
+    const files = new Map<string, File>();
+    const buffers = new Map<string, AudioBuffer>();
+    const missingAssets: string[] = [];
+
+    for (const asset of manifest.assets) {
+        let file: File | undefined;
+        if (asset.embedded && asset.offset !== undefined) {
+            const start = payloadStart + asset.offset;
+            file = new File([data.slice(start, start + asset.size)], asset.name, { type: asset.type, lastModified: asset.lastModified });
+        } else {
+            file = supplied.get(`${asset.name}:${asset.size}`);
+        }
+        if (!file) {
+            missingAssets.push(asset.name);
+            continue;
+        }
+        files.set(asset.id, file);
+        buffers.set(asset.id, (await decodeFileAsAudioBuffer(file, audioContext)).buffer);
+    }
+
+    const tracks: Track[] = [];
+    for (const projectTrack of manifest.tracks) {
+        const file = files.get(projectTrack.assetId);
+        const buffer = buffers.get(projectTrack.assetId);
+        if (!file || !buffer) continue;
+        tracks.push({
+            id: projectTrack.id,
+            file,
+            buffer,
+            clips: projectTrack.clips.map(clip => ({
+                ...clip,
+                duration: clip.duration ?? buffer.duration - clip.offset,
+            })),
+            volume: projectTrack.volume,
+            pan: projectTrack.pan,
+            isMuted: projectTrack.isMuted,
+            isSolo: projectTrack.isSolo,
+            inserts: projectTrack.inserts,
+            automation: projectTrack.automation,
+            color: projectTrack.color,
+        });
+    }
+
+    return {
+        tracks,
+        master: withMasterDefaults(manifest.master),
+        ducking: withDuckingDefaults(manifest.ducking),
+        markers: manifest.markers,
+        missingAssets,
+    };
+};
@@ -0,0 +1,43 @@
+
+// Band-limited resampling with a Blackman-windowed sinc. The kernel is tabulated once and
+// read with linear interpolation, so any (also non-rational) rate costs the same.
+
+const ZERO_CROSSINGS = 8; // Half-width of the kernel in zero crossings of the sinc
+const TABLE_RESOLUTION = 512; // Table entries per zero crossing
+
+const KERNEL = (() => {
+    const size = ZERO_CROSSINGS * TABLE_RESOLUTION;
+    const table = new Float32Array(size + 2);
+    for (let i = 0; i <= size; i++) {
+        const x = i / TABLE_RESOLUTION;
+        const sinc = i === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const w = 0.42 + 0.5 * Math.cos(Math.PI * x / ZERO_CROSSINGS) + 0.08 * Math.cos(2 * Math.PI * x / ZERO_CROSSINGS);
+        table[i] = sinc * w;
+    }
+    return table;
+})();
+
+// Reads `data` at positions 0, step, 2·step, ... for `length` output samples. A step above 1
+// shortens (and raises) the signal; the kernel is then widened to cut at the new Nyquist.
+export const resampleChannel = (data: Float32Array, step: number, length: number = Math.floor(data.length / step)): Float32Array => {
+    const output = new Float32Array(length);
+    const cutoff = Math.min(1, 1 / step);
+    const halfWidth = ZERO_CROSSINGS / cutoff; // In input samples
+    const tableStep = cutoff * TABLE_RESOLUTION;
+    const last = data.length - 1;
+
+    for (let i = 0; i < length; i++) {
+        const position = i * step;
+        const first = Math.max(0, Math.ceil(position - halfWidth));
+        const end = Math.min(last, Math.floor(position + halfWidth));
+        let sum = 0;
+        for (let j = first; j <= end; j++) {
+            const t = Math.abs(position - j) * tableStep;
+            const index = t | 0;
+            const frac = t - index;
+            sum += data[j] * (KERNEL[index] + (KERNEL[index + 1] - KERNEL[index]) * frac);
+        }
+        output[i] = sum * cutoff;
+    }
+    return output;
+};
@@ -0,0 +1,55 @@
+
+import type { SelectionRange, SilenceSettings } from '../types';
+
+// Pause detection for splitting a recording: RMS level per short frame, loudest channel
+// counts, and runs of frames below the threshold that last long enough. Runs on the DSP worker.
+
+export const DEFAULT_SILENCE: SilenceSettings = {
+    threshold: -45,
+    minDuration: 1,
+    padding: 0.2,
+};
+
+const FRAME = 0.01; // Seconds per level measurement
+
+// Silent stretches in seconds, including one at the very start or end of the audio
+export const detectSilences = (
+    channels: Float32Array[],
+    sampleRate: number,
+    settings: SilenceSettings,
+    onProgress?: (fraction: number) => void
+): SelectionRange[] => {
+    const length = channels[0]?.length ?? 0;
+    const frameSize = Math.max(1, Math.round(FRAME * sampleRate));
+    const threshold = Math.pow(10, settings.threshold / 20);
+    const minFrames = Math.max(1, Math.round(settings.minDuration / FRAME));
+    const frames = Math.ceil(length / frameSize);
+    const silences: SelectionRange[] = [];
+
+    let runStart = -1;
+    const closeRun = (end: number) => {
+        if (runStart >= 0 && end - runStart >= minFrames) {
+            silences.push({ start: runStart * frameSize / sampleRate, end: Math.min(length, end * frameSize) / sampleRate });
+        }
+        runStart = -1;
+    };
+
+    for (let f = 0; f < frames; f++) {
+        const from = f * frameSize;
+        const to = Math.min(length, from + frameSize);
+        let loudest = 0;
+        for (const data of channels) {
+            let sum = 0;
+            for (let i = from; i < to; i++) sum += data[i] * data[i];
+            loudest = Math.max(loudest, sum / (to - from));
+        }
+        if (Math.sqrt(loudest) < threshold) {
+            if (runStart < 0) runStart = f;
+        } else {
+            closeRun(f);
+        }
+        if (onProgress && f % 1000 === 0) onProgress(f / frames);
+    }
+    closeRun(frames);
+    return silences;
+};
@@ -0,0 +1,208 @@
+
+import type { EqBand, StudioVoicePreset, StudioVoiceSettings } from '../types';
+import { STUDIO_COMPRESSOR, STUDIO_EQ, createCompressorNode } from './audio';
+import { connectEqChain } from './eq';
+import { createMasterBus, limiterLatency } from './masterBus';
+import { loadWorklet } from './worklets';
+
+// "Giọng Studio" voice chain: de-esser -> EQ -> compressor -> makeup gain -> true-peak limiter.
+// The makeup gain and limiter are a master bus, so the chain is delayed by `limiterLatency`
+// whether or not the limiter is enabled.
+
+const band = (id: string, type: BiquadFilterType, frequency: number, gain = 0, q = 1): EqBand =>
+    ({ id, type, frequency, gain, q, enabled: true });
+
+export const STUDIO_VOICE_PRESETS: StudioVoicePreset[] = [
+    {
+        id: 'podcast',
+        name: 'Podcast',
+        builtIn: true,
+        settings: {
+            deEsser: { enabled: true, frequency: 6000, threshold: -30, ratio: 4 },
+            eq: [band('hp', 'highpass', 80, 0, 0.71), band('mud', 'peaking', 250, -2), band('presence', 'peaking', 3000, 2), band('air', 'highshelf', 10000, 1.5)],
+            compressorEnabled: true,
+            compressor: { threshold: -20, knee: 6, ratio: 3, attack: 0.005, release: 0.15 },
+            makeup: 4,
+            limiterEnabled: true,
+            ceiling: -1,
+        },
+    },
+    {
+        id: 'audiobook',
+        name: 'Sách nói',
+        builtIn: true,
+        settings: {
+            deEsser: { enabled: true, frequency: 6500, threshold: -32, ratio: 3 },
+            eq: [band('hp', 'highpass', 70, 0, 0.71), band('mud', 'peaking', 300, -1.5), band('presence', 'peaking', 4000, 1)],
+            compressorEnabled: true,
+            compressor: { threshold: -22, knee: 10, ratio: 2, attack: 0.01, release: 0.25 },
+            makeup: 3,
+            limiterEnabled: true,
+            ceiling: -3,
+        },
+    },
+    {
+        id: 'radio',
+        name: 'Radio',
+        builtIn: true,
+        settings: {
+            deEsser: { enabled: true, frequency: 5500, threshold: -28, ratio: 6 },
+            eq: [band('hp', 'highpass', 100, 0, 0.71), band('body', 'lowshelf', 150, 3), band('presence', 'peaking', 2500, 3, 0.8), band('air', 'highshelf', 8000, 2)],
+            compressorEnabled: true,
+            compressor: { threshold: -28, knee: 3, ratio: 6, attack: 0.002, release: 0.08 },
+            makeup: 8,
+            limiterEnabled: true,
+            ceiling: -0.5,
+        },
+    },
+    {
+        id: 'youtube',
+        name: 'YouTube',
+        builtIn: true,
+        settings: {
+            deEsser: { enabled: true, frequency: 6000, threshold: -30, ratio: 4 },
+            eq: [band('hp', 'highpass', 90, 0, 0.71), band('mud', 'peaking', 200, -1), band('presence', 'peaking', 3500, 3), band('air', 'highshelf', 12000, 2)],
+            compressorEnabled: true,
+            compressor: { threshold: -24, knee: 6, ratio: 4, attack: 0.003, release: 0.12 },
+            makeup: 6,
+            limiterEnabled: true,
+            ceiling: -1,
+        },
+    },
+];
+
+export const DEFAULT_STUDIO_VOICE = STUDIO_VOICE_PRESETS[0].settings;
+
+// The fixed chain applied before the chain had settings; used for older saved edits
+export const legacyStudioVoice = (): StudioVoiceSettings => ({
+    deEsser: { enabled: false, frequency: 6000, threshold: -30, ratio: 4 },
+    eq: [{ ...STUDIO_EQ, id: 'legacy', enabled: true }],
+    compressorEnabled: true,
+    compressor: STUDIO_COMPRESSOR,
+    makeup: 0,
+    limiterEnabled: false,
+    ceiling: -1,
+});
+
+const DE_ESSER_NAME = 'dino-de-esser';
+const DE_ESSER_ATTACK = 0.001; // Seconds
+const DE_ESSER_RELEASE = 0.06;
+
+// The signal is split into a low band (2nd-order low-pass) and its exact complement
+// x - low, so the bands sum back to the input bit for bit while no gain is applied.
+// Only the high band is attenuated, following its own peak envelope.
+const DE_ESSER_SOURCE = `
+class DeEsser extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'frequency', defaultValue: 6000, minValue: 1000, maxValue: 16000, automationRate: 'k-rate' },
+            { name: 'threshold', defaultValue: -30, minValue: -80, maxValue: 0, automationRate: 'k-rate' },
+            { name: 'ratio', defaultValue: 4, minValue: 1, maxValue: 20, automationRate: 'k-rate' },
+            { name: 'bypass', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+        ];
+    }
+
+    constructor() {
+        super();
+        this.state = [new Float64Array(2), new Float64Array(2)];
+        this.frequency = 0;
+        this.envelope = 0;
+        this.attack = Math.exp(-1 / (${DE_ESSER_ATTACK} * sampleRate));
+        this.release = Math.exp(-1 / (${DE_ESSER_RELEASE} * sampleRate));
+    }
+
+    design(frequency) {
+        const w = 2 * Math.PI * Math.min(frequency, sampleRate * 0.45) / sampleRate;
+        const alpha = Math.sin(w) / (2 * Math.SQRT1_2);
+        const cos = Math.cos(w);
+        const a0 = 1 + alpha;
+        this.b0 = (1 - cos) / 2 / a0;
+        this.b1 = (1 - cos) / a0;
+        this.b2 = this.b0;
+        this.a1 = -2 * cos / a0;
+        this.a2 = (1 - alpha) / a0;
+        this.frequency = frequency;
+    }
+
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        const frequency = parameters.frequency[0];
+        if (frequency !== this.frequency) this.design(frequency);
+        const threshold = parameters.threshold[0];
+        const slope = 1 - 1 / parameters.ratio[0];
+        const bypass = parameters.bypass[0] >= 0.5;
+        const frames = output[0].length;
+        const low = [0, 0];
+        const high = [0, 0];
+
+        for (let i = 0; i < frames; i++) {
+            let peak = 0;
+            for (let ch = 0; ch < 2; ch++) {
+                const channel = input[ch] || input[0];
+                const x = channel ? channel[i] : 0;
+                const s = this.state[ch];
+                const y = this.b0 * x + s[0];
+                s[0] = this.b1 * x - this.a1 * y + s[1];
+                s[1] = this.b2 * x - this.a2 * y;
+                low[ch] = y;
+                high[ch] = x - y;
+                peak = Math.max(peak, Math.abs(high[ch]));
+            }
+            const coef = peak > this.envelope ? this.attack : this.release;
+            this.envelope = peak + (this.envelope - peak) * coef;
+            const level = this.envelope > 0 ? 20 * Math.log10(this.envelope) : -Infinity;
+            const gain = bypass || level <= threshold ? 1 : Math.pow(10, (threshold - level) * slope / 20);
+            for (let ch = 0; ch < 2; ch++) {
+                const out = output[ch] || output[0];
+                out[i] = low[ch] + high[ch] * gain;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('${DE_ESSER_NAME}', DeEsser);
+`;
+
+// Delay added by the chain, in samples
+export const studioVoiceLatency = limiterLatency;
+
+// Builds the chain from `input` to `output`; returns its nodes so a live chain can be torn down
+export const connectStudioVoice = async (
+    ctx: BaseAudioContext,
+    settings: StudioVoiceSettings,
+    input: AudioNode,
+    output: AudioNode
+): Promise<AudioNode[]> => {
+    await loadWorklet(ctx, DE_ESSER_SOURCE);
+    const deEsser = new AudioWorkletNode(ctx, DE_ESSER_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+    });
+    deEsser.parameters.get('frequency')!.value = settings.deEsser.frequency;
+    deEsser.parameters.get('threshold')!.value = settings.deEsser.threshold;
+    deEsser.parameters.get('ratio')!.value = settings.deEsser.ratio;
+    deEsser.parameters.get('bypass')!.value = settings.deEsser.enabled ? 0 : 1;
+
+    const bus = await createMasterBus(ctx, {
+        gain: Math.pow(10, settings.makeup / 20),
+        limiterEnabled: settings.limiterEnabled,
+        ceiling: settings.ceiling,
+        release: 0.1,
+    }, output);
+
+    const compressor = settings.compressorEnabled ? createCompressorNode(ctx, settings.compressor) : null;
+    const eqOutput = ctx.createGain();
+    const filters = connectEqChain(ctx, settings.eq, deEsser, eqOutput);
+    input.connect(deEsser);
+    if (compressor) {
+        eqOutput.connect(compressor);
+        compressor.connect(bus.input);
+    } else {
+        eqOutput.connect(bus.input);
+    }
+
+    return [deEsser, ...filters, eqOutput, ...(compressor ? [compressor] : []), bus.input, bus.limiter];
+};
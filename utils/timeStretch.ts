@@ -0,0 +1,131 @@
+
+import { resampleChannel } from './resample';
+
+// WSOLA (waveform-similarity overlap-add) time-stretch: Hann-windowed frames are laid down
+// every half frame in the output, each read from around its nominal input position at the
+// offset whose start best matches how the previous frame would have continued. Keeps pitch
+// and formants and suits speech well. Pitch shift = stretch by the pitch ratio, then
+// resample back to the stretched length.
+
+export const STRETCH_RANGE = { min: 0.25, max: 4 }; // Output length / input length
+export const PITCH_RANGE = 12; // Semitones either way
+
+const FRAME = 0.04; // Seconds; a few pitch periods of a voice
+const TOLERANCE = 0.012; // Seconds searched either side of the nominal position
+const COARSE_STEP = 4; // Lag and sample decimation of the first search pass
+
+export const semitonesToRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+// "+3 bán cung", "-1 bán cung 25 cent"
+export const formatPitch = (semitones: number): string => {
+    const whole = Math.trunc(semitones);
+    const cents = Math.round(Math.abs(semitones - whole) * 100);
+    const sign = semitones > 0 ? '+' : semitones < 0 ? '-' : '';
+    return `${sign}${Math.abs(whole)} bán cung${cents > 0 ? ` ${cents} cent` : ''}`;
+};
+
+// Normalized correlation of `length` samples of `signal` at `a` and `b`, every `step`th sample
+const similarity = (signal: Float32Array, a: number, b: number, length: number, step: number): number => {
+    let dot = 0;
+    let energy = 0;
+    for (let n = 0; n < length; n += step) {
+        const y = signal[b + n];
+        dot += signal[a + n] * y;
+        energy += y * y;
+    }
+    return energy > 0 ? dot / Math.sqrt(energy) : 0;
+};
+
+// Offset in [-tolerance, tolerance] from `nominal` whose start is most similar to `template`
+const bestOffset = (signal: Float32Array, template: number, nominal: number, length: number, tolerance: number): number => {
+    let best = 0;
+    let bestScore = similarity(signal, template, nominal, length, COARSE_STEP);
+    for (let delta = -tolerance; delta <= tolerance; delta += COARSE_STEP) {
+        const score = similarity(signal, template, nominal + delta, length, COARSE_STEP);
+        if (score > bestScore) {
+            bestScore = score;
+            best = delta;
+        }
+    }
+
+    const coarse = best;
+    bestScore = similarity(signal, template, nominal + coarse, length, 1);
+    for (let delta = Math.max(-tolerance, coarse - COARSE_STEP + 1); delta <= Math.min(tolerance, coarse + COARSE_STEP - 1); delta++) {
+        const score = similarity(signal, template, nominal + delta, length, 1);
+        if (score > bestScore) {
+            bestScore = score;
+            best = delta;
+        }
+    }
+    return best;
+};
+
+// Copies of the channels `stretch` times as long, at the same pitch. The search runs on the
+// mono sum and every channel uses the same frames, so the stereo image is kept.
+export const timeStretchChannels = (
+    channels: Float32Array[],
+    sampleRate: number,
+    stretch: number,
+    onProgress?: (fraction: number) => void
+): Float32Array[] => {
+    const inputLength = channels[0]?.length ?? 0;
+    const outputLength = Math.round(inputLength * stretch);
+    if (stretch === 1 || inputLength === 0) return channels.map(data => data.slice());
+
+    const frame = 2 * Math.max(32, Math.round(FRAME * sampleRate / 2));
+    const hop = frame / 2; // Output hop; periodic Hann windows sum to 1 at this overlap
+    const tolerance = Math.round(TOLERANCE * sampleRate);
+    const window = new Float32Array(frame);
+    for (let n = 0; n < frame; n++) window[n] = 0.5 - 0.5 * Math.cos(2 * Math.PI * n / frame);
+
+    // Zero padding on both sides keeps every read in bounds
+    const pad = frame + tolerance;
+    const padded = channels.map(data => {
+        const copy = new Float32Array(inputLength + 2 * pad + frame);
+        copy.set(data, pad);
+        return copy;
+    });
+    const mono = new Float32Array(padded[0].length);
+    padded.forEach(data => data.forEach((x, i) => mono[i] += x));
+
+    const outputs = channels.map(() => new Float32Array(outputLength));
+    // The first frame is centered on the start, so the output does not fade in
+    let position = -hop;
+    for (let outStart = -hop; outStart < outputLength; outStart += hop) {
+        onProgress?.(Math.max(0, outStart / outputLength));
+        if (outStart > -hop) {
+            const nominal = Math.round(outStart / stretch);
+            const natural = position + hop; // How the previous frame continues
+            position = nominal + bestOffset(mono, pad + natural, pad + nominal, hop, tolerance);
+        }
+        const from = Math.max(0, -outStart);
+        const to = Math.min(frame, outputLength - outStart);
+        for (let c = 0; c < channels.length; c++) {
+            const input = padded[c];
+            const output = outputs[c];
+            const read = pad + position;
+            for (let n = from; n < to; n++) output[outStart + n] += window[n] * input[read + n];
+        }
+    }
+    return outputs;
+};
+
+// Stretches by `stretch` and shifts the pitch by `semitones` in one pass
+export const stretchAndShiftChannels = (
+    channels: Float32Array[],
+    sampleRate: number,
+    stretch: number,
+    semitones: number,
+    onProgress?: (fraction: number) => void
+): Float32Array[] => {
+    if (semitones === 0) return timeStretchChannels(channels, sampleRate, stretch, onProgress);
+    const ratio = semitonesToRatio(semitones);
+    const length = Math.round((channels[0]?.length ?? 0) * stretch);
+    // Stretching is counted as the first half of the work, resampling as the second
+    return timeStretchChannels(channels, sampleRate, stretch * ratio, onProgress && (p => onProgress(p / 2)))
+        .map((data, c) => {
+            const resampled = resampleChannel(data, ratio, length);
+            onProgress?.(0.5 + (c + 1) / (2 * channels.length));
+            return resampled;
+        });
+};
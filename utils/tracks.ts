@@ -0,0 +1,26 @@
+
+import type { Track, TrackInsert } from '../types';
+import { STUDIO_EQ, STUDIO_COMPRESSOR } from './audio';
+import { emptyAutomation } from './automation';
+
+export const newInsertId = () => Math.random().toString(36).substr(2, 9);
+
+// Mixer fields added after the first Track shape; used when restoring older sessions/projects
+export const withTrackDefaults = <T extends object>(track: T): T & Pick<Track, 'pan' | 'isSolo' | 'inserts' | 'automation'> => ({
+    pan: 0,
+    isSolo: false,
+    inserts: [],
+    automation: emptyAutomation(),
+    ...track,
+});
+
+// New inserts start from the Editor's "Giọng Studio AI" settings
+export const createInsert = (type: TrackInsert['type']): TrackInsert => type === 'eq'
+    ? { id: newInsertId(), type: 'eq', enabled: true, settings: { ...STUDIO_EQ } }
+    : { id: newInsertId(), type: 'compressor', enabled: true, settings: { ...STUDIO_COMPRESSOR } };
+
+// Mute always wins; while any track is soloed, only soloed tracks are heard
+export const isTrackAudible = (track: Track, tracks: Track[]): boolean => {
+    if (track.isMuted) return false;
+    return !tracks.some(t => t.isSolo) || track.isSolo;
+};
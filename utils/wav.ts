@@ -0,0 +1,65 @@
+
+import { asciiBytes, concatBytes, uint32LE } from './bytes';
+
+// RIFF/WAVE writer for integer PCM (16/24-bit) and 32-bit float samples. `extraChunks`
+// (tags, see metadata.ts) go between the format and the audio data.
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+
+// A RIFF chunk: id, little-endian size, body and a pad byte when the size is odd
+export const riffChunk = (id: string, body: Uint8Array): Uint8Array =>
+    concatBytes([asciiBytes(id), uint32LE(body.length), body, new Uint8Array(body.length % 2)]);
+
+const formatChunk = (tag: number, channels: number, sampleRate: number, bitsPerSample: number): Uint8Array => {
+    const body = new Uint8Array(16);
+    const view = new DataView(body.buffer);
+    const blockAlign = channels * bitsPerSample / 8;
+    view.setUint16(0, tag, true);
+    view.setUint16(2, channels, true);
+    view.setUint32(4, sampleRate, true);
+    view.setUint32(8, sampleRate * blockAlign, true);
+    view.setUint16(12, blockAlign, true);
+    view.setUint16(14, bitsPerSample, true);
+    return riffChunk('fmt ', body);
+};
+
+const riffFile = (chunks: Uint8Array[]): Uint8Array => {
+    const body = concatBytes([asciiBytes('WAVE'), ...chunks]);
+    return concatBytes([asciiBytes('RIFF'), uint32LE(body.length), body]);
+};
+
+export const encodePcmWav = (samples: Int32Array[], sampleRate: number, bitDepth: 16 | 24, extraChunks: Uint8Array[] = []): Uint8Array => {
+    const length = samples[0]?.length ?? 0;
+    const bytesPerSample = bitDepth / 8;
+    const data = new Uint8Array(length * samples.length * bytesPerSample);
+    let offset = 0;
+    for (let i = 0; i < length; i++) {
+        for (const channel of samples) {
+            const value = channel[i];
+            data[offset] = value & 0xFF;
+            data[offset + 1] = (value >> 8) & 0xFF;
+            if (bitDepth === 24) data[offset + 2] = (value >> 16) & 0xFF;
+            offset += bytesPerSample;
+        }
+    }
+    return riffFile([formatChunk(FORMAT_PCM, samples.length, sampleRate, bitDepth), ...extraChunks, riffChunk('data', data)]);
+};
+
+// Float files also carry a `fact` chunk with the length in sample frames, as the format requires
+export const encodeFloatWav = (channels: Float32Array[], sampleRate: number, extraChunks: Uint8Array[] = []): Uint8Array => {
+    const length = channels[0]?.length ?? 0;
+    const interleaved = new Float32Array(length * channels.length);
+    for (let i = 0, offset = 0; i < length; i++) {
+        for (const channel of channels) interleaved[offset++] = channel[i];
+    }
+    const data = new Uint8Array(interleaved.length * 4);
+    const view = new DataView(data.buffer);
+    interleaved.forEach((value, i) => view.setFloat32(i * 4, value, true));
+    return riffFile([
+        formatChunk(FORMAT_FLOAT, channels.length, sampleRate, 32),
+        riffChunk('fact', uint32LE(length)),
+        ...extraChunks,
+        riffChunk('data', data),
+    ]);
+};
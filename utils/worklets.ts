@@ -0,0 +1,25 @@
+
+// Loads AudioWorklet processors given as source strings. Each source is added once per
+// context, so live AudioContexts and every OfflineAudioContext can share the same code.
+// Pages that are not a secure context have no AudioWorklet; loading then rejects.
+
+const loaded = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+export const loadWorklet = (ctx: BaseAudioContext, source: string): Promise<void> => {
+    let modules = loaded.get(ctx);
+    if (!modules) {
+        modules = new Map();
+        loaded.set(ctx, modules);
+    }
+    let loading = modules.get(source);
+    if (!loading) {
+        if (ctx.audioWorklet) {
+            const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+            loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+        } else {
+            loading = Promise.reject(new Error("AudioWorklet không khả dụng (cần HTTPS hoặc localhost)."));
+        }
+        modules.set(source, loading);
+    }
+    return loading;
+};
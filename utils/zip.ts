@@ -0,0 +1,91 @@
+
+import { concatBytes, utf8Bytes } from './bytes';
+
+// ZIP archive of already-encoded files. Entries are stored without compression: encoded audio
+// hardly shrinks, and storing keeps the archive fast to build. Names are flagged as UTF-8.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const MAX_ZIP32 = 0xFFFFFFFF; // Sizes and offsets without the ZIP64 extension
+const VERSION = 20; // 2.0, needed for the UTF-8 flag to be read
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS time and date fields, local time with 2-second resolution
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const zipFiles = (entries: ZipEntry[], modified = new Date()): Blob => {
+    const { time, date } = dosDateTime(modified);
+    const parts: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = utf8Bytes(entry.name);
+        const crc = crc32(entry.data);
+        if (offset + 30 + name.length + entry.data.length > MAX_ZIP32) {
+            throw new Error("Tệp ZIP vượt quá 4 GB, hãy xuất ít đoạn hơn.");
+        }
+
+        // Fields shared by the local header (from offset 4) and the central directory (from 6)
+        const common = new Uint8Array(26);
+        const view = new DataView(common.buffer);
+        view.setUint16(0, VERSION, true);
+        view.setUint16(2, UTF8_FLAG, true);
+        view.setUint16(4, 0, true); // Stored
+        view.setUint16(6, time, true);
+        view.setUint16(8, date, true);
+        view.setUint32(10, crc, true);
+        view.setUint32(14, entry.data.length, true);
+        view.setUint32(18, entry.data.length, true);
+        view.setUint16(22, name.length, true);
+        // Extra field length stays zero
+
+        const local = new Uint8Array(4);
+        new DataView(local.buffer).setUint32(0, 0x04034B50, true);
+        parts.push(local, common, name, entry.data);
+
+        const central = new Uint8Array(46);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014B50, true);
+        centralView.setUint16(4, VERSION, true); // Made by: MS-DOS attributes
+        central.set(common, 6);
+        // Comment length, disk number and attributes stay zero
+        centralView.setUint32(42, offset, true);
+        directory.push(central, name);
+
+        offset += 30 + name.length + entry.data.length;
+    }
+
+    const directoryBytes = concatBytes(directory);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, directoryBytes.length, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, directoryBytes, end], { type: 'application/zip' });
+};